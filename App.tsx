@@ -1,84 +1,267 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import FilterBar from './components/FilterBar';
 import EventGrid from './components/EventGrid';
+import EventCalendar from './components/EventCalendar';
 import TrendExplorer from './components/TrendExplorer';
 import InspirationGallery from './components/InspirationGallery';
 import MarketPulse from './components/MarketPulse';
 import MetadataGenerator from './components/MetadataGenerator';
-import { findEvents, generateInspirationGallery } from './services/geminiService';
-import type { Event, ContentType, GroundingSource } from './types';
-import { CONTENT_TYPES, COUNTRIES, MONTHS } from './constants';
-import { SparklesIcon, ChartBarIcon, GlobeAltIcon, TagIcon } from './components/icons';
+import type { MetadataDraft } from './components/MetadataGenerator';
+import DeadlinePlanner from './components/DeadlinePlanner';
+import ImageLibrary from './components/ImageLibrary';
+import IdeaBoard from './components/IdeaBoard';
+import SalesAnalytics from './components/SalesAnalytics';
+import SeasonalityHeatmap from './components/SeasonalityHeatmap';
+import WorkspaceMenu from './components/WorkspaceMenu';
+import ResponseNotices from './components/ResponseNotices';
+import RefreshButton from './components/RefreshButton';
+import { findEventsForCountries, findEventsForRange, buildMonthRange, generateInspirationGallery } from './services/geminiService';
+import { withSchedule } from './services/plannerService';
+import { createLocalStore, useLocalStore } from './services/localStore';
+import { saveLibraryImage } from './services/imageLibrary';
+import { getImageSettings } from './services/imagePresets';
+import { metadataTopicFor } from './services/ideaBoard';
+import { readUrlState, writeUrlState } from './services/urlState';
+import type { CacheOptions } from './services/aiCache';
+import type { SeasonalEvent } from './services/seasonality';
+import type { Event, ContentType, GallerySlot, GroundingSource, MetadataSearch, MonthEvents, SavedIdea, SearchFilters, SearchRange, TrendSearch, WorkspaceSession } from './types';
+import { CONTENT_TYPES, COUNTRIES, DEFAULT_GALLERY_SIZE, MONTHS } from './constants';
+import { SparklesIcon, ChartBarIcon, GlobeAltIcon, TagIcon, CalendarDaysIcon, RectangleStackIcon, LightBulbIcon, CashIcon, FireIcon } from './components/icons';
 
-type View = 'events' | 'trends' | 'market' | 'metadata';
+type View = 'events' | 'trends' | 'market' | 'metadata' | 'board' | 'planner' | 'seasonality' | 'library' | 'sales';
+
+const VIEWS: View[] = ['events', 'trends', 'market', 'metadata', 'board', 'planner', 'seasonality', 'library', 'sales'];
+
+const isView = (value: string): value is View => (VIEWS as string[]).includes(value);
+
+const gallerySizeStore = createLocalStore<number>('aice.gallerySize', DEFAULT_GALLERY_SIZE);
+
+const variationRange = (start: number, count: number): number[] => Array.from({ length: count }, (_, i) => start + i);
 
 const App: React.FC = () => {
+  // The URL the page was opened with; later changes arrive through history navigation.
+  const [initialUrl] = useState(readUrlState);
   const [events, setEvents] = useState<Event[]>([]);
   const [sources, setSources] = useState<GroundingSource[]>([]);
-  const [inspirationImages, setInspirationImages] = useState<string[]>([]);
+  const [calendarMonths, setCalendarMonths] = useState<{ month: number; year: number }[]>([]);
+  const [calendarResults, setCalendarResults] = useState<MonthEvents[]>([]);
+  const [searchRange, setSearchRange] = useState<SearchRange>('month');
+  const [gallerySlots, setGallerySlots] = useState<GallerySlot[]>([]);
+  const gallerySize = useLocalStore(gallerySizeStore);
   const [searchQuery, setSearchQuery] = useState('');
+  const [lastFilters, setLastFilters] = useState<SearchFilters | null>(initialUrl.filters);
   
   const [isSearchingEvents, setIsSearchingEvents] = useState<boolean>(false);
-  const [isGeneratingGallery, setIsGeneratingGallery] = useState<boolean>(false);
   
   const [hasSearched, setHasSearched] = useState<boolean>(false);
   const [contentType, setContentType] = useState<ContentType>(CONTENT_TYPES[0]);
   const [error, setError] = useState<string | null>(null);
-  const [galleryError, setGalleryError] = useState<string | null>(null);
 
-  const [currentView, setCurrentView] = useState<View>('events');
+  const [currentView, setCurrentView] = useState<View>(initialUrl.view && isView(initialUrl.view) ? initialUrl.view : 'events');
+  const [metadataDraft, setMetadataDraft] = useState<MetadataDraft | null>(null);
+  const [trendSearch, setTrendSearch] = useState<TrendSearch | null>(initialUrl.trendSearch);
+  const [metadataSearch, setMetadataSearch] = useState<MetadataSearch | null>(initialUrl.metadataSearch);
+  // Remounts the search forms so they pick up a restored session or history entry.
+  const [restoreCount, setRestoreCount] = useState(0);
+  const searchController = useRef<AbortController | null>(null);
+
+  const isGeneratingGallery = gallerySlots.some(slot => slot.status === 'loading');
+
+  const searchedEvents = useMemo<SeasonalEvent[]>(
+    () => [...events, ...calendarResults.flatMap(result => result.events)].map(event => ({ event, contentType })),
+    [events, calendarResults, contentType]
+  );
+
+  // Each slot updates as soon as its image settles. Retries and extra
+  // variations share the search's signal, so a new search cancels them too.
+  const loadGallerySlots = useCallback((query: string, type: ContentType, variations: number[], options: CacheOptions) => {
+    setGallerySlots(prev => [
+        ...prev.filter(slot => !variations.includes(slot.variation)),
+        ...variations.map((variation): GallerySlot => ({ variation, status: 'loading' })),
+    ].sort((a, b) => a.variation - b.variation));
+    // Settings are read when the images are requested, so changes apply to the
+    // next retry or batch of variations.
+    generateInspirationGallery(query, type, getImageSettings(type), variations, (slot) => {
+        if (slot.image) {
+            saveLibraryImage({ data: slot.image, prompt: query, contentType: type, source: { kind: 'gallery', name: query } });
+        }
+        if (!options.signal?.aborted) {
+            setGallerySlots(prev => prev.map(s => (s.variation === slot.variation ? slot : s)));
+        }
+    }, options);
+  }, []);
+
+  const handleSearch = useCallback(async (filters: SearchFilters, options?: CacheOptions) => {
+    // A new search supersedes the previous one; its late results must not land.
+    searchController.current?.abort();
+    const controller = new AbortController();
+    searchController.current = controller;
+    const requestOptions: CacheOptions = { ...options, signal: controller.signal };
 
-  const handleSearch = useCallback(async (filters: { country: string; month: number; year: number; type: ContentType }) => {
     setHasSearched(true);
+    setLastFilters(filters);
     setEvents([]);
     setSources([]);
-    setInspirationImages([]);
+    setCalendarResults([]);
+    setSearchRange(filters.range);
+    setGallerySlots([]);
     setError(null);
-    setGalleryError(null);
     setContentType(filters.type);
     setIsSearchingEvents(true);
-    setIsGeneratingGallery(true);
 
-    const countryName = COUNTRIES.find(c => c.code === filters.country)?.name;
+    const countries = COUNTRIES.filter(c => filters.countries.includes(c.code));
     const monthName = MONTHS.find(m => m.value === filters.month)?.name;
 
-    if (!countryName || !monthName) {
+    if (countries.length === 0 || !monthName) {
       setError("Invalid country or month selected.");
       setIsSearchingEvents(false);
-      setIsGeneratingGallery(false);
       return;
     }
     
-    const query = `${monthName} in ${countryName}`;
-    setSearchQuery(query);
+    const countryLabel = countries.length === 1 ? countries[0].name : countries.map(c => c.name).join(', ');
 
-    const eventsPromise = findEvents(countryName, monthName, filters.country, filters.year);
-    const galleryPromise = generateInspirationGallery(query, filters.type);
+    if (filters.range !== 'month') {
+        const months = buildMonthRange(filters.range, filters.month, filters.year);
+        const query = filters.range === 'year' ? `${filters.year} in ${countryLabel}` : `The year ahead in ${countryLabel}`;
+        setSearchQuery(query);
+        setCalendarMonths(months);
 
-    const [eventsResult, galleryResult] = await Promise.allSettled([eventsPromise, galleryPromise]);
+        loadGallerySlots(query, filters.type, variationRange(0, gallerySizeStore.get()), requestOptions);
+        await findEventsForRange(countries, months, (result) => {
+            if (controller.signal.aborted) {
+                return;
+            }
+            const events = result.events.map(event => withSchedule(event, filters.type));
+            setCalendarResults(prev => [...prev, { ...result, events }]);
+        }, requestOptions);
 
-    // Handle events result
-    if (eventsResult.status === 'fulfilled') {
-        setEvents(eventsResult.value.events);
-        setSources(eventsResult.value.sources);
-    } else {
-        setError(eventsResult.reason instanceof Error ? eventsResult.reason.message : 'An unknown error occurred while fetching events.');
+        if (!controller.signal.aborted) {
+            setIsSearchingEvents(false);
+        }
+        return;
     }
-    setIsSearchingEvents(false);
 
-    // Handle gallery result
-    if (galleryResult.status === 'fulfilled') {
-        setInspirationImages(galleryResult.value);
-    } else {
-        setGalleryError(galleryResult.reason instanceof Error ? galleryResult.reason.message : 'An unknown error occurred while generating images.');
+    const query = `${monthName} in ${countryLabel}`;
+    setSearchQuery(query);
+
+    loadGallerySlots(query, filters.type, variationRange(0, gallerySizeStore.get()), requestOptions);
+    try {
+        const result = await findEventsForCountries(countries, monthName, filters.year, requestOptions);
+        if (controller.signal.aborted) {
+            return;
+        }
+        setEvents(result.events.map(event => withSchedule(event, filters.type)));
+        setSources(result.sources);
+        const { failedCountries } = result;
+        if (failedCountries) {
+            const names = COUNTRIES.filter(c => failedCountries.includes(c.code)).map(c => c.name).join(', ');
+            setError(`Some markets could not be searched and are missing from the results: ${names}.`);
+        }
+    } catch (err) {
+        if (controller.signal.aborted) {
+            return;
+        }
+        setError(err instanceof Error ? err.message : 'An unknown error occurred while fetching events.');
     }
-    setIsGeneratingGallery(false);
+    setIsSearchingEvents(false);
+  }, [loadGallerySlots]);
 
+  // A shared link opens with its search's results, which are cached after the first visit.
+  useEffect(() => {
+    if (initialUrl.filters) {
+      handleSearch(initialUrl.filters);
+    }
+    // Only on mount; later searches come from the filter bar or history navigation.
   }, []);
 
+  // Each tab change or new search adds a history entry. The first write only
+  // normalizes the address the page was opened with.
+  const hasWrittenUrl = useRef(false);
+  useEffect(() => {
+    writeUrlState({ view: currentView, filters: lastFilters, trendSearch, metadataSearch }, !hasWrittenUrl.current);
+    hasWrittenUrl.current = true;
+  }, [currentView, lastFilters, trendSearch, metadataSearch]);
+
+  // Back and forward restore the tab and searches of that entry. The state then
+  // matches the URL again, so the effect above adds no entry of its own.
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState();
+      setCurrentView(state.view && isView(state.view) ? state.view : 'events');
+      setTrendSearch(state.trendSearch);
+      setMetadataSearch(state.metadataSearch);
+      setMetadataDraft(null);
+      if (state.filters && JSON.stringify(state.filters) !== JSON.stringify(lastFilters)) {
+        handleSearch(state.filters);
+      } else if (!state.filters && lastFilters) {
+        searchController.current?.abort();
+        setIsSearchingEvents(false);
+        setHasSearched(false);
+        setLastFilters(null);
+        setEvents([]);
+        setSources([]);
+        setCalendarResults([]);
+        setGallerySlots([]);
+        setError(null);
+      }
+      setRestoreCount(count => count + 1);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [lastFilters, handleSearch]);
+
+  const handleRetryGallery = (variations: number[]) => {
+    loadGallerySlots(searchQuery, contentType, variations, { signal: searchController.current?.signal });
+  };
+
+  const handleMoreVariations = () => {
+    const next = Math.max(-1, ...gallerySlots.map(slot => slot.variation)) + 1;
+    loadGallerySlots(searchQuery, contentType, variationRange(next, gallerySize), { signal: searchController.current?.signal });
+  };
+
+  const getWorkspaceSession = (): WorkspaceSession => ({
+    view: currentView,
+    eventSearch: lastFilters
+      ? { filters: lastFilters, query: searchQuery, events, sources, calendarMonths, calendarResults }
+      : null,
+    trendSearch,
+    metadataSearch,
+  });
+
+  // Show an imported session's results as they were, without searching again.
+  const restoreWorkspaceSession = (session: WorkspaceSession) => {
+    searchController.current?.abort();
+    const search = session.eventSearch;
+    setIsSearchingEvents(false);
+    setError(null);
+    setGallerySlots([]);
+    setHasSearched(search !== null);
+    setLastFilters(search?.filters ?? null);
+    setSearchQuery(search?.query ?? '');
+    setEvents(search?.events ?? []);
+    setSources(search?.sources ?? []);
+    setCalendarMonths(search?.calendarMonths ?? []);
+    setCalendarResults(search?.calendarResults ?? []);
+    setSearchRange(search?.filters.range ?? 'month');
+    setContentType(search?.filters.type ?? CONTENT_TYPES[0]);
+    setTrendSearch(session.trendSearch);
+    setMetadataSearch(session.metadataSearch);
+    setMetadataDraft(null);
+    setCurrentView(isView(session.view) ? session.view : 'events');
+    setRestoreCount(count => count + 1);
+  };
+
+  const handleSendToMetadata = (idea: SavedIdea) => {
+    setMetadataDraft({ topic: metadataTopicFor(idea), contentType: idea.contentType, ideaId: idea.id, ideaTitle: idea.title });
+    setCurrentView('metadata');
+  };
+
   const TabButton: React.FC<{view: View, label: string, icon: React.ReactNode}> = ({ view, label, icon }) => (
     <button
-      onClick={() => setCurrentView(view)}
+      onClick={() => {
+        setMetadataDraft(null);
+        setCurrentView(view);
+      }}
       className={`flex items-center justify-center gap-2 px-4 py-2.5 text-sm sm:text-base font-semibold rounded-lg transition-all duration-300 transform border ${
         currentView === view
           ? 'bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-500/30 scale-105'
@@ -100,6 +283,9 @@ const App: React.FC = () => {
           <p className="mt-6 max-w-3xl mx-auto text-lg sm:text-xl text-gray-600">
             From local events to global trends, discover your next bestselling idea and visualize it instantly with AI.
           </p>
+          <div className="mt-6">
+            <WorkspaceMenu getSession={getWorkspaceSession} onImport={restoreWorkspaceSession} />
+          </div>
         </header>
 
         <div className="flex justify-center mb-10 gap-2 sm:gap-4 flex-wrap">
@@ -107,8 +293,15 @@ const App: React.FC = () => {
            <TabButton view="trends" label="Trend Explorer" icon={<ChartBarIcon className="w-5 h-5" />} />
            <TabButton view="market" label="Market Pulse" icon={<GlobeAltIcon className="w-5 h-5" />} />
            <TabButton view="metadata" label="Title & Keywords" icon={<TagIcon className="w-5 h-5" />} />
+           <TabButton view="board" label="Idea Board" icon={<LightBulbIcon className="w-5 h-5" />} />
+           <TabButton view="planner" label="Planner" icon={<CalendarDaysIcon className="w-5 h-5" />} />
+           <TabButton view="seasonality" label="Seasonality" icon={<FireIcon className="w-5 h-5" />} />
+           <TabButton view="library" label="Library" icon={<RectangleStackIcon className="w-5 h-5" />} />
+           <TabButton view="sales" label="Sales" icon={<CashIcon className="w-5 h-5" />} />
         </div>
 
+        <ResponseNotices />
+
         {error && (
             <div className="bg-red-100 border border-red-400 text-red-700 p-4 mb-8 rounded-md animate-fade-in" role="alert">
                 <p className="font-bold">An Error Occurred</p>
@@ -119,28 +312,50 @@ const App: React.FC = () => {
         <div className="animate-fade-in">
             {currentView === 'events' && (
                 <>
-                    <FilterBar onSearch={handleSearch} isLoading={isSearchingEvents || isGeneratingGallery} />
-                    {hasSearched && (
-                        <InspirationGallery 
-                            images={inspirationImages} 
-                            isLoading={isGeneratingGallery} 
-                            error={galleryError}
+                    <FilterBar key={restoreCount} onSearch={handleSearch} isLoading={isSearchingEvents || isGeneratingGallery} initialFilters={lastFilters} />
+                    {lastFilters && (
+                        <div className="flex justify-end -mt-6 mb-6">
+                            <RefreshButton
+                                onClick={() => handleSearch(lastFilters, { refresh: true })}
+                                disabled={isSearchingEvents || isGeneratingGallery}
+                                label="Refresh results"
+                            />
+                        </div>
+                    )}
+                    {hasSearched && gallerySlots.length > 0 && (
+                        <InspirationGallery
+                            slots={gallerySlots}
                             query={searchQuery}
                             contentType={contentType}
+                            size={gallerySize}
+                            onSizeChange={gallerySizeStore.set}
+                            onRetry={handleRetryGallery}
+                            onMore={handleMoreVariations}
+                        />
+                    )}
+                    {hasSearched && searchRange !== 'month' ? (
+                        <EventCalendar
+                            months={calendarMonths}
+                            results={calendarResults}
+                            isLoading={isSearchingEvents}
+                            contentType={contentType}
+                            query={searchQuery}
+                        />
+                    ) : (
+                        <EventGrid
+                            events={events}
+                            isLoading={isSearchingEvents}
+                            hasSearched={hasSearched}
+                            contentType={contentType}
+                            sources={sources}
+                            query={searchQuery}
                         />
                     )}
-                    <EventGrid
-                        events={events}
-                        isLoading={isSearchingEvents}
-                        hasSearched={hasSearched}
-                        contentType={contentType}
-                        sources={sources}
-                    />
                 </>
             )}
 
             {currentView === 'trends' && (
-                <TrendExplorer />
+                <TrendExplorer key={restoreCount} initialSearch={trendSearch} onSearch={setTrendSearch} />
             )}
 
             {currentView === 'market' && (
@@ -148,7 +363,27 @@ const App: React.FC = () => {
             )}
 
             {currentView === 'metadata' && (
-                <MetadataGenerator />
+                <MetadataGenerator key={restoreCount} draft={metadataDraft ?? metadataSearch} onGenerate={setMetadataSearch} />
+            )}
+
+            {currentView === 'board' && (
+                <IdeaBoard onSendToMetadata={handleSendToMetadata} />
+            )}
+
+            {currentView === 'planner' && (
+                <DeadlinePlanner />
+            )}
+
+            {currentView === 'seasonality' && (
+                <SeasonalityHeatmap searchEvents={searchedEvents} />
+            )}
+
+            {currentView === 'library' && (
+                <ImageLibrary />
+            )}
+
+            {currentView === 'sales' && (
+                <SalesAnalytics />
             )}
         </div>
         
@@ -0,0 +1,460 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { StockMetadata, ContentType, MetadataLanguage } from '../types';
+import { CONTENT_TYPES, DEFAULT_METADATA_LANGUAGE, METADATA_LANGUAGES } from '../constants';
+import { generateStockMetadata } from '../services/geminiService';
+import { PLATFORM_RULES } from '../services/metadataRules';
+import { buildPortalCsv, categoriesFor } from '../services/csvExport';
+import type { CsvRow } from '../services/csvExport';
+import { downloadFile, slugify } from '../services/download';
+import { checkImageFile, fileToImageInput, ACCEPTED_IMAGE_TYPES } from '../services/imageFiles';
+import { createTaskQueue } from '../services/taskQueue';
+import { isJpeg, tagJpegFile } from '../services/jpegMetadata';
+import { createZip } from '../services/zip';
+import type { ZipEntry } from '../services/zip';
+import Spinner from './Spinner';
+import { ArrowUpTrayIcon, ArrowDownTrayIcon, XCircleIcon, ExclamationTriangleIcon, CheckCircleIcon, TagIcon } from './icons';
+
+// Each file is a separate vision request, so keep a handful in flight to stay under rate limits.
+const BATCH_CONCURRENCY = 3;
+
+const PLATFORMS = Object.keys(PLATFORM_RULES);
+
+type BatchStatus = 'queued' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  /** The description, content type and language in effect when the file was added. */
+  topic: string;
+  contentType: ContentType;
+  language: MetadataLanguage;
+  status: BatchStatus;
+  results?: StockMetadata[];
+  error?: string;
+}
+
+let nextItemId = 0;
+
+const StatusBadge: React.FC<{ item: BatchItem }> = ({ item }) => {
+  switch (item.status) {
+    case 'queued':
+      return <span className="text-xs font-medium text-gray-500">Queued</span>;
+    case 'processing':
+      return (
+        <span className="flex items-center gap-2 text-xs font-medium text-blue-600">
+          <Spinner size="sm" /> Generating
+        </span>
+      );
+    case 'done':
+      return (
+        <span className="flex items-center text-xs font-medium text-green-700">
+          <CheckCircleIcon className="w-4 h-4 mr-1" /> Done
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center text-xs font-medium text-red-600" title={item.error}>
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1" /> Failed
+        </span>
+      );
+  }
+};
+
+const BatchMetadataGenerator: React.FC = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [topic, setTopic] = useState('');
+  const [contentType, setContentType] = useState<ContentType>(CONTENT_TYPES[0]);
+  const [language, setLanguage] = useState<MetadataLanguage>(DEFAULT_METADATA_LANGUAGE);
+  const [platform, setPlatform] = useState(PLATFORMS[0]);
+  const [categories, setCategories] = useState<Record<string, string>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejected, setRejected] = useState<string[]>([]);
+  const [isZipping, setIsZipping] = useState(false);
+  const [tagError, setTagError] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef(createTaskQueue(BATCH_CONCURRENCY));
+  // Items removed while queued or running must not be written back into state,
+  // and their requests are cancelled.
+  const activeIds = useRef(new Map<string, AbortController>());
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  const cancelAll = () => {
+    activeIds.current.forEach(controller => controller.abort());
+    activeIds.current.clear();
+  };
+
+  useEffect(() => () => {
+    queueRef.current.clear();
+    cancelAll();
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+  }, []);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    if (!activeIds.current.has(id)) {
+      return;
+    }
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const enqueue = (item: BatchItem) => {
+    queueRef.current.add(async () => {
+      const controller = activeIds.current.get(item.id);
+      if (!controller) {
+        return;
+      }
+      updateItem(item.id, { status: 'processing', error: undefined });
+      try {
+        const image = await fileToImageInput(item.file);
+        const results = await generateStockMetadata(item.topic, item.contentType, image, item.language, { signal: controller.signal });
+        updateItem(item.id, { status: 'done', results });
+      } catch (err) {
+        updateItem(item.id, { status: 'error', error: err instanceof Error ? err.message : 'An unknown error occurred.' });
+      }
+    });
+  };
+
+  const addFiles = (files: File[]) => {
+    const problems: string[] = [];
+    const added: BatchItem[] = [];
+    for (const file of files) {
+      const problem = checkImageFile(file);
+      if (problem) {
+        problems.push(`${file.name}: ${problem}`);
+        continue;
+      }
+      const item: BatchItem = {
+        id: `batch-${nextItemId++}`,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        topic,
+        contentType,
+        language,
+        status: 'queued',
+      };
+      activeIds.current.set(item.id, new AbortController());
+      added.push(item);
+    }
+    setRejected(problems);
+    setItems(prev => [...prev, ...added]);
+    added.forEach(enqueue);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleRetry = (item: BatchItem) => {
+    updateItem(item.id, { status: 'queued', error: undefined });
+    enqueue(item);
+  };
+
+  const handleRetryFailed = () => {
+    items.filter(item => item.status === 'error').forEach(handleRetry);
+  };
+
+  const handleRemove = (item: BatchItem) => {
+    activeIds.current.get(item.id)?.abort();
+    activeIds.current.delete(item.id);
+    URL.revokeObjectURL(item.previewUrl);
+    setItems(prev => prev.filter(i => i.id !== item.id));
+  };
+
+  const handleClear = () => {
+    queueRef.current.clear();
+    cancelAll();
+    items.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems([]);
+    setRejected([]);
+  };
+
+  const csvRows = (target: string): CsvRow[] =>
+    items.flatMap(item =>
+      (item.results ?? [])
+        .filter(metadata => metadata.platform === target)
+        .map(metadata => ({ filename: item.file.name, contentType: item.contentType, metadata, category: categories[target] || undefined }))
+    );
+
+  const handleExport = (target: string) => {
+    downloadFile(buildPortalCsv(target, csvRows(target)), `${slugify(target)}-metadata.csv`, 'text/csv;charset=utf-8');
+  };
+
+  // One zip, since browsers block repeated automatic downloads after the first.
+  const handleExportAll = () => {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = PLATFORMS
+      .filter(p => csvRows(p).length > 0)
+      .map(p => ({ name: `${slugify(p)}-metadata.csv`, data: encoder.encode(buildPortalCsv(p, csvRows(p))) }));
+    if (entries.length > 0) {
+      downloadFile(createZip(entries), 'metadata-csvs.zip', 'application/zip');
+    }
+  };
+
+  const metadataFor = (item: BatchItem) => item.results?.find(r => r.platform === platform);
+  const taggableItems = items.filter(item => isJpeg(item.file) && metadataFor(item));
+
+  const handleDownloadTagged = async (item: BatchItem) => {
+    const metadata = metadataFor(item);
+    if (!metadata) {
+      return;
+    }
+    setTagError(null);
+    try {
+      downloadFile(await tagJpegFile(item.file, metadata), item.file.name, 'image/jpeg');
+    } catch (err) {
+      setTagError(`${item.file.name}: ${err instanceof Error ? err.message : 'Failed to write metadata into the image.'}`);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    setTagError(null);
+    const entries: ZipEntry[] = [];
+    const failed: string[] = [];
+    for (const item of taggableItems) {
+      try {
+        entries.push({ name: item.file.name, data: await tagJpegFile(item.file, metadataFor(item)!) });
+      } catch {
+        failed.push(item.file.name);
+      }
+    }
+    if (entries.length > 0) {
+      downloadFile(createZip(entries), `${slugify(platform)}-tagged-images.zip`, 'application/zip');
+    }
+    if (failed.length > 0) {
+      setTagError(`Could not write metadata into ${failed.join(', ')}.`);
+    }
+    setIsZipping(false);
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'error').length;
+  const finishedCount = doneCount + failedCount;
+  const isRunning = items.some(item => item.status === 'queued' || item.status === 'processing');
+  const platformCategories = categoriesFor(platform);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+        <div className="space-y-6">
+          <div>
+            <label htmlFor="batch-topic" className="block text-sm font-medium text-gray-700 mb-1">Shoot Description (Optional)</label>
+            <input
+              type="text"
+              id="batch-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="e.g., 'Autumn harvest festival in Bavaria'"
+              className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+            />
+            <p className="text-xs text-gray-500 mt-1">Applies, with the content type and language, to files added after you set it.</p>
+          </div>
+          <div>
+            <label htmlFor="batch-content-type" className="block text-sm font-medium text-gray-700 mb-1">Content Type</label>
+            <select
+              id="batch-content-type"
+              value={contentType}
+              onChange={(e) => setContentType(e.target.value as ContentType)}
+              className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+            >
+              {CONTENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="batch-language" className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+            <select
+              id="batch-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as MetadataLanguage)}
+              className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+            >
+              {METADATA_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept={ACCEPTED_IMAGE_TYPES.join(',')}
+            multiple
+            className="hidden"
+          />
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`w-full h-48 border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 cursor-pointer transition-colors ${
+              isDragging ? 'bg-blue-50 border-blue-500' : 'border-gray-300 hover:bg-gray-50 hover:border-blue-500'
+            }`}
+          >
+            <ArrowUpTrayIcon className="w-8 h-8 mb-2 text-gray-400" />
+            <span>Click to select or drag & drop a whole shoot</span>
+            <span className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP (Max 4MB each)</span>
+          </div>
+        </div>
+      </div>
+
+      {rejected.length > 0 && (
+        <div className="text-sm text-red-500">
+          <p className="font-medium">Skipped {rejected.length} {rejected.length === 1 ? 'file' : 'files'}:</p>
+          <ul className="list-disc list-inside text-xs">
+            {rejected.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-center py-10 rounded-lg bg-gray-50/50">
+          <TagIcon className="w-16 h-16 text-blue-500 mx-auto" />
+          <h2 className="text-3xl font-bold text-gray-800 mt-4">Batch Metadata</h2>
+          <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Add a whole shoot to generate titles and keywords for every file, then export one CSV per portal.</p>
+        </div>
+      ) : (
+        <div className="animate-slide-up-fade-in space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>
+                {finishedCount} of {items.length} processed
+                {failedCount > 0 && <span className="text-red-600 font-semibold">, {failedCount} failed</span>}
+              </span>
+              {isRunning && <span className="animate-pulse">Generating...</span>}
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${(finishedCount / items.length) * 100}%` }}></div>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div>
+              <label htmlFor="batch-platform" className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+              <select id="batch-platform" value={platform} onChange={(e) => setPlatform(e.target.value)} className="w-full px-3 py-2 rounded-md shadow-sm light-input">
+                {PLATFORMS.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            {platformCategories.length > 0 && (
+              <div>
+                <label htmlFor="batch-category" className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  id="batch-category"
+                  value={categories[platform] ?? ''}
+                  onChange={(e) => setCategories(prev => ({ ...prev, [platform]: e.target.value }))}
+                  className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+                >
+                  <option value="">No category</option>
+                  {platformCategories.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2 sm:ml-auto">
+              {failedCount > 0 && (
+                <button type="button" onClick={handleRetryFailed} className="px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 transition-colors">
+                  Retry failed
+                </button>
+              )}
+              <button type="button" onClick={handleClear} className="px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 transition-colors">
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={handleExportAll}
+                disabled={doneCount === 0}
+                className="flex items-center px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+              >
+                <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+                Export all CSVs
+              </button>
+              <button
+                type="button"
+                onClick={handleDownloadZip}
+                disabled={taggableItems.length === 0 || isZipping}
+                title={`Embed ${platform} titles and keywords into every JPEG`}
+                className="flex items-center px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isZipping ? <Spinner size="sm" /> : <ArrowDownTrayIcon className="w-4 h-4 mr-2 text-blue-600" />}
+                <span className={isZipping ? 'ml-2' : ''}>Tagged JPEGs (.zip)</span>
+              </button>
+            </div>
+          </div>
+
+          {tagError && <p className="text-sm text-red-500">{tagError}</p>}
+
+          <div className="overflow-x-auto rounded-lg border border-gray-200/80 bg-white/60">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100/80 text-left text-gray-700">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">File</th>
+                  <th className="px-3 py-2 font-semibold">Status</th>
+                  <th className="px-3 py-2 font-semibold">{platform} Title</th>
+                  <th className="px-3 py-2 font-semibold">Keywords</th>
+                  <th className="px-3 py-2"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200/80">
+                {items.map(item => {
+                  const metadata = metadataFor(item);
+                  const warnings = metadata?.issues?.filter(issue => !issue.fixed) ?? [];
+                  return (
+                    <tr key={item.id} className="align-top">
+                      <td className="px-3 py-2">
+                        <div className="flex items-center gap-3">
+                          <img src={item.previewUrl} alt="" className="w-12 h-12 rounded object-cover border border-gray-200 flex-shrink-0" />
+                          <span className="text-gray-700 break-all">{item.file.name}</span>
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <StatusBadge item={item} />
+                        {item.status === 'error' && (
+                          <button type="button" onClick={() => handleRetry(item)} className="mt-1 text-xs text-blue-600 hover:text-blue-800 font-medium">
+                            Retry
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {metadata?.title ?? (item.status === 'error' ? <span className="text-xs text-red-500">{item.error}</span> : '—')}
+                        {warnings.length > 0 && (
+                          <p className="text-xs text-amber-700 mt-1">{warnings.map(w => w.message).join(' ')}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {metadata ? (
+                          <span title={metadata.keywords.join(', ')}>
+                            {metadata.keywords.length} · <span className="text-gray-500">{metadata.keywords.slice(0, 5).join(', ')}{metadata.keywords.length > 5 && '…'}</span>
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {metadata && isJpeg(item.file) && (
+                          <button type="button" onClick={() => handleDownloadTagged(item)} className="text-gray-400 hover:text-blue-600 transition-colors mr-2" aria-label={`Download ${item.file.name} with metadata`}>
+                            <ArrowDownTrayIcon className="w-5 h-5" />
+                          </button>
+                        )}
+                        <button type="button" onClick={() => handleRemove(item)} className="text-gray-400 hover:text-red-600 transition-colors" aria-label={`Remove ${item.file.name}`}>
+                          <XCircleIcon className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchMetadataGenerator;
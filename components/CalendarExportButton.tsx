@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import type { Event, GroundingSource } from '../types';
+import { buildIcsCalendar } from '../services/icsExport';
+import { downloadFile, slugify } from '../services/download';
+import { CalendarDaysIcon } from './icons';
+
+interface CalendarExportButtonProps {
+  events: Event[];
+  sources?: GroundingSource[];
+  /** Used for the calendar name and the downloaded file name. */
+  name: string;
+}
+
+const CalendarExportButton: React.FC<CalendarExportButtonProps> = ({ events, sources, name }) => {
+  const [includeDeadlines, setIncludeDeadlines] = useState(true);
+  const hasSchedules = events.some(event => event.schedule);
+
+  const handleExport = () => {
+    const ics = buildIcsCalendar(events, {
+      sources,
+      includeUploadDeadlines: includeDeadlines && hasSchedules,
+      calendarName: name,
+    });
+    downloadFile(ics, `${slugify(name)}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  return (
+    <div className="flex items-center gap-4 flex-wrap">
+      {hasSchedules && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeDeadlines}
+            onChange={(e) => setIncludeDeadlines(e.target.checked)}
+            className="rounded text-blue-600"
+          />
+          Include upload deadlines
+        </label>
+      )}
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={events.length === 0}
+        className="flex items-center px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <CalendarDaysIcon className="w-5 h-5 mr-2 text-blue-600" />
+        Export .ics
+      </button>
+    </div>
+  );
+};
+
+export default CalendarExportButton;
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import type { ProductionMilestone } from '../types';
+import { COUNTRIES } from '../constants';
+import { listUpcomingDeadlines, removeSavedEvent, savedEventsStore, PLATFORM_REVIEW_DAYS, BUYER_LEAD_DAYS } from '../services/plannerService';
+import type { Deadline } from '../services/plannerService';
+import { eventCountries } from '../services/eventService';
+import { useLocalStore } from '../services/localStore';
+import { CalendarDaysIcon, TrashIcon } from './icons';
+import CalendarExportButton from './CalendarExportButton';
+
+const MILESTONE_LABELS: Record<ProductionMilestone, string> = {
+  shoot: 'Shoot',
+  edit: 'Edit',
+  upload: 'Upload',
+};
+
+const urgencyStyles = (daysLeft: number) => {
+  if (daysLeft < 0) return 'bg-red-100 text-red-700 border-red-200';
+  if (daysLeft <= 7) return 'bg-amber-100 text-amber-800 border-amber-200';
+  if (daysLeft <= 21) return 'bg-blue-100 text-blue-800 border-blue-200';
+  return 'bg-gray-100 text-gray-700 border-gray-200';
+};
+
+const daysLeftLabel = (daysLeft: number) => {
+  if (daysLeft < 0) return `${-daysLeft} ${daysLeft === -1 ? 'day' : 'days'} overdue`;
+  if (daysLeft === 0) return 'Due today';
+  return `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(`${dateString}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const DeadlineRow: React.FC<{ deadline: Deadline }> = ({ deadline }) => {
+  const flags = COUNTRIES.filter(c => eventCountries(deadline.event).includes(c.code)).map(c => c.flag).join(' ');
+  return (
+    <li className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 bg-white/60 p-3 rounded-lg border border-gray-200/80">
+      <span className={`text-xs font-semibold px-2 py-1 rounded-full border whitespace-nowrap sm:w-32 text-center ${urgencyStyles(deadline.daysLeft)}`}>
+        {daysLeftLabel(deadline.daysLeft)}
+      </span>
+      <span className="text-sm font-medium text-gray-800 sm:w-40">{formatDate(deadline.date)}</span>
+      <span className="text-sm text-gray-600 sm:w-40">
+        <strong className="font-semibold text-gray-800">{MILESTONE_LABELS[deadline.milestone]}</strong> for {deadline.platform}
+      </span>
+      <span className="flex-1 text-sm text-gray-700 truncate">
+        {flags} {deadline.event.name} <span className="text-gray-400">· {formatDate(deadline.event.date)}</span>
+      </span>
+    </li>
+  );
+};
+
+const DeadlinePlanner: React.FC = () => {
+  const savedEvents = useLocalStore(savedEventsStore);
+  const [platform, setPlatform] = useState<string>('all');
+  const [milestone, setMilestone] = useState<ProductionMilestone | 'all'>('all');
+
+  const deadlines = useMemo(() => listUpcomingDeadlines(savedEvents), [savedEvents]);
+  const visible = deadlines.filter(d =>
+    (platform === 'all' || d.platform === platform) && (milestone === 'all' || d.milestone === milestone)
+  );
+  const overdueCount = visible.filter(d => d.daysLeft < 0).length;
+
+  if (savedEvents.length === 0) {
+    return (
+      <div className="text-center py-20 glassmorphism rounded-xl">
+        <CalendarDaysIcon className="w-16 h-16 text-blue-500 mx-auto" />
+        <h2 className="text-3xl font-bold text-gray-800 mt-4">Upload Deadline Planner</h2>
+        <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Save events from the Event Finder to see when to shoot, edit and upload so your content is live {BUYER_LEAD_DAYS / 7} weeks before buyers need it.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-6">
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+              <CalendarDaysIcon className="w-7 h-7 text-blue-600" />
+              Upcoming Deadlines
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {visible.length} deadlines{overdueCount > 0 && <span className="text-red-600 font-semibold">, {overdueCount} overdue</span>}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="planner-platform" className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+            <select id="planner-platform" value={platform} onChange={(e) => setPlatform(e.target.value)} className="w-full px-3 py-2 rounded-md shadow-sm light-input">
+              <option value="all">All platforms</option>
+              {Object.keys(PLATFORM_REVIEW_DAYS).map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="planner-milestone" className="block text-sm font-medium text-gray-700 mb-1">Milestone</label>
+            <select id="planner-milestone" value={milestone} onChange={(e) => setMilestone(e.target.value as ProductionMilestone | 'all')} className="w-full px-3 py-2 rounded-md shadow-sm light-input">
+              <option value="all">All milestones</option>
+              {(Object.keys(MILESTONE_LABELS) as ProductionMilestone[]).map(m => <option key={m} value={m}>{MILESTONE_LABELS[m]}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No upcoming deadlines. All saved events are in the past.</p>
+        ) : (
+          <ul className="space-y-2">
+            {visible.map(d => (
+              <DeadlineRow key={`${d.savedEventId}-${d.platform}-${d.milestone}`} deadline={d} />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+          <h3 className="text-lg font-bold text-gray-800">Saved Events ({savedEvents.length})</h3>
+          <CalendarExportButton events={savedEvents.map(saved => saved.event)} name="Saved events and deadlines" />
+        </div>
+        <ul className="divide-y divide-gray-200/80">
+          {[...savedEvents].sort((a, b) => a.event.date.localeCompare(b.event.date)).map(saved => (
+            <li key={saved.id} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-700">
+                {COUNTRIES.filter(c => eventCountries(saved.event).includes(c.code)).map(c => c.flag).join(' ')}{' '}
+                <strong className="font-semibold text-gray-800">{saved.event.name}</strong>
+                <span className="text-gray-500"> · {formatDate(saved.event.date)} · {saved.contentType}</span>
+              </span>
+              <button onClick={() => removeSavedEvent(saved.id)} className="text-gray-400 hover:text-red-600 transition-colors" aria-label={`Remove ${saved.event.name}`}>
+                <TrashIcon className="w-5 h-5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-gray-500 mt-4">
+          Deadlines assume content should be live {BUYER_LEAD_DAYS} days before each event, plus review time of{' '}
+          {Object.entries(PLATFORM_REVIEW_DAYS).map(([p, days]) => `${p} ${days}d`).join(', ')}.
+        </p>
+      </section>
+    </div>
+  );
+};
+
+export default DeadlinePlanner;
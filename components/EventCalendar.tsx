@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { Event, ContentType, MonthEvents } from '../types';
+import { COUNTRIES, MONTHS } from '../constants';
+import EventCard from './EventCard';
+import Spinner from './Spinner';
+import SourceList from './SourceList';
+import CalendarExportButton from './CalendarExportButton';
+import { XCircleIcon } from './icons';
+import { eventCountries } from '../services/eventService';
+
+interface EventCalendarProps {
+  months: { month: number; year: number }[];
+  results: MonthEvents[];
+  isLoading: boolean;
+  contentType: ContentType;
+  query: string;
+}
+
+const eventKey = (event: Event) => `${eventCountries(event).join('+')}-${event.name}-${event.date}`;
+
+const MonthColumn: React.FC<{
+  month: number;
+  year: number;
+  result?: MonthEvents;
+  selectedKey: string | null;
+  onSelect: (event: Event) => void;
+}> = ({ month, year, result, selectedKey, onSelect }) => {
+  const monthName = MONTHS.find(m => m.value === month)?.name;
+
+  return (
+    <div className="bg-white/60 rounded-xl border border-gray-200/80 p-4 flex flex-col">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="font-bold text-gray-800">{monthName} <span className="text-gray-400 font-medium">{year}</span></h3>
+        {result && !result.error && (
+          <span className="text-xs text-gray-500">{result.events.length} {result.events.length === 1 ? 'event' : 'events'}</span>
+        )}
+      </div>
+      {!result && (
+        <div className="space-y-2">
+          {Array(3).fill(0).map((_, i) => (
+            <div key={i} className="h-8 bg-gray-200 rounded-md skeleton-shimmer"></div>
+          ))}
+        </div>
+      )}
+      {result?.error && <p className="text-xs text-red-500">{result.error}</p>}
+      {result?.failedCountries && (
+        <p className="text-xs text-amber-600 mb-2">
+          Missing: {COUNTRIES.filter(c => result.failedCountries!.includes(c.code)).map(c => c.flag).join(' ')}
+        </p>
+      )}
+      {result && !result.error && result.events.length === 0 && (
+        <p className="text-xs text-gray-500">No major events found.</p>
+      )}
+      {result && result.events.length > 0 && (
+        <ul className="space-y-1.5">
+          {result.events.map(event => {
+            const key = eventKey(event);
+            const day = Number(event.date.slice(8, 10));
+            const flags = COUNTRIES.filter(c => eventCountries(event).includes(c.code)).map(c => c.flag).join('');
+            return (
+              <li key={key}>
+                <button
+                  onClick={() => onSelect(event)}
+                  className={`w-full flex items-center gap-3 text-left px-2 py-1.5 rounded-md text-sm transition-colors ${
+                    selectedKey === key ? 'bg-blue-600 text-white' : 'hover:bg-blue-50 text-gray-700'
+                  }`}
+                >
+                  <span className={`w-7 text-center font-bold ${selectedKey === key ? 'text-white' : 'text-blue-600'}`}>{day || '?'}</span>
+                  <span className="flex-1 truncate">{event.name}</span>
+                  {event.source === 'calendar' && (
+                    <span className={`w-2 h-2 rounded-full ${selectedKey === key ? 'bg-white' : 'bg-green-500'}`} title="Date computed from calendar rules"></span>
+                  )}
+                  <span className="whitespace-nowrap">{flags}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const EventCalendar: React.FC<EventCalendarProps> = ({ months, results, isLoading, contentType, query }) => {
+  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+
+  const resultFor = (month: number, year: number) => results.find(r => r.month === month && r.year === year);
+  const loadedCount = months.filter(m => resultFor(m.month, m.year)).length;
+  const sources = results
+    .flatMap(r => r.sources)
+    .filter((value, index, self) => index === self.findIndex(t => t.uri === value.uri));
+
+  return (
+    <div className="animate-slide-up-fade-in">
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-3 mb-6 text-gray-600 font-medium">
+          <Spinner size="sm" />
+          <span className="animate-pulse">Loaded {loadedCount} of {months.length} months...</span>
+        </div>
+      ) : (
+        <div className="flex justify-end mb-4">
+          <CalendarExportButton events={results.flatMap(r => r.events)} sources={sources} name={`Events - ${query}`} />
+        </div>
+      )}
+
+      {selectedEvent && (
+        <div className="mb-8 relative">
+          <button
+            onClick={() => setSelectedEvent(null)}
+            className="absolute -top-3 -right-3 z-10 bg-white rounded-full text-gray-500 hover:text-gray-800 shadow"
+            aria-label="Close event details"
+          >
+            <XCircleIcon className="w-7 h-7" />
+          </button>
+          <EventCard key={eventKey(selectedEvent)} event={selectedEvent} contentType={contentType} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+        {months.map(({ month, year }) => (
+          <MonthColumn
+            key={`${year}-${month}`}
+            month={month}
+            year={year}
+            result={resultFor(month, year)}
+            selectedKey={selectedEvent ? eventKey(selectedEvent) : null}
+            onSelect={setSelectedEvent}
+          />
+        ))}
+      </div>
+
+      {sources.length > 0 && !isLoading && <SourceList sources={sources} />}
+    </div>
+  );
+};
+
+export default EventCalendar;
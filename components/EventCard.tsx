@@ -3,8 +3,16 @@ import type { Event, AIContent, ContentType, ContentIdea } from '../types';
 import { COUNTRIES } from '../constants';
 import { generateContentIdeas, generateInspirationalImage } from '../services/geminiService';
 import Spinner from './Spinner';
-import { ChevronDownIcon, SparklesIcon, CopyIcon, CameraIcon, CashIcon } from './icons';
+import { ChevronDownIcon, SparklesIcon, CopyIcon, CameraIcon, CashIcon, BookmarkIcon } from './icons';
 import SellingConceptCard from './SellingConceptCard';
+import { eventCountries } from '../services/eventService';
+import { earliestDeadlines, removeSavedEvent, saveEvent, savedEventId, savedEventsStore } from '../services/plannerService';
+import { useLocalStore } from '../services/localStore';
+import { saveLibraryImage } from '../services/imageLibrary';
+import { useImageSettings } from '../services/imagePresets';
+import ImageSettingsPanel from './ImageSettingsPanel';
+import SaveIdeaButton from './SaveIdeaButton';
+import { contentIdeaDraft } from '../services/ideaBoard';
 
 interface EventCardProps {
   event: Event;
@@ -14,19 +22,25 @@ interface EventCardProps {
 const IdeaCard: React.FC<{
   idea: ContentIdea;
   contentType: ContentType;
-}> = ({ idea, contentType }) => {
+  eventName: string;
+  eventDate: string;
+}> = ({ idea, contentType, eventName, eventDate }) => {
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [imagePrompt, setImagePrompt] = useState(idea.title);
+  const [showImageSettings, setShowImageSettings] = useState(false);
+  const imageSettings = useImageSettings(contentType);
 
   const handleGenerateImage = async () => {
     setIsGeneratingImage(true);
     setGeneratedImage(null);
     setImageError(null);
     try {
-      const imageData = await generateInspirationalImage(idea.title, contentType);
+      const imageData = await generateInspirationalImage(imagePrompt, contentType, imageSettings);
       setGeneratedImage(`data:image/jpeg;base64,${imageData}`);
+      saveLibraryImage({ data: imageData, prompt: imagePrompt, contentType, source: { kind: 'event', name: eventName } });
     } catch (err) {
       setImageError(err instanceof Error ? err.message : 'Unknown image error.');
     } finally {
@@ -54,11 +68,16 @@ const IdeaCard: React.FC<{
             <CopyIcon className="w-4 h-4 mr-1" />
             {copied ? 'Copied!' : 'Copy Keywords'}
         </button>
-        <button onClick={handleGenerateImage} disabled={isGeneratingImage} className="text-xs text-purple-600 hover:text-purple-800 font-medium flex items-center transition-colors disabled:opacity-50 disabled:cursor-wait">
+        <button onClick={handleGenerateImage} disabled={isGeneratingImage || !imagePrompt.trim()} className="text-xs text-purple-600 hover:text-purple-800 font-medium flex items-center transition-colors disabled:opacity-50 disabled:cursor-wait">
             <CameraIcon className="w-4 h-4 mr-1" />
             {isGeneratingImage ? 'Generating...' : 'Generate Image'}
         </button>
+        <button onClick={() => setShowImageSettings(!showImageSettings)} aria-expanded={showImageSettings} className="text-xs text-gray-500 hover:text-gray-800 font-medium transition-colors">
+            {showImageSettings ? 'Hide image settings' : 'Customize image'}
+        </button>
+        <SaveIdeaButton draft={contentIdeaDraft(idea, eventName, eventDate, contentType)} />
       </div>
+      {showImageSettings && <ImageSettingsPanel contentType={contentType} concept={imagePrompt} onConceptChange={setImagePrompt} />}
        {isGeneratingImage && (
         <div className="mt-4 flex flex-col items-center justify-center p-4 bg-gray-100/50 rounded-md">
             <Spinner size="md" />
@@ -68,7 +87,8 @@ const IdeaCard: React.FC<{
        {imageError && <p className="mt-2 text-xs text-red-500">{imageError}</p>}
        {generatedImage && (
         <div className="mt-4 rounded-lg overflow-hidden shadow-lg animate-fade-in shadow-gray-400/30 ring-1 ring-gray-900/5">
-          <img src={generatedImage} alt={`AI-generated image for ${idea.title}`} className="w-full h-auto object-cover" />
+          <img src={generatedImage} alt={`AI-generated image for ${imagePrompt}`} className="w-full h-auto object-cover" />
+          <p className="px-3 py-2 text-xs text-gray-500 bg-white/70">Saved to your image library.</p>
         </div>
       )}
     </div>
@@ -82,7 +102,18 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
   const [error, setError] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   
-  const country = COUNTRIES.find(c => c.code === event.country);
+  const countries = COUNTRIES.filter(c => eventCountries(event).includes(c.code));
+  const savedEvents = useLocalStore(savedEventsStore);
+  const isSaved = savedEvents.some(saved => saved.id === savedEventId(event));
+  const deadlines = event.schedule ? earliestDeadlines(event.schedule) : null;
+
+  const handleToggleSaved = () => {
+    if (isSaved) {
+      removeSavedEvent(savedEventId(event));
+    } else {
+      saveEvent(event, contentType);
+    }
+  };
 
   const handleGenerateIdeas = useCallback(async () => {
     if (aiContent) {
@@ -104,6 +135,9 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
     }
   }, [aiContent, contentType, event.name, isOpen]);
 
+  const formatShortDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const userTimezoneOffset = date.getTimezoneOffset() * 60000;
@@ -120,14 +154,40 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
       <div className="p-6">
         <div className="flex justify-between items-start">
             <div>
-                <p className="text-sm font-medium text-blue-600">{formatDate(event.date)}</p>
+                <p className="text-sm font-medium text-blue-600 flex items-center gap-2">
+                  {formatDate(event.date)}
+                  {event.source === 'calendar' && (
+                    <span className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full font-medium" title="Date computed from calendar rules">Verified date</span>
+                  )}
+                </p>
                 <h3 className="text-xl font-bold text-gray-800 mt-1">{event.name}</h3>
                 <p className="text-gray-600 mt-2 text-sm">{event.description}</p>
             </div>
-            <span className="text-4xl ml-4 drop-shadow-[0_2px_3px_rgba(0,0,0,0.1)]">{country?.flag}</span>
+            <div className={`ml-4 flex flex-wrap justify-end gap-1 drop-shadow-[0_2px_3px_rgba(0,0,0,0.1)] ${countries.length > 1 ? 'text-2xl max-w-[6rem]' : 'text-4xl'}`}>
+              {countries.map(c => (
+                <span key={c.code} title={c.name}>{c.flag}</span>
+              ))}
+            </div>
         </div>
         
-        <div className="mt-6">
+        {deadlines && (
+          <div className="mt-4 grid grid-cols-3 gap-2 text-center text-xs" title="Strictest deadline across Adobe Stock, Shutterstock, Freepik and Vecteezy">
+            <div className="bg-gray-50 rounded-md p-2 border border-gray-200/80">
+              <p className="text-gray-500">Shoot by</p>
+              <p className="font-semibold text-gray-800">{formatShortDate(deadlines.shoot)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-2 border border-gray-200/80">
+              <p className="text-gray-500">Edit by</p>
+              <p className="font-semibold text-gray-800">{formatShortDate(deadlines.edit)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-md p-2 border border-gray-200/80">
+              <p className="text-gray-500">Upload by</p>
+              <p className="font-semibold text-gray-800">{formatShortDate(deadlines.upload)}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex gap-2">
           <button
             onClick={handleGenerateIdeas}
             disabled={isLoading}
@@ -146,6 +206,14 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
                </>
             )}
           </button>
+          <button
+            onClick={handleToggleSaved}
+            className={`flex-shrink-0 px-3 rounded-md border transition-colors ${isSaved ? 'bg-amber-50 border-amber-300 text-amber-600' : 'border-gray-300 text-gray-500 hover:bg-gray-100'}`}
+            title={isSaved ? 'Remove from planner' : 'Save to planner'}
+            aria-label={isSaved ? 'Remove from planner' : 'Save to planner'}
+          >
+            <BookmarkIcon className="w-5 h-5" filled={isSaved} />
+          </button>
         </div>
 
         {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
@@ -165,7 +233,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
                 </h4>
                 <div className="space-y-4">
                   {aiContent.topSellingConcepts.map((concept, index) => (
-                    <SellingConceptCard key={index} concept={concept} contentType={contentType} />
+                    <SellingConceptCard key={index} concept={concept} contentType={contentType} eventName={event.name} eventDate={event.date} />
                   ))}
                 </div>
               </div>
@@ -175,7 +243,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, contentType }) => {
               <h4 className="font-semibold text-gray-800 mb-2">Creative Content Ideas:</h4>
               <div className="space-y-4">
                 {aiContent.ideas.map((idea, index) => (
-                  <IdeaCard key={index} idea={idea} contentType={contentType} />
+                  <IdeaCard key={index} idea={idea} contentType={contentType} eventName={event.name} eventDate={event.date} />
                 ))}
               </div>
             </div>
@@ -2,7 +2,9 @@ import React from 'react';
 import type { Event, ContentType, GroundingSource } from '../types';
 import EventCard from './EventCard';
 import Spinner from './Spinner';
-import { LinkIcon, SparklesIcon } from './icons';
+import SourceList from './SourceList';
+import CalendarExportButton from './CalendarExportButton';
+import { SparklesIcon } from './icons';
 
 interface EventGridProps {
   events: Event[];
@@ -10,9 +12,11 @@ interface EventGridProps {
   hasSearched: boolean;
   contentType: ContentType;
   sources: GroundingSource[];
+  /** Describes the search, e.g. "March in Japan"; names the calendar export. */
+  query: string;
 }
 
-const EventGrid: React.FC<EventGridProps> = ({ events, isLoading, hasSearched, contentType, sources }) => {
+const EventGrid: React.FC<EventGridProps> = ({ events, isLoading, hasSearched, contentType, sources, query }) => {
   if (isLoading) {
     return (
       <div className="flex justify-center items-center py-20">
@@ -45,31 +49,15 @@ const EventGrid: React.FC<EventGridProps> = ({ events, isLoading, hasSearched, c
 
   return (
     <div className="animate-slide-up-fade-in">
+      <div className="flex justify-end mb-4">
+        <CalendarExportButton events={events} sources={sources} name={`Events - ${query}`} />
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
         {events.map(event => (
           <EventCard key={`${event.name}-${event.date}`} event={event} contentType={contentType} />
         ))}
       </div>
-      {sources.length > 0 && !isLoading && (
-        <div className="mt-12 p-6 glassmorphism rounded-xl">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
-                <LinkIcon className="w-5 h-5 mr-2 text-gray-500" />
-                Information Sources
-            </h3>
-            <ul className="space-y-2 max-h-40 overflow-y-auto pr-2">
-                {sources.map((source, index) => (
-                    <li key={index} className="text-sm">
-                        <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-words transition-colors">
-                            {source.title || source.uri}
-                        </a>
-                    </li>
-                ))}
-            </ul>
-            <p className="text-xs text-gray-500 mt-4">
-                Event information is provided by Google Search. Content may be subject to copyright.
-            </p>
-        </div>
-      )}
+      {sources.length > 0 && !isLoading && <SourceList sources={sources} />}
     </div>
   );
 };
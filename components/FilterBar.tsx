@@ -1,48 +1,132 @@
 import React from 'react';
 import { COUNTRIES, MONTHS, CONTENT_TYPES, YEARS } from '../constants';
-import type { ContentType } from '../types';
+import type { ContentType, SearchFilters, SearchRange } from '../types';
+import { ChevronDownIcon } from './icons';
 
 interface FilterBarProps {
-  onSearch: (filters: { country: string; month: number; year: number; type: ContentType }) => void;
+  onSearch: (filters: SearchFilters) => void;
   isLoading: boolean;
+  /** Filters to show on mount, such as those of the last search. */
+  initialFilters?: SearchFilters | null;
 }
 
-const FilterBar: React.FC<FilterBarProps> = ({ onSearch, isLoading }) => {
+const RANGES: { value: SearchRange; label: string }[] = [
+  { value: 'month', label: 'Single month' },
+  { value: 'year', label: 'Full year' },
+  { value: 'rolling', label: 'Next 12 months' },
+];
+
+const CountryPicker: React.FC<{
+  selected: string[];
+  onChange: (codes: string[]) => void;
+}> = ({ selected, onChange }) => {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const toggle = (code: string) => {
+    if (selected.includes(code)) {
+      // Keep at least one country selected.
+      if (selected.length > 1) onChange(selected.filter(c => c !== code));
+    } else {
+      onChange([...selected, code]);
+    }
+  };
+
+  const selectedCountries = COUNTRIES.filter(c => selected.includes(c.code));
+  const summary = selectedCountries.length === 1
+    ? `${selectedCountries[0].flag} ${selectedCountries[0].name}`
+    : `${selectedCountries.map(c => c.flag).join(' ')} ${selectedCountries.length} countries`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        id="country"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 rounded-md shadow-sm light-input flex items-center justify-between text-left"
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDownIcon className={`w-4 h-4 ml-2 flex-shrink-0 transform transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-64 max-h-72 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg p-2" role="listbox" aria-multiselectable="true">
+          <div className="flex justify-between px-2 pb-2 mb-1 border-b border-gray-100 text-xs">
+            <button type="button" onClick={() => onChange(COUNTRIES.map(c => c.code))} className="text-blue-600 hover:text-blue-800 font-medium">Select all</button>
+            <button type="button" onClick={() => onChange([selected[0]])} className="text-gray-500 hover:text-gray-700 font-medium">Clear</button>
+          </div>
+          {COUNTRIES.map(c => (
+            <label key={c.code} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-gray-50 cursor-pointer text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(c.code)}
+                onChange={() => toggle(c.code)}
+                className="rounded text-blue-600"
+              />
+              <span>{c.flag}</span>
+              <span>{c.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FilterBar: React.FC<FilterBarProps> = ({ onSearch, isLoading, initialFilters }) => {
   const currentMonth = new Date().getMonth() + 1;
   const currentYear = new Date().getFullYear();
-  const [country, setCountry] = React.useState<string>(COUNTRIES[0].code);
-  const [month, setMonth] = React.useState<number>(currentMonth);
-  const [year, setYear] = React.useState<number>(currentYear + 1);
-  const [type, setType] = React.useState<ContentType>(CONTENT_TYPES[0]);
+  const [countries, setCountries] = React.useState<string[]>(initialFilters?.countries ?? [COUNTRIES[0].code]);
+  const [month, setMonth] = React.useState<number>(initialFilters?.month ?? currentMonth);
+  const [year, setYear] = React.useState<number>(initialFilters?.year ?? currentYear + 1);
+  const [type, setType] = React.useState<ContentType>(initialFilters?.type ?? CONTENT_TYPES[0]);
+  const [range, setRange] = React.useState<SearchRange>(initialFilters?.range ?? 'month');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch({ country, month, year, type });
+    onSearch({ countries, month, year, type, range });
   };
 
   return (
     <div className="glassmorphism p-4 sm:p-6 rounded-xl mb-8">
-      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
         <div>
-          <label htmlFor="country" className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+          <label htmlFor="country" className="block text-sm font-medium text-gray-700 mb-1">Countries</label>
+          <CountryPicker selected={countries} onChange={setCountries} />
+        </div>
+        <div>
+          <label htmlFor="range" className="block text-sm font-medium text-gray-700 mb-1">Range</label>
           <select
-            id="country"
-            value={country}
-            onChange={(e) => setCountry(e.target.value)}
+            id="range"
+            value={range}
+            onChange={(e) => setRange(e.target.value as SearchRange)}
             className="w-full px-3 py-2 rounded-md shadow-sm light-input"
           >
-            {COUNTRIES.map(c => (
-              <option key={c.code} value={c.code}>{c.flag} {c.name}</option>
+            {RANGES.map(r => (
+              <option key={r.value} value={r.value}>{r.label}</option>
             ))}
           </select>
         </div>
         <div>
-          <label htmlFor="month" className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+          <label htmlFor="month" className="block text-sm font-medium text-gray-700 mb-1">{range === 'rolling' ? 'Starting Month' : 'Month'}</label>
           <select
             id="month"
             value={month}
             onChange={(e) => setMonth(Number(e.target.value))}
-            className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+            disabled={range === 'year'}
+            className="w-full px-3 py-2 rounded-md shadow-sm light-input disabled:opacity-50"
           >
             {MONTHS.map(m => (
               <option key={m.value} value={m.value}>{m.name}</option>
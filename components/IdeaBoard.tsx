@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import type { IdeaCollection, IdeaKind, SavedIdea } from '../types';
+import {
+  IDEA_KIND_LABELS,
+  createIdeaCollection,
+  deleteIdeaCollection,
+  ideaCollectionsStore,
+  removeSavedIdea,
+  renameIdeaCollection,
+  savedIdeasStore,
+  sortIdeas,
+  updateSavedIdea,
+} from '../services/ideaBoard';
+import { useLocalStore } from '../services/localStore';
+import { daysUntil } from '../services/calendarMath';
+import { LightBulbIcon, TagIcon, TrashIcon } from './icons';
+import ProductionPipeline from './ProductionPipeline';
+
+// 'all' shows every idea and 'unsorted' those outside any collection.
+type CollectionFilter = 'all' | 'unsorted' | string;
+
+const KIND_STYLES: Record<IdeaKind, string> = {
+  contentIdea: 'bg-blue-100 text-blue-800',
+  sellingConcept: 'bg-green-100 text-green-800',
+  trendingIdea: 'bg-purple-100 text-purple-800',
+  hotTopic: 'bg-orange-100 text-orange-800',
+};
+
+const targetDateLabel = (date: string) => {
+  const days = daysUntil(date);
+  if (days < 0) return { text: 'Date passed', className: 'text-red-600' };
+  if (days === 0) return { text: 'Today', className: 'text-amber-700' };
+  return { text: `In ${days} ${days === 1 ? 'day' : 'days'}`, className: days <= 14 ? 'text-amber-700' : 'text-gray-500' };
+};
+
+const IdeaBoardCard: React.FC<{
+  idea: SavedIdea;
+  collections: IdeaCollection[];
+  onSendToMetadata: (idea: SavedIdea) => void;
+}> = ({ idea, collections, onSendToMetadata }) => {
+  const dateLabel = idea.targetDate ? targetDateLabel(idea.targetDate) : null;
+
+  return (
+    <div className="bg-white/60 p-4 rounded-lg border border-gray-200/80 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className={`px-2 py-0.5 rounded-full font-medium ${KIND_STYLES[idea.kind]}`}>{IDEA_KIND_LABELS[idea.kind]}</span>
+        <span className="text-gray-500 truncate" title={idea.origin}>{idea.origin}{idea.contentType && ` · ${idea.contentType}`}</span>
+      </div>
+      <div>
+        <h3 className="font-semibold text-gray-900">{idea.title}</h3>
+        <p className="text-sm text-gray-600 mt-1">{idea.description}</p>
+        {idea.targetAudience && (
+          <p className="text-xs text-gray-500 mt-1"><strong className="font-semibold text-gray-700">Audience:</strong> {idea.targetAudience}</p>
+        )}
+      </div>
+      {idea.keywords.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {idea.keywords.map(kw => (
+            <span key={kw} className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded-full">{kw}</span>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-gray-600">
+          Collection
+          <select
+            value={idea.collectionId ?? ''}
+            onChange={(e) => updateSavedIdea(idea.id, { collectionId: e.target.value || null })}
+            className="mt-1 w-full light-input rounded-md py-1 px-2 text-xs"
+          >
+            <option value="">None</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600">
+          <span className="flex justify-between">
+            Target date
+            {dateLabel && <span className={`font-medium ${dateLabel.className}`}>{dateLabel.text}</span>}
+          </span>
+          <input
+            type="date"
+            value={idea.targetDate ?? ''}
+            onChange={(e) => updateSavedIdea(idea.id, { targetDate: e.target.value || null })}
+            className="mt-1 w-full light-input rounded-md py-1 px-2 text-xs"
+          />
+        </label>
+      </div>
+      <textarea
+        value={idea.notes}
+        onChange={(e) => updateSavedIdea(idea.id, { notes: e.target.value })}
+        placeholder="Notes: locations, props, models, shot list..."
+        rows={2}
+        aria-label={`Notes for ${idea.title}`}
+        className="w-full light-input rounded-md py-1.5 px-2 text-sm"
+      />
+      <div className="flex justify-between items-center mt-auto pt-1">
+        <button
+          type="button"
+          onClick={() => onSendToMetadata(idea)}
+          className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center transition-colors"
+        >
+          <TagIcon className="w-4 h-4 mr-1" />
+          Create title &amp; keywords
+        </button>
+        <button
+          type="button"
+          onClick={() => removeSavedIdea(idea.id)}
+          className="text-gray-400 hover:text-red-600 transition-colors"
+          aria-label={`Remove ${idea.title} from the board`}
+        >
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface IdeaBoardProps {
+  onSendToMetadata: (idea: SavedIdea) => void;
+}
+
+const IdeaBoard: React.FC<IdeaBoardProps> = ({ onSendToMetadata }) => {
+  const ideas = useLocalStore(savedIdeasStore);
+  const collections = useLocalStore(ideaCollectionsStore);
+  const [filter, setFilter] = useState<CollectionFilter>('all');
+  const [kind, setKind] = useState<IdeaKind | 'all'>('all');
+  const [newCollection, setNewCollection] = useState('');
+  const [layout, setLayout] = useState<'board' | 'pipeline'>('board');
+
+  const selectedCollection = collections.find(c => c.id === filter);
+  const sorted = useMemo(() => sortIdeas(ideas), [ideas]);
+  const visible = sorted.filter(idea =>
+    (kind === 'all' || idea.kind === kind) &&
+    (filter === 'all' || (filter === 'unsorted' ? idea.collectionId === null : idea.collectionId === filter))
+  );
+
+  const countIn = (collectionId: string | null) => ideas.filter(idea => idea.collectionId === collectionId).length;
+
+  const handleCreateCollection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCollection.trim()) {
+      return;
+    }
+    setFilter(createIdeaCollection(newCollection).id);
+    setNewCollection('');
+  };
+
+  const handleRename = (collection: IdeaCollection) => {
+    const name = window.prompt('Rename collection', collection.name);
+    if (name?.trim()) {
+      renameIdeaCollection(collection.id, name);
+    }
+  };
+
+  const handleDelete = (collection: IdeaCollection) => {
+    if (window.confirm(`Delete the collection "${collection.name}"? Its ideas stay on the board.`)) {
+      deleteIdeaCollection(collection.id);
+      setFilter('all');
+    }
+  };
+
+  if (ideas.length === 0) {
+    return (
+      <div className="text-center py-20 glassmorphism rounded-xl">
+        <LightBulbIcon className="w-16 h-16 text-blue-500 mx-auto" />
+        <h2 className="text-3xl font-bold text-gray-800 mt-4">Idea Board</h2>
+        <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Save event ideas, selling concepts, trend ideas and hot topics from any tab to plan them here.</p>
+      </div>
+    );
+  }
+
+  const filterButton = (value: CollectionFilter, label: string, count: number) => (
+    <button
+      key={value}
+      type="button"
+      onClick={() => setFilter(value)}
+      className={`text-xs px-3 py-1 rounded-full font-medium border transition-colors ${
+        filter === value ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      {label} <span className="opacity-70">{count}</span>
+    </button>
+  );
+
+  return (
+    <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+      <div className="flex flex-col lg:flex-row lg:items-end gap-4 mb-6">
+        <div className="flex-1">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <LightBulbIcon className="w-7 h-7 text-blue-600" />
+            Idea Board
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {layout === 'board'
+              ? 'Ideas with a target date are listed soonest first.'
+              : 'Drag cards between stages. Deadlines are worked back from each event date.'}
+          </p>
+        </div>
+        <div className="inline-flex rounded-lg bg-gray-100 p-1 self-start lg:self-auto" role="group" aria-label="Layout">
+          {(['board', 'pipeline'] as const).map(l => (
+            <button
+              key={l}
+              type="button"
+              onClick={() => setLayout(l)}
+              className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${layout === l ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-800'}`}
+            >
+              {l === 'board' ? 'Ideas' : 'Production'}
+            </button>
+          ))}
+        </div>
+        <select value={kind} onChange={(e) => setKind(e.target.value as IdeaKind | 'all')} className="light-input rounded-md py-2 px-3 text-sm">
+          <option value="all">All kinds</option>
+          {Object.entries(IDEA_KIND_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <form onSubmit={handleCreateCollection} className="flex gap-2">
+          <input
+            type="text"
+            value={newCollection}
+            onChange={(e) => setNewCollection(e.target.value)}
+            placeholder="New collection"
+            className="light-input rounded-md py-2 px-3 text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!newCollection.trim()}
+            className="px-3 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {filterButton('all', 'All ideas', ideas.length)}
+        {filterButton('unsorted', 'Unsorted', countIn(null))}
+        {collections.map(c => filterButton(c.id, c.name, countIn(c.id)))}
+        {selectedCollection && (
+          <span className="flex gap-3 ml-2 text-xs">
+            <button type="button" onClick={() => handleRename(selectedCollection)} className="text-blue-600 hover:text-blue-800 font-medium">Rename</button>
+            <button type="button" onClick={() => handleDelete(selectedCollection)} className="text-red-600 hover:text-red-800 font-medium">Delete collection</button>
+          </span>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-gray-600 py-10">No ideas here yet.</p>
+      ) : layout === 'pipeline' ? (
+        <ProductionPipeline ideas={visible} onSendToMetadata={onSendToMetadata} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visible.map(idea => (
+            <IdeaBoardCard key={idea.id} idea={idea} collections={collections} onSendToMetadata={onSendToMetadata} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default IdeaBoard;
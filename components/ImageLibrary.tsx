@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import type { ContentType, LibraryImage, LibraryImageSource } from '../types';
+import { CONTENT_TYPES } from '../constants';
+import { deleteLibraryImage, downloadLibraryImage, setLibraryImageTags, useImageLibrary } from '../services/imageLibrary';
+import Spinner from './Spinner';
+import { RectangleStackIcon, ArrowDownTrayIcon, TrashIcon, XMarkIcon } from './icons';
+
+const SOURCE_LABELS: Record<LibraryImageSource['kind'], string> = {
+  gallery: 'Gallery',
+  event: 'Event idea',
+  trend: 'Trend idea',
+};
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const LibraryCard: React.FC<{ image: LibraryImage; onTagClick: (tag: string) => void }> = ({ image, onTagClick }) => {
+  const [newTag, setNewTag] = useState('');
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Several tags can be added at once, separated by commas.
+    setLibraryImageTags(image.id, [...image.tags, ...newTag.split(',')]);
+    setNewTag('');
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this image from your library?')) {
+      deleteLibraryImage(image.id);
+    }
+  };
+
+  return (
+    <div className="bg-white/60 rounded-lg border border-gray-200/80 overflow-hidden flex flex-col">
+      <img src={`data:image/jpeg;base64,${image.data}`} alt={image.prompt} className="aspect-square w-full object-cover" />
+      <div className="p-3 flex-1 flex flex-col gap-2">
+        <p className="text-sm text-gray-800 line-clamp-2" title={image.prompt}>{image.prompt}</p>
+        <p className="text-xs text-gray-500">
+          {SOURCE_LABELS[image.source.kind]}: <span className="font-medium text-gray-700">{image.source.name}</span> · {image.contentType}
+        </p>
+        <p className="text-xs text-gray-400">{formatTimestamp(image.createdAt)}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {image.tags.map(tag => (
+            <span key={tag} className="flex items-center text-xs bg-blue-100 text-blue-800 pl-2 pr-1 py-0.5 rounded-full font-medium">
+              <button type="button" onClick={() => onTagClick(tag)} title={`Show images tagged "${tag}"`}>{tag}</button>
+              <button
+                type="button"
+                onClick={() => setLibraryImageTags(image.id, image.tags.filter(t => t !== tag))}
+                className="ml-0.5 text-blue-500 hover:text-blue-800"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <form onSubmit={handleAddTag} className="mt-auto">
+          <input
+            type="text"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            placeholder="Add tag..."
+            className="w-full light-input rounded-md py-1 px-2 text-xs"
+          />
+        </form>
+        <div className="flex justify-between items-center pt-1">
+          <button
+            type="button"
+            onClick={() => downloadLibraryImage(image)}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center transition-colors"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+            Download
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="text-gray-400 hover:text-red-600 transition-colors"
+            aria-label="Delete image"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ImageLibrary: React.FC = () => {
+  const { images, isLoading, persistenceError } = useImageLibrary();
+  const [search, setSearch] = useState('');
+  const [sourceKind, setSourceKind] = useState<LibraryImageSource['kind'] | 'all'>('all');
+  const [contentType, setContentType] = useState<ContentType | 'all'>('all');
+  const [tag, setTag] = useState<string | null>(null);
+
+  const allTags = useMemo(() => Array.from(new Set(images.flatMap(image => image.tags))).sort(), [images]);
+  const query = search.trim().toLowerCase();
+  const visible = images.filter(image =>
+    (sourceKind === 'all' || image.source.kind === sourceKind) &&
+    (contentType === 'all' || image.contentType === contentType) &&
+    (!tag || image.tags.includes(tag)) &&
+    (!query || [image.prompt, image.source.name, ...image.tags].some(text => text.toLowerCase().includes(query)))
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (images.length === 0) {
+    return (
+      <div className="text-center py-20 glassmorphism rounded-xl">
+        <RectangleStackIcon className="w-16 h-16 text-blue-500 mx-auto" />
+        <h2 className="text-3xl font-bold text-gray-800 mt-4">Image Library</h2>
+        <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Every image you generate from the inspiration gallery, event ideas and trend concepts is kept here, ready to tag and download.</p>
+        {persistenceError && <p className="mt-4 text-sm text-amber-700">{persistenceError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+      <div className="flex flex-col lg:flex-row lg:items-end gap-4 mb-6">
+        <div className="flex-1">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <RectangleStackIcon className="w-7 h-7 text-blue-600" />
+            Image Library
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {visible.length === images.length ? `${images.length} images` : `${visible.length} of ${images.length} images`}
+          </p>
+        </div>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search prompts, sources and tags"
+          className="light-input rounded-md py-2 px-3 text-sm lg:w-64"
+        />
+        <select value={sourceKind} onChange={(e) => setSourceKind(e.target.value as LibraryImageSource['kind'] | 'all')} className="light-input rounded-md py-2 px-3 text-sm">
+          <option value="all">All sources</option>
+          {Object.entries(SOURCE_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+        </select>
+        <select value={contentType} onChange={(e) => setContentType(e.target.value as ContentType | 'all')} className="light-input rounded-md py-2 px-3 text-sm">
+          <option value="all">All content types</option>
+          {CONTENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </div>
+
+      {persistenceError && <p className="mb-4 text-sm text-amber-700">{persistenceError}</p>}
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Tags</span>
+          {allTags.map(t => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTag(tag === t ? null : t)}
+              className={`text-xs px-2 py-1 rounded-full font-medium border transition-colors ${
+                tag === t ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-center text-gray-600 py-10">No images match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {visible.map(image => (
+            <LibraryCard key={image.id} image={image} onTagClick={setTag} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ImageLibrary;
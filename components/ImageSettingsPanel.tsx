@@ -0,0 +1,228 @@
+import React, { useId, useState } from 'react';
+import type { ContentType, ImageAspectRatio, SubjectDiversity } from '../types';
+import {
+  IMAGE_ASPECT_RATIOS,
+  IMAGE_LIGHTING_SUGGESTIONS,
+  IMAGE_STYLE_SUGGESTIONS,
+  MAX_IMAGE_TEMPERATURE,
+  MIN_IMAGE_TEMPERATURE,
+  SUBJECT_DIVERSITY,
+  buildImagePrompt,
+} from '../services/imagePrompt';
+import {
+  applyImagePreset,
+  deleteImagePreset,
+  resetImageSettings,
+  saveImagePreset,
+  updateImageSettings,
+  useImagePresets,
+  useImageSettings,
+} from '../services/imagePresets';
+import { CopyIcon, TrashIcon } from './icons';
+
+interface ImageSettingsPanelProps {
+  contentType: ContentType;
+  /** The concept the image illustrates. */
+  concept: string;
+  /** When given, the concept is editable. */
+  onConceptChange?: (concept: string) => void;
+}
+
+const fieldLabel = 'block text-xs font-semibold text-gray-600 mb-1';
+const fieldInput = 'w-full light-input rounded-md py-1.5 px-2 text-sm';
+
+/**
+ * Generation controls shared by every place that creates images. Settings are
+ * stored per content type, so a change here applies to the next image of that
+ * type wherever it is generated.
+ */
+const ImageSettingsPanel: React.FC<ImageSettingsPanelProps> = ({ contentType, concept, onConceptChange }) => {
+  const id = useId();
+  const settings = useImageSettings(contentType);
+  const presets = useImagePresets(contentType);
+  const [presetName, setPresetName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const prompt = buildImagePrompt(concept, contentType, settings);
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) {
+      return;
+    }
+    saveImagePreset(presetName, contentType, settings);
+    setPresetName('');
+  };
+
+  const handleCopyPrompt = () => {
+    navigator.clipboard.writeText(prompt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-white/60 rounded-lg border border-gray-200/80 space-y-4 text-left">
+      {onConceptChange && (
+        <div>
+          <label htmlFor={`${id}-concept`} className={fieldLabel}>Concept</label>
+          <textarea
+            id={`${id}-concept`}
+            value={concept}
+            onChange={(e) => onConceptChange(e.target.value)}
+            rows={2}
+            className={fieldInput}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${id}-style`} className={fieldLabel}>Style</label>
+          <input
+            id={`${id}-style`}
+            list={`${id}-styles`}
+            value={settings.style}
+            onChange={(e) => updateImageSettings(contentType, { style: e.target.value })}
+            placeholder="Any style"
+            className={fieldInput}
+          />
+          <datalist id={`${id}-styles`}>
+            {IMAGE_STYLE_SUGGESTIONS.map(style => <option key={style} value={style} />)}
+          </datalist>
+        </div>
+        <div>
+          <label htmlFor={`${id}-lighting`} className={fieldLabel}>Lighting</label>
+          <input
+            id={`${id}-lighting`}
+            list={`${id}-lightings`}
+            value={settings.lighting}
+            onChange={(e) => updateImageSettings(contentType, { lighting: e.target.value })}
+            placeholder="Any lighting"
+            className={fieldInput}
+          />
+          <datalist id={`${id}-lightings`}>
+            {IMAGE_LIGHTING_SUGGESTIONS.map(lighting => <option key={lighting} value={lighting} />)}
+          </datalist>
+        </div>
+        <div>
+          <label htmlFor={`${id}-aspect`} className={fieldLabel}>Aspect ratio</label>
+          <select
+            id={`${id}-aspect`}
+            value={settings.aspectRatio}
+            onChange={(e) => updateImageSettings(contentType, { aspectRatio: e.target.value as ImageAspectRatio })}
+            className={fieldInput}
+          >
+            {IMAGE_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${id}-diversity`} className={fieldLabel}>People</label>
+          <select
+            id={`${id}-diversity`}
+            value={settings.diversity}
+            onChange={(e) => updateImageSettings(contentType, { diversity: e.target.value as SubjectDiversity })}
+            className={fieldInput}
+          >
+            {Object.entries(SUBJECT_DIVERSITY).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-avoid`} className={fieldLabel}>Avoid</label>
+        <input
+          id={`${id}-avoid`}
+          value={settings.avoid}
+          onChange={(e) => updateImageSettings(contentType, { avoid: e.target.value })}
+          placeholder="e.g. brand names, cluttered backgrounds"
+          className={fieldInput}
+        />
+        <p className="text-xs text-gray-500 mt-1">Text, logos and watermarks are always avoided.</p>
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-notes`} className={fieldLabel}>Extra instructions</label>
+        <textarea
+          id={`${id}-notes`}
+          value={settings.notes}
+          onChange={(e) => updateImageSettings(contentType, { notes: e.target.value })}
+          rows={2}
+          className={fieldInput}
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${id}-temperature`} className={`${fieldLabel} flex justify-between`}>
+          <span>Creativity</span>
+          <span className="font-normal text-gray-500">{settings.temperature.toFixed(1)}</span>
+        </label>
+        <input
+          id={`${id}-temperature`}
+          type="range"
+          min={MIN_IMAGE_TEMPERATURE}
+          max={MAX_IMAGE_TEMPERATURE}
+          step={0.1}
+          value={settings.temperature}
+          onChange={(e) => updateImageSettings(contentType, { temperature: Number(e.target.value) })}
+          className="w-full accent-purple-600"
+        />
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <span className={fieldLabel}>Final prompt</span>
+          <button type="button" onClick={handleCopyPrompt} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center transition-colors">
+            <CopyIcon className="w-4 h-4 mr-1" />
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-700 bg-gray-100/80 rounded-md p-2 whitespace-pre-wrap">{prompt}</p>
+      </div>
+
+      <div className="pt-3 border-t border-gray-200/60 space-y-2">
+        <div className="flex justify-between items-center">
+          <span className={fieldLabel}>{contentType} presets</span>
+          <button type="button" onClick={() => resetImageSettings(contentType)} className="text-xs text-gray-500 hover:text-gray-800 font-medium transition-colors">
+            Reset to defaults
+          </button>
+        </div>
+        {presets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {presets.map(preset => (
+              <span key={preset.id} className="flex items-center text-xs bg-purple-100 text-purple-800 pl-2 pr-1 py-0.5 rounded-full font-medium">
+                <button type="button" onClick={() => applyImagePreset(preset)} title={buildImagePrompt('…', contentType, preset.settings)}>
+                  {preset.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteImagePreset(preset.id)}
+                  className="ml-1 text-purple-400 hover:text-red-600"
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <form onSubmit={handleSavePreset} className="flex gap-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="Preset name"
+            className="flex-1 light-input rounded-md py-1 px-2 text-xs"
+          />
+          <button
+            type="submit"
+            disabled={!presetName.trim()}
+            className="text-xs text-purple-600 hover:text-purple-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            Save current settings
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ImageSettingsPanel;
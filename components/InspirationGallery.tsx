@@ -1,60 +1,141 @@
-import React from 'react';
-import { ImageIcon } from './icons';
-import type { ContentType } from '../types';
+import React, { useState } from 'react';
+import { ImageIcon, ArrowPathIcon, ExclamationTriangleIcon, SparklesIcon } from './icons';
+import type { ContentType, GallerySlot } from '../types';
+import { GALLERY_SIZES } from '../constants';
+import ImageSettingsPanel from './ImageSettingsPanel';
 
 interface InspirationGalleryProps {
-    images: string[];
-    isLoading: boolean;
-    error: string | null;
+    slots: GallerySlot[];
     query: string;
     contentType: ContentType;
+    /** How many images a search or a "more variations" request generates. */
+    size: number;
+    onSizeChange: (size: number) => void;
+    onRetry: (variations: number[]) => void;
+    onMore: () => void;
 }
 
-const SkeletonLoader: React.FC = () => (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        {Array(4).fill(0).map((_, i) => (
-            <div key={i} className="aspect-square bg-gray-200 rounded-lg skeleton-shimmer"></div>
-        ))}
+const FailedSlot: React.FC<{ slot: GallerySlot; onRetry: () => void }> = ({ slot, onRetry }) => (
+    <div className="aspect-square rounded-lg border-2 border-dashed border-red-200 bg-red-50/60 flex flex-col items-center justify-center text-center p-3">
+        <ExclamationTriangleIcon className="w-7 h-7 text-red-400" />
+        <p className="text-xs text-red-600 mt-2 line-clamp-3" title={slot.error}>{slot.error}</p>
+        <button
+            type="button"
+            onClick={onRetry}
+            className="mt-3 flex items-center text-xs font-semibold text-blue-600 hover:text-blue-800 transition-colors"
+        >
+            <ArrowPathIcon className="w-4 h-4 mr-1" />
+            Retry
+        </button>
     </div>
 );
 
-const InspirationGallery: React.FC<InspirationGalleryProps> = ({ images, isLoading, error, query, contentType }) => {
+const InspirationGallery: React.FC<InspirationGalleryProps> = ({ slots, query, contentType, size, onSizeChange, onRetry, onMore }) => {
+    const isLoading = slots.some(slot => slot.status === 'loading');
+    const failed = slots.filter(slot => slot.status === 'error');
+    const allFailed = slots.length > 0 && failed.length === slots.length;
+    const [showSettings, setShowSettings] = useState(false);
+
     return (
         <div className="mb-12">
-            <h2 className="text-3xl font-bold text-gray-800 mb-4 flex items-center">
-                <ImageIcon className="w-7 h-7 mr-3 text-blue-600" />
-                Visual Inspiration
-            </h2>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h2 className="text-3xl font-bold text-gray-800 flex items-center">
+                    <ImageIcon className="w-7 h-7 mr-3 text-blue-600" />
+                    Visual Inspiration
+                </h2>
+                <div className="flex items-center gap-4">
+                    <button
+                        type="button"
+                        onClick={() => setShowSettings(!showSettings)}
+                        aria-expanded={showSettings}
+                        className="text-sm text-gray-600 hover:text-gray-900 font-medium transition-colors"
+                    >
+                        {showSettings ? 'Hide image settings' : 'Image settings'}
+                    </button>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Images
+                        <select
+                            value={size}
+                            onChange={(e) => onSizeChange(Number(e.target.value))}
+                            className="light-input rounded-md py-1 px-2 text-sm"
+                        >
+                            {GALLERY_SIZES.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                    </label>
+                    <button
+                        type="button"
+                        onClick={onMore}
+                        disabled={isLoading || slots.length === 0}
+                        className="flex items-center text-sm text-purple-600 hover:text-purple-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <SparklesIcon className="w-4 h-4 mr-1" />
+                        More variations
+                    </button>
+                </div>
+            </div>
             <div className="glassmorphism p-4 sm:p-6 rounded-xl">
-                {isLoading && (
-                    <div>
-                        <p className="text-base text-center text-gray-600 mb-4">Generating {contentType} inspiration for "{query}"...</p>
-                        <SkeletonLoader />
+                {showSettings && (
+                    <div className="mb-6">
+                        <ImageSettingsPanel contentType={contentType} concept={query} />
+                        <p className="text-xs text-gray-500 mt-2">New settings apply to retries and further variations.</p>
                     </div>
                 )}
-                {error && !isLoading && (
+                {isLoading && (
+                    <p className="text-base text-center text-gray-600 mb-4">Generating {contentType} inspiration for "{query}"...</p>
+                )}
+                {allFailed && !isLoading ? (
                     <div className="text-center py-8">
                         <p className="text-red-600">Sorry, the AI couldn't generate visual inspiration for this topic.</p>
-                        <p className="text-xs text-gray-500 mt-1">{error}</p>
+                        <p className="text-xs text-gray-500 mt-1">{failed[0].error}</p>
+                        <button
+                            type="button"
+                            onClick={() => onRetry(failed.map(slot => slot.variation))}
+                            className="mt-4 inline-flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800 transition-colors"
+                        >
+                            <ArrowPathIcon className="w-4 h-4 mr-1" />
+                            Try again
+                        </button>
                     </div>
-                )}
-                {!isLoading && !error && images.length > 0 && (
-                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                        {images.map((imgData, index) => (
-                            <div key={index} className="aspect-square rounded-lg overflow-hidden group relative transition-all duration-300 hover:shadow-2xl hover:shadow-blue-500/20">
-                                <img 
-                                    src={`data:image/jpeg;base64,${imgData}`} 
-                                    alt={`AI-generated inspiration for ${query} ${index + 1}`} 
-                                    className="w-full h-full object-cover transform transition-transform duration-300 group-hover:scale-110" 
-                                />
-                                <div className="absolute inset-0 bg-black/20 group-hover:bg-black/0 transition-all duration-300"></div>
+                ) : (
+                    <>
+                        {failed.length > 0 && !isLoading && (
+                            <div className="flex justify-between items-center mb-4 text-sm">
+                                <p className="text-gray-600">{failed.length} of {slots.length} images could not be generated.</p>
+                                <button
+                                    type="button"
+                                    onClick={() => onRetry(failed.map(slot => slot.variation))}
+                                    className="flex items-center font-semibold text-blue-600 hover:text-blue-800 transition-colors"
+                                >
+                                    <ArrowPathIcon className="w-4 h-4 mr-1" />
+                                    Retry failed
+                                </button>
                             </div>
-                        ))}
-                    </div>
+                        )}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {slots.map((slot) => {
+                                if (slot.status === 'loading') {
+                                    return <div key={slot.variation} className="aspect-square bg-gray-200 rounded-lg skeleton-shimmer"></div>;
+                                }
+                                if (slot.status === 'error') {
+                                    return <FailedSlot key={slot.variation} slot={slot} onRetry={() => onRetry([slot.variation])} />;
+                                }
+                                return (
+                                    <div key={slot.variation} className="aspect-square rounded-lg overflow-hidden group relative transition-all duration-300 hover:shadow-2xl hover:shadow-blue-500/20">
+                                        <img
+                                            src={`data:image/jpeg;base64,${slot.image}`}
+                                            alt={`AI-generated inspiration for ${query} ${slot.variation + 1}`}
+                                            className="w-full h-full object-cover transform transition-transform duration-300 group-hover:scale-110"
+                                        />
+                                        <div className="absolute inset-0 bg-black/20 group-hover:bg-black/0 transition-all duration-300"></div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
                 )}
             </div>
         </div>
     );
 };
 
-export default InspirationGallery;
\ No newline at end of file
+export default InspirationGallery;
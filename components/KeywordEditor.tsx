@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { KeywordStrategy, MetadataLanguage } from '../types';
+import { DEFAULT_METADATA_LANGUAGE } from '../constants';
+import { generateKeywordStrategy } from '../services/geminiService';
+import { isCancelled } from '../services/aiErrors';
+import {
+  TOP_KEYWORD_COUNT,
+  addKeywords,
+  keywordWarnings,
+  mergeSynonyms,
+  moveKeyword,
+  normalizeKeyword,
+  scoreKeyword,
+} from '../services/keywordTools';
+import Spinner from './Spinner';
+import { ExclamationTriangleIcon, XMarkIcon } from './icons';
+
+const STRATEGY_GROUPS: { key: keyof KeywordStrategy; label: string }[] = [
+  { key: 'primaryKeywords', label: 'Primary' },
+  { key: 'longTailKeywords', label: 'Long-tail' },
+  { key: 'relatedConcepts', label: 'Related' },
+];
+
+const scoreStyles = (score: number) => {
+  if (score >= 60) return 'bg-green-100 text-green-800';
+  if (score >= 35) return 'bg-amber-100 text-amber-800';
+  return 'bg-gray-100 text-gray-500';
+};
+
+interface KeywordEditorProps {
+  keywords: string[];
+  onChange: (keywords: string[]) => void;
+  /** The platform's limit; keywords past it are flagged. */
+  maxKeywords?: number;
+  /** Title and topic text that relevance is measured against. */
+  context: string;
+  language?: MetadataLanguage;
+  /** When set, keywords from a keyword strategy for this topic can be merged in. */
+  strategyTopic?: string;
+}
+
+/** Reorder, add, delete and merge keywords, with a score and warnings for each one. */
+const KeywordEditor: React.FC<KeywordEditorProps> = ({
+  keywords,
+  onChange,
+  maxKeywords = Number.POSITIVE_INFINITY,
+  context,
+  language = DEFAULT_METADATA_LANGUAGE,
+  strategyTopic,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [newKeywords, setNewKeywords] = useState('');
+  const [strategy, setStrategy] = useState<KeywordStrategy | null>(null);
+  const [isStrategyLoading, setIsStrategyLoading] = useState(false);
+  const [strategyError, setStrategyError] = useState<string | null>(null);
+  const strategyController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => strategyController.current?.abort(), []);
+
+  // A selection only survives while its keywords are still in the list.
+  useEffect(() => {
+    const present = new Set(keywords.map(normalizeKeyword));
+    setSelected(previous => previous.filter(keyword => present.has(keyword)));
+  }, [keywords]);
+
+  const warnings = keywordWarnings(keywords, maxKeywords, language);
+  const flagged = warnings.filter(list => list.length > 0).length;
+  const selectedInOrder = keywords.filter(keyword => selected.includes(normalizeKeyword(keyword)));
+
+  const toggleSelected = (keyword: string) => {
+    const key = normalizeKeyword(keyword);
+    setSelected(previous => (previous.includes(key) ? previous.filter(k => k !== key) : [...previous, key]));
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    const from = Number(e.dataTransfer.getData('text/plain'));
+    setDragIndex(null);
+    if (Number.isInteger(from) && from !== index) {
+      onChange(moveKeyword(keywords, from, index));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!e.altKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) {
+      return;
+    }
+    e.preventDefault();
+    const to = index + (e.key === 'ArrowLeft' ? -1 : 1);
+    if (to >= 0 && to < keywords.length) {
+      onChange(moveKeyword(keywords, index, to));
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange(addKeywords(keywords, [newKeywords]));
+    setNewKeywords('');
+  };
+
+  const handleMerge = () => {
+    const [keep, ...synonyms] = selectedInOrder;
+    onChange(mergeSynonyms(keywords, keep, synonyms));
+    setSelected([]);
+  };
+
+  const fetchStrategy = async () => {
+    if (!strategyTopic) {
+      return;
+    }
+    strategyController.current?.abort();
+    const controller = new AbortController();
+    strategyController.current = controller;
+    setIsStrategyLoading(true);
+    setStrategyError(null);
+    try {
+      setStrategy(await generateKeywordStrategy(strategyTopic, { signal: controller.signal }));
+    } catch (err) {
+      if (isCancelled(err)) {
+        return;
+      }
+      setStrategyError(err instanceof Error ? err.message : 'Failed to load a keyword strategy.');
+    }
+    setIsStrategyLoading(false);
+  };
+
+  const newFrom = (additions: string[]) => addKeywords(keywords, additions).length - keywords.length;
+
+  return (
+    <div className="space-y-3">
+      <ul className="flex flex-wrap gap-2 p-3 rounded-md bg-gray-100 max-h-72 overflow-y-auto" aria-label="Keywords">
+        {keywords.map((keyword, index) => {
+          const score = scoreKeyword(keyword, context, language);
+          const combined = Math.round((score.relevance + score.specificity) / 2);
+          const isSelected = selected.includes(normalizeKeyword(keyword));
+          return (
+            <React.Fragment key={`${index}-${keyword}`}>
+              {index === TOP_KEYWORD_COUNT && (
+                <li aria-hidden="true" className="basis-full flex items-center gap-2 text-[0.65rem] font-semibold uppercase tracking-wider text-gray-400">
+                  <span className="flex-1 border-t border-dashed border-gray-300" />
+                  Top {TOP_KEYWORD_COUNT} above
+                  <span className="flex-1 border-t border-dashed border-gray-300" />
+                </li>
+              )}
+              <li
+                draggable
+                tabIndex={0}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData('text/plain', String(index));
+                  setDragIndex(index);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, index)}
+                onKeyDown={(e) => handleKeyDown(e, index)}
+                title="Drag, or focus and press Alt+Left/Right, to reorder"
+                className={`flex items-center gap-1 text-sm pl-2 pr-1 py-1 rounded-full border cursor-grab transition-colors ${
+                  isSelected ? 'bg-blue-50 border-blue-400' : warnings[index].length > 0 ? 'bg-amber-50 border-amber-300' : 'bg-white border-gray-200'
+                } ${dragIndex === index ? 'opacity-50' : ''}`}
+              >
+                <span className={`text-[0.65rem] font-semibold ${index < TOP_KEYWORD_COUNT ? 'text-blue-600' : 'text-gray-400'}`}>{index + 1}</span>
+                <button
+                  type="button"
+                  onClick={() => toggleSelected(keyword)}
+                  aria-pressed={isSelected}
+                  className="text-gray-700 hover:text-blue-700"
+                >
+                  {keyword}
+                </button>
+                <span
+                  title={`Relevance ${score.relevance} · Specificity ${score.specificity}`}
+                  className={`text-[0.65rem] font-semibold px-1.5 rounded-full ${scoreStyles(combined)}`}
+                >
+                  {combined}
+                </span>
+                {warnings[index].length > 0 && (
+                  <span title={warnings[index].join('\n')} className="text-amber-600">
+                    <ExclamationTriangleIcon className="w-4 h-4" />
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(keywords.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${keyword}`}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </li>
+            </React.Fragment>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <form onSubmit={handleAdd} className="flex flex-1 gap-2">
+          <input
+            type="text"
+            value={newKeywords}
+            onChange={(e) => setNewKeywords(e.target.value)}
+            placeholder="Add keywords, separated by commas"
+            aria-label="Add keywords"
+            className="flex-1 px-3 py-1.5 text-sm rounded-md shadow-sm light-input"
+          />
+          <button
+            type="submit"
+            disabled={!newKeywords.trim()}
+            className="px-3 py-1.5 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Add
+          </button>
+        </form>
+        <button
+          type="button"
+          onClick={handleMerge}
+          disabled={selectedInOrder.length < 2}
+          title="Click keywords to select synonyms; the first one is kept"
+          className="px-3 py-1.5 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {selectedInOrder.length < 2 ? 'Merge synonyms' : `Merge ${selectedInOrder.length} into "${selectedInOrder[0]}"`}
+        </button>
+      </div>
+
+      {strategyTopic && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {!strategy ? (
+            <button
+              type="button"
+              onClick={fetchStrategy}
+              disabled={isStrategyLoading}
+              className="flex items-center text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 transition-colors"
+            >
+              {isStrategyLoading && <span className="mr-2"><Spinner size="sm" /></span>}
+              Merge in keyword strategy for "{strategyTopic}"
+            </button>
+          ) : (
+            <>
+              <span className="text-gray-600">Merge from keyword strategy:</span>
+              {STRATEGY_GROUPS.map(group => {
+                const added = newFrom(strategy[group.key]);
+                return (
+                  <button
+                    key={group.key}
+                    type="button"
+                    onClick={() => onChange(addKeywords(keywords, strategy[group.key]))}
+                    disabled={added === 0}
+                    className="text-sm px-3 py-1 rounded-full font-medium border bg-white border-gray-300 text-gray-700 hover:border-blue-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    + {group.label} ({added} new)
+                  </button>
+                );
+              })}
+            </>
+          )}
+          {strategyError && <p className="w-full text-xs text-red-500">{strategyError}</p>}
+        </div>
+      )}
+
+      {flagged > 0 && (
+        <p className="flex items-center text-xs font-medium text-amber-700">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+          {flagged} {flagged === 1 ? 'keyword needs' : 'keywords need'} review before export. Hover the warning icons for details.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default KeywordEditor;
@@ -1,14 +1,23 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import type { HotTopic, KeywordStrategy } from '../types';
 import { getGlobalHotTopics, generateKeywordStrategy } from '../services/geminiService';
+import type { CacheOptions } from '../services/aiCache';
+import { isCancelled } from '../services/aiErrors';
 import Spinner from './Spinner';
+import RefreshButton from './RefreshButton';
+import SaveIdeaButton from './SaveIdeaButton';
+import { hotTopicDraft } from '../services/ideaBoard';
+import KeywordEditor from './KeywordEditor';
 import { GlobeAltIcon, CopyIcon } from './icons';
 
-const KeywordResult: React.FC<{ title: string; keywords: string[] }> = ({ title, keywords }) => {
+const KeywordResult: React.FC<{ title: string; keywords: string[]; topic: string }> = ({ title, keywords, topic }) => {
     const [copied, setCopied] = useState(false);
+    const [edited, setEdited] = useState(keywords);
+
+    useEffect(() => setEdited(keywords), [keywords]);
 
     const handleCopy = () => {
-        navigator.clipboard.writeText(keywords.join(', '));
+        navigator.clipboard.writeText(edited.join(', '));
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
     };
@@ -22,11 +31,7 @@ const KeywordResult: React.FC<{ title: string; keywords: string[] }> = ({ title,
                     {copied ? 'Copied!' : 'Copy All'}
                 </button>
             </div>
-            <div className="flex flex-wrap gap-2">
-                {keywords.map(kw => (
-                    <span key={kw} className="text-sm bg-gray-200 text-gray-700 px-3 py-1 rounded-full">{kw}</span>
-                ))}
-            </div>
+            <KeywordEditor keywords={edited} onChange={setEdited} context={topic} />
         </div>
     );
 };
@@ -41,52 +46,80 @@ const MarketPulse: React.FC = () => {
     // State for Keyword Strategist
     const [topic, setTopic] = useState('');
     const [keywordStrategy, setKeywordStrategy] = useState<KeywordStrategy | null>(null);
+    const [strategyTopic, setStrategyTopic] = useState('');
     const [isKeywordsLoading, setIsKeywordsLoading] = useState(false);
     const [keywordsError, setKeywordsError] = useState<string | null>(null);
 
-    useEffect(() => {
-        const fetchHotTopics = async () => {
-            try {
-                setIsTopicsLoading(true);
-                setTopicsError(null);
-                const topics = await getGlobalHotTopics();
-                setHotTopics(topics);
-            } catch (err) {
-                setTopicsError(err instanceof Error ? err.message : 'An unknown error occurred.');
-            } finally {
-                setIsTopicsLoading(false);
+    // Requests still running when the tab is left or a newer one starts are cancelled.
+    const topicsController = useRef<AbortController | null>(null);
+    const strategyController = useRef<AbortController | null>(null);
+
+    const fetchHotTopics = useCallback(async (options?: CacheOptions) => {
+        topicsController.current?.abort();
+        const controller = new AbortController();
+        topicsController.current = controller;
+        try {
+            setIsTopicsLoading(true);
+            setTopicsError(null);
+            const topics = await getGlobalHotTopics({ ...options, signal: controller.signal });
+            setHotTopics(topics);
+        } catch (err) {
+            if (isCancelled(err)) {
+                return;
             }
-        };
-        fetchHotTopics();
+            setTopicsError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+        setIsTopicsLoading(false);
     }, []);
+
+    useEffect(() => {
+        fetchHotTopics();
+        return () => {
+            topicsController.current?.abort();
+            strategyController.current?.abort();
+        };
+    }, [fetchHotTopics]);
     
-    const handleStrategySubmit = useCallback(async (e: React.FormEvent) => {
-        e.preventDefault();
+    const fetchStrategy = useCallback(async (options?: CacheOptions) => {
         if (!topic) {
             setKeywordsError('Please enter a topic.');
             return;
         }
+        strategyController.current?.abort();
+        const controller = new AbortController();
+        strategyController.current = controller;
         try {
             setIsKeywordsLoading(true);
             setKeywordsError(null);
             setKeywordStrategy(null);
-            const strategy = await generateKeywordStrategy(topic);
+            const strategy = await generateKeywordStrategy(topic, { ...options, signal: controller.signal });
             setKeywordStrategy(strategy);
+            setStrategyTopic(topic);
         } catch (err) {
+            if (isCancelled(err)) {
+                return;
+            }
             setKeywordsError(err instanceof Error ? err.message : 'An unknown error occurred.');
-        } finally {
-            setIsKeywordsLoading(false);
         }
+        setIsKeywordsLoading(false);
     }, [topic]);
 
+    const handleStrategySubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        fetchStrategy();
+    };
+
     return (
         <div className="space-y-12">
             {/* Hot Topics Section */}
             <section>
-                <h2 className="text-3xl font-bold text-gray-800 mb-6 flex items-center gap-3">
-                    <GlobeAltIcon className="w-8 h-8 text-blue-600" />
-                    What's Hot Right Now?
-                </h2>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+                        <GlobeAltIcon className="w-8 h-8 text-blue-600" />
+                        What's Hot Right Now?
+                    </h2>
+                    <RefreshButton onClick={() => fetchHotTopics({ refresh: true })} disabled={isTopicsLoading} />
+                </div>
                 <div className="glassmorphism p-4 sm:p-6 rounded-xl">
                     {isTopicsLoading && (
                         <div className="flex justify-center items-center py-10">
@@ -103,6 +136,9 @@ const MarketPulse: React.FC = () => {
                                 <div key={item.topic} className="bg-white/50 p-5 rounded-lg border border-gray-200/80 transform transition-all duration-300 hover:-translate-y-2 hover:shadow-xl hover:shadow-gray-400/10">
                                     <h3 className="font-bold text-blue-600 text-lg">{item.topic}</h3>
                                     <p className="text-gray-600 text-sm mt-2">{item.reason}</p>
+                                    <div className="mt-4">
+                                        <SaveIdeaButton draft={hotTopicDraft(item)} />
+                                    </div>
                                 </div>
                             ))}
                         </div>
@@ -150,9 +186,12 @@ const MarketPulse: React.FC = () => {
 
                     {keywordStrategy && (
                         <div className="space-y-6 animate-fade-in">
-                            <KeywordResult title="Primary Keywords" keywords={keywordStrategy.primaryKeywords} />
-                            <KeywordResult title="Long-Tail Keywords" keywords={keywordStrategy.longTailKeywords} />
-                            <KeywordResult title="Related Concepts & LSI" keywords={keywordStrategy.relatedConcepts} />
+                            <div className="flex justify-end">
+                                <RefreshButton onClick={() => fetchStrategy({ refresh: true })} disabled={isKeywordsLoading} />
+                            </div>
+                            <KeywordResult title="Primary Keywords" keywords={keywordStrategy.primaryKeywords} topic={strategyTopic} />
+                            <KeywordResult title="Long-Tail Keywords" keywords={keywordStrategy.longTailKeywords} topic={strategyTopic} />
+                            <KeywordResult title="Related Concepts & LSI" keywords={keywordStrategy.relatedConcepts} topic={strategyTopic} />
                         </div>
                     )}
                 </div>
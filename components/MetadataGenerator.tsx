@@ -1,13 +1,48 @@
-import React, { useState, useCallback, useRef } from 'react';
-import type { StockMetadata, ContentType } from '../types';
-import { CONTENT_TYPES } from '../constants';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { StockMetadata, ContentType, MetadataLanguage, MetadataSearch } from '../types';
+import { CONTENT_TYPES, DEFAULT_METADATA_LANGUAGE, METADATA_LANGUAGES } from '../constants';
 import { generateStockMetadata } from '../services/geminiService';
 import Spinner from './Spinner';
-import { TagIcon, CopyIcon, ArrowUpTrayIcon, XCircleIcon } from './icons';
+import { applyPlatformRules, rulesFor } from '../services/metadataRules';
+import { buildPortalCsv, categoriesFor, hasCsvFormat } from '../services/csvExport';
+import { downloadFile, slugify } from '../services/download';
+import { createZip } from '../services/zip';
+import { checkImageFile, fileToBase64, ACCEPTED_IMAGE_TYPES } from '../services/imageFiles';
+import { isJpeg, tagJpegFile } from '../services/jpegMetadata';
+import type { CacheOptions } from '../services/aiCache';
+import { isCancelled } from '../services/aiErrors';
+import { attachIdeaMetadata } from '../services/pipelineService';
+import BatchMetadataGenerator from './BatchMetadataGenerator';
+import KeywordEditor from './KeywordEditor';
+import RefreshButton from './RefreshButton';
+import { TagIcon, CopyIcon, ArrowUpTrayIcon, XCircleIcon, CheckCircleIcon, ExclamationTriangleIcon, ArrowDownTrayIcon } from './icons';
 
-const MetadataCard: React.FC<{ result: StockMetadata }> = ({ result }) => {
+const languageName = (code: MetadataLanguage) => METADATA_LANGUAGES.find(l => l.code === code)?.nativeName ?? code;
+
+// Set when results come in several languages, or in one other than English.
+const languageSuffix = (language?: MetadataLanguage) => (language ? `-${language}` : '');
+
+const MetadataCard: React.FC<{
+    result: StockMetadata;
+    filename: string;
+    contentType: ContentType;
+    image: File | null;
+    language?: MetadataLanguage;
+    /** The topic the metadata was generated for; empty for image-only requests. */
+    topic: string;
+    /** The keyword list as edited, before the platform rules were applied to it. */
+    keywordDraft?: string[];
+    onKeywordsChange: (keywords: string[]) => void;
+}> = ({ result, filename, contentType, image, language, topic, keywordDraft, onKeywordsChange }) => {
     const [titleCopied, setTitleCopied] = useState(false);
     const [keywordsCopied, setKeywordsCopied] = useState(false);
+    const [category, setCategory] = useState('');
+    const categories = categoriesFor(result.platform);
+    const [tagError, setTagError] = useState<string | null>(null);
+    const canTag = image !== null && isJpeg(image);
+    const rules = rulesFor(result.platform);
+    const issues = result.issues ?? [];
+    const warnings = issues.filter(issue => !issue.fixed);
 
     const handleCopy = (text: string, type: 'title' | 'keywords') => {
         navigator.clipboard.writeText(text);
@@ -20,13 +55,48 @@ const MetadataCard: React.FC<{ result: StockMetadata }> = ({ result }) => {
         }
     };
 
+    const handleExportCsv = () => {
+        const csv = buildPortalCsv(result.platform, [{ filename, contentType, metadata: result, category: category || undefined }]);
+        downloadFile(csv, `${slugify(result.platform)}${languageSuffix(language)}-metadata.csv`, 'text/csv;charset=utf-8');
+    };
+
+    const handleDownloadTagged = async () => {
+        if (!image) {
+            return;
+        }
+        setTagError(null);
+        try {
+            downloadFile(await tagJpegFile(image, result), image.name, 'image/jpeg');
+        } catch (err) {
+            setTagError(err instanceof Error ? err.message : 'Failed to write metadata into the image.');
+        }
+    };
+
     return (
         <div className="bg-white/50 p-5 rounded-lg border border-gray-200/80">
-            <h3 className="font-bold text-blue-600 text-xl mb-4">{result.platform}</h3>
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="font-bold text-blue-600 text-xl">
+                    {result.platform}
+                    {language && <span className="ml-2 align-middle text-xs font-semibold text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full">{languageName(language)}</span>}
+                </h3>
+                {warnings.length > 0 ? (
+                    <span className="flex items-center text-xs font-semibold text-amber-700 bg-amber-100 px-2 py-1 rounded-full">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                        {warnings.length} {warnings.length === 1 ? 'issue' : 'issues'} to review
+                    </span>
+                ) : (
+                    <span className="flex items-center text-xs font-semibold text-green-700 bg-green-100 px-2 py-1 rounded-full">
+                        <CheckCircleIcon className="w-4 h-4 mr-1" />
+                        Meets platform rules
+                    </span>
+                )}
+            </div>
             <div className="space-y-4">
                 <div>
                     <div className="flex justify-between items-center mb-2">
-                        <h4 className="font-semibold text-gray-800 text-sm">Generated Title</h4>
+                        <h4 className="font-semibold text-gray-800 text-sm">
+                            Generated Title <span className="font-normal text-gray-500">({result.title.length}/{rules.titleMaxLength})</span>
+                        </h4>
                         <button onClick={() => handleCopy(result.title, 'title')} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center transition-colors">
                            <CopyIcon className="w-3 h-3 mr-1" />
                            {titleCopied ? 'Copied!' : 'Copy'}
@@ -36,53 +106,134 @@ const MetadataCard: React.FC<{ result: StockMetadata }> = ({ result }) => {
                 </div>
                 <div>
                      <div className="flex justify-between items-center mb-2">
-                        <h4 className="font-semibold text-gray-800 text-sm">Keywords ({result.keywords.length})</h4>
+                        <h4 className="font-semibold text-gray-800 text-sm">Keywords ({result.keywords.length}/{rules.maxKeywords})</h4>
                         <button onClick={() => handleCopy(result.keywords.join(', '), 'keywords')} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center transition-colors">
                            <CopyIcon className="w-3 h-3 mr-1" />
                            {keywordsCopied ? 'Copied!' : 'Copy All'}
                         </button>
                     </div>
-                    <div className="flex flex-wrap gap-2 p-3 rounded-md bg-gray-100 max-h-48 overflow-y-auto">
-                        {result.keywords.map(kw => (
-                             <span key={kw} className="text-sm bg-gray-200 text-gray-700 px-3 py-1 rounded-full">{kw}</span>
-                        ))}
-                    </div>
+                    <KeywordEditor
+                        keywords={keywordDraft ?? result.keywords}
+                        onChange={onKeywordsChange}
+                        maxKeywords={rules.maxKeywords}
+                        context={`${result.title} ${topic}`}
+                        language={language}
+                        strategyTopic={topic && (language ?? DEFAULT_METADATA_LANGUAGE) === DEFAULT_METADATA_LANGUAGE ? topic : undefined}
+                    />
                 </div>
+                {issues.length > 0 && (
+                    <div>
+                        <h4 className="font-semibold text-gray-800 text-sm mb-2">Rule Check</h4>
+                        <ul className="space-y-1">
+                            {issues.map((issue, index) => (
+                                <li key={index} className={`flex items-start text-xs ${issue.fixed ? 'text-gray-600' : 'text-amber-700 font-medium'}`}>
+                                    {issue.fixed
+                                        ? <CheckCircleIcon className="w-4 h-4 mr-1.5 flex-shrink-0 text-green-600" />
+                                        : <ExclamationTriangleIcon className="w-4 h-4 mr-1.5 flex-shrink-0" />}
+                                    <span><span className="capitalize">{issue.field}</span>: {issue.message}{issue.fixed && ' (auto-fixed)'}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {(hasCsvFormat(result.platform) || canTag) && (
+                    <div className="flex flex-col sm:flex-row flex-wrap gap-2 pt-4 border-t border-gray-200/80">
+                        {hasCsvFormat(result.platform) && categories.length > 0 && (
+                            <select
+                                value={category}
+                                onChange={(e) => setCategory(e.target.value)}
+                                aria-label={`${result.platform} category`}
+                                className="flex-1 px-3 py-2 text-sm rounded-md shadow-sm light-input"
+                            >
+                                <option value="">No category</option>
+                                {categories.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                            </select>
+                        )}
+                        {hasCsvFormat(result.platform) && (
+                            <button
+                                type="button"
+                                onClick={handleExportCsv}
+                                className="flex items-center justify-center px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 hover:border-gray-400 transition-colors"
+                            >
+                                <ArrowDownTrayIcon className="w-4 h-4 mr-2 text-blue-600" />
+                                Export {result.platform} CSV
+                            </button>
+                        )}
+                        {canTag && (
+                            <button
+                                type="button"
+                                onClick={handleDownloadTagged}
+                                className="flex items-center justify-center px-4 py-2 text-sm font-semibold rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 hover:border-gray-400 transition-colors"
+                            >
+                                <ArrowDownTrayIcon className="w-4 h-4 mr-2 text-blue-600" />
+                                Download tagged JPEG
+                            </button>
+                        )}
+                        {tagError && <p className="w-full text-xs text-red-500">{tagError}</p>}
+                    </div>
+                )}
             </div>
         </div>
     )
 };
 
 
-const MetadataGenerator: React.FC = () => {
-  const [topic, setTopic] = useState('');
-  const [contentType, setContentType] = useState<ContentType>(CONTENT_TYPES[0]);
-  const [metadata, setMetadata] = useState<StockMetadata[] | null>(null);
+/** A topic handed over from another tab, such as an idea on the idea board. */
+export interface MetadataDraft {
+  topic: string;
+  contentType?: ContentType;
+  /** Results are linked to this saved idea's production card. */
+  ideaId?: string;
+  ideaTitle?: string;
+}
+
+/** One language's metadata for every platform, or why it failed. */
+interface LanguageResult {
+  language: MetadataLanguage;
+  /** Checked against the platform rules; this is what is copied, exported and linked to ideas. */
+  metadata: StockMetadata[];
+  /** Keyword lists edited by hand, by platform, as the user arranged them. */
+  keywordDrafts?: Record<string, string[]>;
+  error?: string;
+}
+
+// Production cards hold one set of metadata, so English is linked when it was generated.
+const ideaResult = (succeeded: LanguageResult[]) =>
+  succeeded.find(result => result.language === DEFAULT_METADATA_LANGUAGE) ?? succeeded[0];
+
+interface MetadataGeneratorProps {
+  draft?: MetadataDraft | null;
+  /** Called with the topic each time metadata is generated for one. */
+  onGenerate?: (search: MetadataSearch) => void;
+}
+
+const MetadataGenerator: React.FC<MetadataGeneratorProps> = ({ draft, onGenerate }) => {
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [topic, setTopic] = useState(draft?.topic ?? '');
+  const [contentType, setContentType] = useState<ContentType>(draft?.contentType ?? CONTENT_TYPES[0]);
+  const [linkedIdea, setLinkedIdea] = useState(draft?.ideaId ? { id: draft.ideaId, title: draft.ideaTitle ?? draft.topic } : null);
+  const [languages, setLanguages] = useState<MetadataLanguage[]>([DEFAULT_METADATA_LANGUAGE]);
+  const [results, setResults] = useState<LanguageResult[] | null>(null);
+  const [layout, setLayout] = useState<'sideBySide' | 'byLanguage'>('sideBySide');
+  const [activeLanguage, setActiveLanguage] = useState<MetadataLanguage>(DEFAULT_METADATA_LANGUAGE);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [csvFilename, setCsvFilename] = useState('');
+  const [resultContentType, setResultContentType] = useState<ContentType>(CONTENT_TYPES[0]);
+  const [resultTopic, setResultTopic] = useState('');
+  const [resultImage, setResultImage] = useState<File | null>(null);
 
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageBase64, setImageBase64] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => {
-            const result = reader.result as string;
-            resolve(result.split(',')[1]); 
-        };
-        reader.onerror = error => reject(error);
-    });
-  };
-
-  const handleImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  const selectImage = async (file: File | undefined) => {
     if (file) {
-        if (file.size > 4 * 1024 * 1024) { // 4MB limit
-            setError("Image size must be less than 4MB.");
+        const problem = checkImageFile(file);
+        if (problem) {
+            setError(problem);
             return;
         }
         setImageFile(file);
@@ -98,6 +249,14 @@ const MetadataGenerator: React.FC = () => {
     }
   };
 
+  const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => selectImage(event.target.files?.[0]);
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    selectImage(event.dataTransfer.files[0]);
+  };
+
   const handleRemoveImage = () => {
       setImageFile(null);
       setImageBase64(null);
@@ -106,151 +265,392 @@ const MetadataGenerator: React.FC = () => {
       }
   };
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Only the latest request may update the results; leaving the tab cancels it.
+  const generateController = useRef<AbortController | null>(null);
+  useEffect(() => () => generateController.current?.abort(), []);
+
+  const generate = useCallback(async (options?: CacheOptions) => {
     if (!topic && !imageFile) {
         setError('Please enter a topic or upload an image to generate metadata.');
         return;
     }
 
+    generateController.current?.abort();
+    const controller = new AbortController();
+    generateController.current = controller;
     setIsLoading(true);
     setError(null);
-    setMetadata(null);
+    setResults(null);
     setHasSearched(true);
-    try {
-      const imageData = imageBase64 && imageFile ? { data: imageBase64, mimeType: imageFile.type } : undefined;
-      const result = await generateStockMetadata(topic, contentType, imageData);
-      setMetadata(result);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
+    setCsvFilename(imageFile ? imageFile.name : `${slugify(topic)}.jpg`);
+    setResultContentType(contentType);
+    setResultTopic(topic);
+    setResultImage(imageFile);
+    if (topic) {
+      onGenerate?.({ topic, contentType });
+    }
+    // Each language is generated natively in its own request; one failing leaves the others.
+    const requested = METADATA_LANGUAGES.map(l => l.code).filter(code => languages.includes(code));
+    const imageData = imageBase64 && imageFile ? { data: imageBase64, mimeType: imageFile.type } : undefined;
+    const settled = await Promise.allSettled(
+      requested.map(language => generateStockMetadata(topic, contentType, imageData, language, { ...options, signal: controller.signal }))
+    );
+    if (settled.some(outcome => outcome.status === 'rejected' && isCancelled(outcome.reason))) {
+      return;
     }
-  }, [topic, contentType, imageFile, imageBase64]);
+    const generated = requested.map((language, index): LanguageResult => {
+      const outcome = settled[index];
+      return outcome.status === 'fulfilled'
+        ? { language, metadata: outcome.value }
+        : { language, metadata: [], error: outcome.reason instanceof Error ? outcome.reason.message : 'An unknown error occurred.' };
+    });
+    const succeeded = generated.filter(result => !result.error);
+    if (succeeded.length === 0) {
+      setError(generated[0]?.error ?? 'An unknown error occurred.');
+    } else {
+      setResults(generated);
+      setActiveLanguage(succeeded[0].language);
+      if (linkedIdea) {
+        attachIdeaMetadata(linkedIdea.id, ideaResult(succeeded).metadata);
+      }
+    }
+    setIsLoading(false);
+  }, [topic, contentType, languages, imageFile, imageBase64, linkedIdea, onGenerate]);
+
+  const toggleLanguage = (code: MetadataLanguage) => {
+    // At least one language stays selected.
+    setLanguages(previous =>
+      previous.includes(code) ? (previous.length > 1 ? previous.filter(l => l !== code) : previous) : [...previous, code]
+    );
+  };
+
+  // Edits are checked against the platform rules like generated metadata, keeping the
+  // user's order, and go back into the results so exports and layout switches keep them.
+  const handleKeywordsChange = (language: MetadataLanguage, platform: string, keywords: string[]) => {
+    if (!results) {
+      return;
+    }
+    const next = results.map(result => result.language !== language ? result : {
+      ...result,
+      metadata: result.metadata.map(m => (m.platform === platform ? applyPlatformRules({ ...m, keywords }, language, { preserveOrder: true }) : m)),
+      keywordDrafts: { ...result.keywordDrafts, [platform]: keywords },
+    });
+    setResults(next);
+    const linked = ideaResult(next.filter(result => !result.error));
+    if (linkedIdea && linked.language === language) {
+      attachIdeaMetadata(linkedIdea.id, linked.metadata);
+    }
+  };
+
+  // Every platform's CSV for one language, in a single download.
+  const handleExportLanguage = (result: LanguageResult) => {
+    const encoder = new TextEncoder();
+    const entries = result.metadata
+      .filter(m => hasCsvFormat(m.platform))
+      .map(m => ({
+        name: `${slugify(m.platform)}-${result.language}-metadata.csv`,
+        data: encoder.encode(buildPortalCsv(m.platform, [{ filename: csvFilename, contentType: resultContentType, metadata: m }])),
+      }));
+    downloadFile(createZip(entries), `${slugify(csvFilename)}-${result.language}-metadata.zip`, 'application/zip');
+  };
+
+  const succeededResults = results?.filter(result => !result.error) ?? [];
+  const failedResults = results?.filter(result => result.error) ?? [];
+  const isMultilingual = (results?.length ?? 0) > 1;
+  const cardLanguage = (language: MetadataLanguage) => (isMultilingual || language !== DEFAULT_METADATA_LANGUAGE ? language : undefined);
+  const platforms = Array.from(new Set(succeededResults.flatMap(result => result.metadata.map(m => m.platform))));
+  const shownResults = isMultilingual && layout === 'byLanguage'
+    ? succeededResults.filter(result => result.language === activeLanguage)
+    : succeededResults;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    generate();
+  };
 
   return (
     <div className="glassmorphism p-4 sm:p-6 rounded-xl">
-       <form onSubmit={handleSubmit}>
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
-          <div className="space-y-6">
-            <div>
-              <label htmlFor="metadata-topic" className="block text-sm font-medium text-gray-700 mb-1">Content Topic / Description</label>
-              <input
-                type="text"
-                id="metadata-topic"
-                value={topic}
-                onChange={(e) => setTopic(e.target.value)}
-                placeholder="e.g., 'Smiling family having a picnic'"
-                className="w-full px-3 py-2 rounded-md shadow-sm light-input"
-              />
-              <p className="text-xs text-gray-500 mt-1">Optional if uploading an image, but can help guide the AI.</p>
-            </div>
-            <div>
-              <label htmlFor="metadata-content-type" className="block text-sm font-medium text-gray-700 mb-1">Content Type</label>
-              <select
-                id="metadata-content-type"
-                value={contentType}
-                onChange={(e) => setContentType(e.target.value as ContentType)}
-                className="w-full px-3 py-2 rounded-md shadow-sm light-input"
-              >
-                {CONTENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
-              </select>
-            </div>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Upload Image (Optional)</label>
-             <input 
-                type="file" 
-                ref={fileInputRef} 
-                onChange={handleImageChange} 
-                accept="image/jpeg,image/png,image/webp" 
-                className="hidden" 
-              />
-            {imageBase64 && imageFile ? (
-              <div className="relative group">
-                <img 
-                  src={`data:${imageFile.type};base64,${imageBase64}`} 
-                  alt="Image preview"
-                  className="rounded-lg w-full h-auto max-h-60 object-cover border border-gray-300"
+      <div className="flex justify-center mb-6">
+        <div className="inline-flex rounded-lg bg-gray-100 p-1" role="group" aria-label="Generation mode">
+          {(['single', 'batch'] as const).map(m => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${mode === m ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-800'}`}
+            >
+              {m === 'single' ? 'Single Item' : 'Batch Upload'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Both modes stay mounted so a running batch survives switching back and forth. */}
+      <div className={mode === 'batch' ? '' : 'hidden'}>
+        <BatchMetadataGenerator />
+      </div>
+
+      <div className={mode === 'single' ? '' : 'hidden'}>
+         <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+            <div className="space-y-6">
+              <div>
+                <label htmlFor="metadata-topic" className="block text-sm font-medium text-gray-700 mb-1">Content Topic / Description</label>
+                <input
+                  type="text"
+                  id="metadata-topic"
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  placeholder="e.g., 'Smiling family having a picnic'"
+                  className="w-full px-3 py-2 rounded-md shadow-sm light-input"
                 />
-                <button 
-                  type="button"
-                  onClick={handleRemoveImage}
-                  className="absolute top-2 right-2 bg-black/50 text-white rounded-full p-1 opacity-50 group-hover:opacity-100 transition-opacity"
-                  aria-label="Remove image"
+                <p className="text-xs text-gray-500 mt-1">Optional if uploading an image, but can help guide the AI.</p>
+                {linkedIdea && (
+                  <p className="text-xs text-blue-800 bg-blue-50 border border-blue-200/50 rounded-md px-2 py-1.5 mt-2 flex justify-between gap-2">
+                    <span>Results will be linked to the idea "{linkedIdea.title}" in production.</span>
+                    <button type="button" onClick={() => setLinkedIdea(null)} className="font-medium text-blue-600 hover:text-blue-800 flex-shrink-0">Unlink</button>
+                  </p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="metadata-content-type" className="block text-sm font-medium text-gray-700 mb-1">Content Type</label>
+                <select
+                  id="metadata-content-type"
+                  value={contentType}
+                  onChange={(e) => setContentType(e.target.value as ContentType)}
+                  className="w-full px-3 py-2 rounded-md shadow-sm light-input"
                 >
-                  <XCircleIcon className="w-6 h-6" />
-                </button>
+                  {CONTENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
               </div>
-            ) : (
-              <div 
-                onClick={() => fileInputRef.current?.click()}
-                className="w-full h-48 border-2 border-dashed border-gray-300 rounded-lg flex flex-col items-center justify-center text-gray-500 hover:bg-gray-50 hover:border-blue-500 cursor-pointer transition-colors"
-              >
-                <ArrowUpTrayIcon className="w-8 h-8 mb-2 text-gray-400" />
-                <span>Click to upload or drag & drop</span>
-                <span className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP (Max 4MB)</span>
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Languages</span>
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Languages">
+                  {METADATA_LANGUAGES.map(l => (
+                    <button
+                      key={l.code}
+                      type="button"
+                      onClick={() => toggleLanguage(l.code)}
+                      aria-pressed={languages.includes(l.code)}
+                      title={l.name}
+                      className={`text-sm px-3 py-1 rounded-full font-medium border transition-colors ${
+                        languages.includes(l.code) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {l.nativeName}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Each language is written for native buyers' searches, not translated from English.</p>
               </div>
-            )}
+            </div>
+          
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Upload Image (Optional)</label>
+               <input 
+                  type="file" 
+                  ref={fileInputRef} 
+                  onChange={handleImageChange} 
+                  accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                  className="hidden" 
+                />
+              {imageBase64 && imageFile ? (
+                <div className="relative group">
+                  <img 
+                    src={`data:${imageFile.type};base64,${imageBase64}`} 
+                    alt="Image preview"
+                    className="rounded-lg w-full h-auto max-h-60 object-cover border border-gray-300"
+                  />
+                  <button 
+                    type="button"
+                    onClick={handleRemoveImage}
+                    className="absolute top-2 right-2 bg-black/50 text-white rounded-full p-1 opacity-50 group-hover:opacity-100 transition-opacity"
+                    aria-label="Remove image"
+                  >
+                    <XCircleIcon className="w-6 h-6" />
+                  </button>
+                </div>
+              ) : (
+                <div 
+                  onClick={() => fileInputRef.current?.click()}
+                  onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                  onDragLeave={() => setIsDragging(false)}
+                  onDrop={handleDrop}
+                  className={`w-full h-48 border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 cursor-pointer transition-colors ${
+                    isDragging ? 'bg-blue-50 border-blue-500' : 'border-gray-300 hover:bg-gray-50 hover:border-blue-500'
+                  }`}
+                >
+                  <ArrowUpTrayIcon className="w-8 h-8 mb-2 text-gray-400" />
+                  <span>Click to upload or drag & drop</span>
+                  <span className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP (Max 4MB)</span>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
 
-        <div className="mt-8 border-t border-gray-200 pt-6">
-            <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed flex items-center justify-center transition-all duration-300 transform hover:scale-105 hover:bg-blue-700 hover:shadow-lg hover:shadow-blue-500/30"
-            >
-            {isLoading ? (
-                <>
-                <Spinner size="sm" />
-                <span className="ml-2">Generating...</span>
-                </>
-            ) : (
-                <>
-                <TagIcon className="w-5 h-5 mr-2" />
-                <span>Generate Metadata</span>
-                </>
-            )}
-            </button>
-        </div>
-      </form>
+          <div className="mt-8 border-t border-gray-200 pt-6">
+              <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-blue-600 text-white font-bold py-3 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed flex items-center justify-center transition-all duration-300 transform hover:scale-105 hover:bg-blue-700 hover:shadow-lg hover:shadow-blue-500/30"
+              >
+              {isLoading ? (
+                  <>
+                  <Spinner size="sm" />
+                  <span className="ml-2">Generating...</span>
+                  </>
+              ) : (
+                  <>
+                  <TagIcon className="w-5 h-5 mr-2" />
+                  <span>Generate Metadata</span>
+                  </>
+              )}
+              </button>
+          </div>
+        </form>
 
-      {error && <p className="mt-4 text-sm text-red-500 text-center">{error}</p>}
+        {error && <p className="mt-4 text-sm text-red-500 text-center">{error}</p>}
       
-      <div className="mt-8">
-        {isLoading && (
-            <div className="flex justify-center items-center py-10">
-                <div className="text-center">
-                    <Spinner size="lg" />
-                    <p className="mt-4 text-gray-600 font-medium animate-pulse">Analyzing and generating metadata...</p>
-                </div>
-            </div>
-        )}
+        <div className="mt-8">
+          {isLoading && (
+              <div className="flex justify-center items-center py-10">
+                  <div className="text-center">
+                      <Spinner size="lg" />
+                      <p className="mt-4 text-gray-600 font-medium animate-pulse">Analyzing and generating metadata...</p>
+                  </div>
+              </div>
+          )}
 
-        {!isLoading && !metadata && !hasSearched && (
-            <div className="text-center py-10 rounded-lg bg-gray-50/50">
-                <TagIcon className="w-16 h-16 text-blue-500 mx-auto" />
-                <h2 className="text-3xl font-bold text-gray-800 mt-4">Title & Keyword Generator</h2>
-                <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Describe your content or upload an image to get SEO-optimized titles and keywords for Adobe Stock, Shutterstock, and more.</p>
-            </div>
-        )}
+          {!isLoading && !results && !hasSearched && (
+              <div className="text-center py-10 rounded-lg bg-gray-50/50">
+                  <TagIcon className="w-16 h-16 text-blue-500 mx-auto" />
+                  <h2 className="text-3xl font-bold text-gray-800 mt-4">Title & Keyword Generator</h2>
+                  <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Describe your content or upload an image to get SEO-optimized titles and keywords for Adobe Stock, Shutterstock, and more.</p>
+              </div>
+          )}
 
-        {!isLoading && !metadata && hasSearched && (
-            <div className="text-center py-10">
-                <h2 className="text-xl font-bold text-gray-800">No Metadata Generated</h2>
-                <p className="mt-2 text-gray-600">The AI couldn't generate metadata. Please try being more descriptive or use a different image.</p>
-            </div>
-        )}
+          {!isLoading && !results && hasSearched && (
+              <div className="text-center py-10">
+                  <h2 className="text-xl font-bold text-gray-800">No Metadata Generated</h2>
+                  <p className="mt-2 text-gray-600">The AI couldn't generate metadata. Please try being more descriptive or use a different image.</p>
+              </div>
+          )}
 
-        {metadata && (
-            <div className="animate-slide-up-fade-in grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {metadata.map((result) => (
-                    <MetadataCard key={result.platform} result={result} />
-                ))}
-            </div>
-        )}
+          {results && (
+              <div className="animate-slide-up-fade-in">
+                  <div className="flex justify-end mb-2">
+                      <RefreshButton onClick={() => generate({ refresh: true })} disabled={isLoading} label="Regenerate" />
+                  </div>
+                  <div className="mb-6 max-w-md">
+                      <label htmlFor="metadata-csv-filename" className="block text-sm font-medium text-gray-700 mb-1">File name for CSV export</label>
+                      <input
+                          type="text"
+                          id="metadata-csv-filename"
+                          value={csvFilename}
+                          onChange={(e) => setCsvFilename(e.target.value)}
+                          className="w-full px-3 py-2 rounded-md shadow-sm light-input"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Must match the name of the file you upload to each portal.</p>
+                  </div>
+                  {failedResults.map(result => (
+                      <p key={result.language} className="mb-4 text-sm text-red-500">
+                          {languageName(result.language)}: {result.error}
+                      </p>
+                  ))}
+                  {isMultilingual && (
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+                          <div className="inline-flex rounded-lg bg-gray-100 p-1 self-start" role="group" aria-label="Layout">
+                              {(['sideBySide', 'byLanguage'] as const).map(l => (
+                                  <button
+                                      key={l}
+                                      type="button"
+                                      onClick={() => setLayout(l)}
+                                      className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${layout === l ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-800'}`}
+                                  >
+                                      {l === 'sideBySide' ? 'Side by side' : 'One language'}
+                                  </button>
+                              ))}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                              {succeededResults.map(result => (
+                                  <button
+                                      key={result.language}
+                                      type="button"
+                                      onClick={() => handleExportLanguage(result)}
+                                      className="flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 hover:border-gray-400 transition-colors"
+                                  >
+                                      <ArrowDownTrayIcon className="w-4 h-4 mr-1.5 text-blue-600" />
+                                      {languageName(result.language)} CSVs
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                  )}
+                  {isMultilingual && layout === 'byLanguage' && (
+                      <div className="flex flex-wrap gap-2 mb-6" role="tablist" aria-label="Language">
+                          {succeededResults.map(result => (
+                              <button
+                                  key={result.language}
+                                  type="button"
+                                  role="tab"
+                                  aria-selected={activeLanguage === result.language}
+                                  onClick={() => setActiveLanguage(result.language)}
+                                  className={`text-sm px-3 py-1 rounded-full font-medium border transition-colors ${
+                                      activeLanguage === result.language ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                                  }`}
+                              >
+                                  {languageName(result.language)}
+                              </button>
+                          ))}
+                      </div>
+                  )}
+                  {isMultilingual && layout === 'sideBySide' ? (
+                      <div className="space-y-8">
+                          {platforms.map(platform => (
+                              <div key={platform} className="overflow-x-auto pb-2">
+                                  <div className="grid grid-flow-col auto-cols-[minmax(20rem,1fr)] gap-4">
+                                      {shownResults.map(result => {
+                                          const metadata = result.metadata.find(m => m.platform === platform);
+                                          return metadata ? (
+                                              <MetadataCard
+                                                  key={result.language}
+                                                  result={metadata}
+                                                  filename={csvFilename}
+                                                  contentType={resultContentType}
+                                                  image={resultImage}
+                                                  language={result.language}
+                                                  topic={resultTopic}
+                                                  keywordDraft={result.keywordDrafts?.[metadata.platform]}
+                                                  onKeywordsChange={keywords => handleKeywordsChange(result.language, metadata.platform, keywords)}
+                                              />
+                                          ) : (
+                                              <p key={result.language} className="text-sm text-gray-500 p-5">No {languageName(result.language)} metadata for {platform}.</p>
+                                          );
+                                      })}
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  ) : (
+                      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                          {shownResults.flatMap(result => result.metadata.map(metadata => (
+                              <MetadataCard
+                                  key={`${result.language}-${metadata.platform}`}
+                                  result={metadata}
+                                  filename={csvFilename}
+                                  contentType={resultContentType}
+                                  image={resultImage}
+                                  language={cardLanguage(result.language)}
+                                  topic={resultTopic}
+                                  keywordDraft={result.keywordDrafts?.[metadata.platform]}
+                                  onKeywordsChange={keywords => handleKeywordsChange(result.language, metadata.platform, keywords)}
+                              />
+                          )))}
+                      </div>
+                  )}
+              </div>
+          )}
+        </div>
       </div>
     </div>
   );
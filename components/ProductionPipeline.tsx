@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import type { PlatformReview, SavedIdea } from '../types';
+import { IDEA_KIND_LABELS } from '../services/ideaBoard';
+import {
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_LABELS,
+  ideaStage,
+  moveIdeaToStage,
+  pipelineColumn,
+  setPlatformReview,
+  stageDeadline,
+} from '../services/pipelineService';
+import type { PipelineColumn, StageDeadline } from '../services/pipelineService';
+import { ChevronDownIcon, TagIcon } from './icons';
+
+const COLUMNS: PipelineColumn[] = [...PIPELINE_STAGES, 'reviewed'];
+
+const COLUMN_LABELS: Record<PipelineColumn, string> = { ...PIPELINE_STAGE_LABELS, reviewed: 'Approved / Rejected' };
+
+const REVIEW_STYLES: Record<PlatformReview, string> = {
+  pending: 'bg-gray-100 text-gray-700 border-gray-200',
+  approved: 'bg-green-100 text-green-800 border-green-200',
+  rejected: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const deadlineStyles = (daysLeft: number) => {
+  if (daysLeft < 0) return 'border-red-300 bg-red-50/80';
+  if (daysLeft <= 7) return 'border-amber-300 bg-amber-50/60';
+  return 'border-gray-200/80 bg-white/70';
+};
+
+const deadlineLabel = ({ label, daysLeft }: StageDeadline) => {
+  if (daysLeft < 0) return `${label}: ${-daysLeft} ${daysLeft === -1 ? 'day' : 'days'} overdue`;
+  if (daysLeft === 0) return `${label}: today`;
+  return `${label}: ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(`${dateString}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const PipelineCard: React.FC<{ idea: SavedIdea; onSendToMetadata: (idea: SavedIdea) => void }> = ({ idea, onSendToMetadata }) => {
+  const [showMetadata, setShowMetadata] = useState(false);
+  const stage = ideaStage(idea);
+  const stageIndex = PIPELINE_STAGES.indexOf(stage);
+  const deadline = stageDeadline(idea);
+  const reviews = Object.entries(idea.reviews ?? {}) as [string, PlatformReview][];
+
+  return (
+    <li
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', idea.id)}
+      className={`p-3 rounded-lg border shadow-sm cursor-grab active:cursor-grabbing space-y-2 ${deadline ? deadlineStyles(deadline.daysLeft) : 'border-gray-200/80 bg-white/70'}`}
+    >
+      <p className="text-xs text-gray-500 truncate" title={idea.origin}>{IDEA_KIND_LABELS[idea.kind]} · {idea.origin}</p>
+      <h4 className="text-sm font-semibold text-gray-900">{idea.title}</h4>
+      {idea.eventDate && <p className="text-xs text-gray-600">Event on {formatDate(idea.eventDate)}</p>}
+      {deadline && (
+        <p className={`text-xs font-semibold ${deadline.daysLeft < 0 ? 'text-red-700' : deadline.daysLeft <= 7 ? 'text-amber-800' : 'text-gray-600'}`} title={formatDate(deadline.date)}>
+          {deadlineLabel(deadline)}
+        </p>
+      )}
+
+      {idea.metadata?.length ? (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowMetadata(!showMetadata)}
+            aria-expanded={showMetadata}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center"
+          >
+            <TagIcon className="w-3.5 h-3.5 mr-1" />
+            Metadata for {idea.metadata.length} {idea.metadata.length === 1 ? 'platform' : 'platforms'}
+            <ChevronDownIcon className={`w-3.5 h-3.5 ml-1 transform transition-transform ${showMetadata ? 'rotate-180' : ''}`} />
+          </button>
+          {showMetadata && (
+            <ul className="mt-2 space-y-2">
+              {idea.metadata.map(m => (
+                <li key={m.platform} className="text-xs bg-white/80 rounded-md p-2 border border-gray-200/80">
+                  <p className="font-semibold text-gray-800">{m.platform}</p>
+                  <p className="text-gray-700">{m.title}</p>
+                  <p className="text-gray-500 mt-1">{m.keywords.length} keywords</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => onSendToMetadata(idea)}
+          className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center"
+        >
+          <TagIcon className="w-3.5 h-3.5 mr-1" />
+          Create title &amp; keywords
+        </button>
+      )}
+
+      {stage === 'uploaded' && reviews.length > 0 && (
+        <ul className="space-y-1">
+          {reviews.map(([platform, review]) => (
+            <li key={platform} className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-gray-700 truncate">{platform}</span>
+              <select
+                value={review}
+                onChange={(e) => setPlatformReview(idea.id, platform, e.target.value as PlatformReview)}
+                aria-label={`${platform} review for ${idea.title}`}
+                className={`rounded-full border px-2 py-0.5 text-xs font-medium ${REVIEW_STYLES[review]}`}
+              >
+                <option value="pending">Pending</option>
+                <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-between pt-1 text-xs">
+        <button
+          type="button"
+          onClick={() => moveIdeaToStage(idea.id, PIPELINE_STAGES[stageIndex - 1])}
+          disabled={stageIndex === 0}
+          className="text-gray-500 hover:text-gray-800 disabled:invisible"
+        >
+          ← {stageIndex > 0 && PIPELINE_STAGE_LABELS[PIPELINE_STAGES[stageIndex - 1]]}
+        </button>
+        <button
+          type="button"
+          onClick={() => moveIdeaToStage(idea.id, PIPELINE_STAGES[stageIndex + 1])}
+          disabled={stageIndex === PIPELINE_STAGES.length - 1}
+          className="text-blue-600 hover:text-blue-800 font-medium disabled:invisible"
+        >
+          {stageIndex < PIPELINE_STAGES.length - 1 && PIPELINE_STAGE_LABELS[PIPELINE_STAGES[stageIndex + 1]]} →
+        </button>
+      </div>
+    </li>
+  );
+};
+
+interface ProductionPipelineProps {
+  ideas: SavedIdea[];
+  onSendToMetadata: (idea: SavedIdea) => void;
+}
+
+/** Kanban of saved ideas by production stage. Cards move by dragging or with their arrow buttons. */
+const ProductionPipeline: React.FC<ProductionPipelineProps> = ({ ideas, onSendToMetadata }) => {
+  const [dropTarget, setDropTarget] = useState<PipelineColumn | null>(null);
+
+  const handleDrop = (e: React.DragEvent, column: PipelineColumn) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const id = e.dataTransfer.getData('text/plain');
+    // Cards reach the reviewed column through their platform reviews, so a drop there means uploaded.
+    const stage = column === 'reviewed' ? 'uploaded' : column;
+    const idea = ideas.find(i => i.id === id);
+    if (idea && ideaStage(idea) !== stage) {
+      moveIdeaToStage(id, stage);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="grid grid-cols-6 gap-3 min-w-[72rem]">
+        {COLUMNS.map(column => {
+          const cards = ideas.filter(idea => pipelineColumn(idea) === column);
+          const overdue = cards.filter(idea => (stageDeadline(idea)?.daysLeft ?? 0) < 0).length;
+          return (
+            <section
+              key={column}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(column);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, column)}
+              className={`rounded-lg p-2 min-h-[12rem] transition-colors ${dropTarget === column ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-100/70'}`}
+            >
+              <h3 className="flex items-center justify-between px-1 mb-2 text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                {COLUMN_LABELS[column]}
+                <span className="flex items-center gap-1 normal-case tracking-normal">
+                  {overdue > 0 && <span className="bg-red-100 text-red-700 px-1.5 rounded-full">{overdue} overdue</span>}
+                  <span className="text-gray-400">{cards.length}</span>
+                </span>
+              </h3>
+              <ul className="space-y-2">
+                {cards.map(idea => <PipelineCard key={idea.id} idea={idea} onSendToMetadata={onSendToMetadata} />)}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProductionPipeline;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ArrowPathIcon } from './icons';
+
+interface RefreshButtonProps {
+  onClick: () => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+/** Re-runs a request while bypassing cached AI responses. */
+const RefreshButton: React.FC<RefreshButtonProps> = ({ onClick, disabled, label = 'Refresh' }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={disabled}
+    title="Fetch a fresh response instead of the cached one"
+    className="flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+  >
+    <ArrowPathIcon className="w-4 h-4 mr-1" />
+    {label}
+  </button>
+);
+
+export default RefreshButton;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { useLocalStore } from '../services/localStore';
+import { dismissResponseNotice, responseNoticesStore } from '../services/responseNotices';
+import { ExclamationTriangleIcon, XMarkIcon } from './icons';
+
+/** Lists AI responses that were repaired or trimmed, with what changed, until dismissed. */
+const ResponseNotices: React.FC = () => {
+  const notices = useLocalStore(responseNoticesStore);
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-8" role="status">
+      {notices.map(notice => (
+        <div key={notice.id} className="flex items-start gap-2 bg-amber-50/90 border border-amber-200 rounded-lg p-3 text-sm text-amber-900">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0 text-amber-600" />
+          <details className="flex-1">
+            <summary className="cursor-pointer font-medium">
+              The AI response for {notice.label} was incomplete: {notice.issues.length} {notice.issues.length === 1 ? 'part was' : 'parts were'} repaired or discarded.
+            </summary>
+            <ul className="mt-2 space-y-0.5 text-xs text-amber-800">
+              {notice.issues.map((issue, index) => (
+                <li key={index}><span className="font-mono">{issue.path || '(response)'}</span>: {issue.message}</li>
+              ))}
+            </ul>
+          </details>
+          <button
+            type="button"
+            onClick={() => dismissResponseNotice(notice.id)}
+            aria-label="Dismiss"
+            className="text-amber-700 hover:text-amber-900 transition-colors"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ResponseNotices;
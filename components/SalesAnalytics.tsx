@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ContentType, SaleRecord } from '../types';
+import { CONTENT_TYPES } from '../constants';
+import { useLocalStore } from '../services/localStore';
+import { detectPlatform, importSalesReport, removeSalesReport, salesReportsStore } from '../services/salesImport';
+import { keywordPerformance, rankKeywords, rankMonths, rankThemes, salesRecordsFor, salesTotals } from '../services/salesAnalytics';
+import type { SalesRanking } from '../services/salesAnalytics';
+import { PLATFORM_RULES } from '../services/metadataRules';
+import { generateKeywordStrategy, generateStockMetadata } from '../services/geminiService';
+import { isCancelled } from '../services/aiErrors';
+import Spinner from './Spinner';
+import { ArrowUpTrayIcon, CashIcon, TrashIcon } from './icons';
+
+const OTHER_PLATFORM = 'Other';
+
+const TOP_KEYWORDS = 25;
+
+type SuggestionSource = 'strategy' | 'metadata';
+
+const formatEarnings = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const RankingTable: React.FC<{ title: string; rows: SalesRanking[]; labelHeader: string; formatLabel?: (label: string) => string }> = ({
+  title,
+  rows,
+  labelHeader,
+  formatLabel = label => label,
+}) => {
+  const top = rows[0]?.earnings || 1;
+  return (
+    <div className="bg-white/60 rounded-lg border border-gray-200/80 p-4">
+      <h3 className="font-semibold text-gray-800 mb-3">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing to rank yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+              <th className="pb-2 font-semibold">{labelHeader}</th>
+              <th className="pb-2 font-semibold text-right">Earnings</th>
+              <th className="pb-2 font-semibold text-right">Downloads</th>
+              <th className="pb-2 font-semibold text-right">Assets</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className="border-t border-gray-100">
+                <td className="py-1.5 pr-2">
+                  <span className="text-gray-800">{formatLabel(row.label)}</span>
+                  <span className="block h-1 mt-1 rounded-full bg-blue-500/70" style={{ width: `${Math.max(2, (row.earnings / top) * 100)}%` }} />
+                </td>
+                <td className="py-1.5 text-right font-medium text-gray-900">{formatEarnings(row.earnings)}</td>
+                <td className="py-1.5 text-right text-gray-600">{row.downloads}</td>
+                <td className="py-1.5 text-right text-gray-600">{row.assets}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const SuggestionComparison: React.FC<{ keywordRanking: SalesRanking[]; records: SaleRecord[] }> = ({ keywordRanking, records }) => {
+  const [topic, setTopic] = useState('');
+  const [source, setSource] = useState<SuggestionSource>('strategy');
+  const [contentType, setContentType] = useState<ContentType>(CONTENT_TYPES[0]);
+  const [suggestions, setSuggestions] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!topic.trim()) {
+      setError('Please enter a topic.');
+      return;
+    }
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+    setSuggestions(null);
+    try {
+      let keywords: string[];
+      if (source === 'strategy') {
+        const strategy = await generateKeywordStrategy(topic, { signal: controller.signal });
+        keywords = [...strategy.primaryKeywords, ...strategy.longTailKeywords, ...strategy.relatedConcepts];
+      } else {
+        const metadata = await generateStockMetadata(topic, contentType, undefined, 'en', { signal: controller.signal });
+        keywords = metadata.flatMap(m => m.keywords);
+      }
+      setSuggestions(Array.from(new Set(keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean))));
+    } catch (err) {
+      if (isCancelled(err)) {
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+    }
+    setIsLoading(false);
+  };
+
+  const performance = useMemo(
+    () => (suggestions ? keywordPerformance(suggestions, records).sort((a, b) => b.earnings - a.earnings) : []),
+    [suggestions, records]
+  );
+  const sold = performance.filter(row => row.downloads > 0);
+  const missed = suggestions ? keywordRanking.filter(row => !suggestions.includes(row.label)).slice(0, 10) : [];
+
+  return (
+    <section className="bg-white/60 rounded-lg border border-gray-200/80 p-4">
+      <h3 className="font-semibold text-gray-800">Compare with AI suggestions</h3>
+      <p className="text-sm text-gray-600 mt-1 mb-4">See which suggested keywords have earned for you, and which of your best sellers the suggestions leave out.</p>
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-3 mb-4">
+        <label className="flex-1 text-sm font-medium text-gray-700">
+          Topic
+          <input
+            type="text"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="e.g., 'Remote work from home'"
+            className="mt-1 w-full px-3 py-2 rounded-md shadow-sm light-input"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Suggestions from
+          <select value={source} onChange={(e) => setSource(e.target.value as SuggestionSource)} className="mt-1 block w-full light-input rounded-md py-2 px-3">
+            <option value="strategy">Keyword strategy</option>
+            <option value="metadata">Title &amp; keywords</option>
+          </select>
+        </label>
+        {source === 'metadata' && (
+          <label className="text-sm font-medium text-gray-700">
+            Content type
+            <select value={contentType} onChange={(e) => setContentType(e.target.value as ContentType)} className="mt-1 block w-full light-input rounded-md py-2 px-3">
+              {CONTENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="bg-purple-600 text-white font-bold py-2 px-6 rounded-md hover:bg-purple-700 disabled:bg-purple-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? 'Comparing...' : 'Compare'}
+        </button>
+      </form>
+
+      {error && <p className="text-center text-red-500 mb-4">{error}</p>}
+      {isLoading && (
+        <div className="flex justify-center py-6"><Spinner /></div>
+      )}
+
+      {suggestions && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 animate-fade-in">
+          <div>
+            <p className="text-sm text-gray-700 mb-2">
+              <strong className="font-semibold">{sold.length}</strong> of {suggestions.length} suggested keywords match assets you have sold.
+            </p>
+            <ul className="divide-y divide-gray-100 text-sm max-h-96 overflow-y-auto">
+              {performance.map(row => (
+                <li key={row.label} className="flex justify-between gap-2 py-1.5">
+                  <span className="text-gray-800">{row.label}</span>
+                  {row.downloads > 0 ? (
+                    <span className="text-gray-900 font-medium whitespace-nowrap">
+                      {formatEarnings(row.earnings)} <span className="text-gray-500 font-normal">· {row.downloads} dl · {row.assets} assets</span>
+                    </span>
+                  ) : (
+                    <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full whitespace-nowrap">No sales</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="text-sm text-gray-700 mb-2">Your top earning keywords the suggestions leave out</p>
+            {missed.length === 0 ? (
+              <p className="text-sm text-gray-500">The suggestions cover all of your best sellers.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {missed.map(row => (
+                  <li key={row.label} className="flex justify-between gap-2 py-1.5">
+                    <span className="text-gray-800">{row.label}</span>
+                    <span className="text-gray-900 font-medium">{formatEarnings(row.earnings)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+/** Import contributor sales reports and rank what has actually earned. */
+const SalesAnalytics: React.FC = () => {
+  const reports = useLocalStore(salesReportsStore);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // An empty platform is detected from each file's name.
+  const [importPlatform, setImportPlatform] = useState('');
+  const [platformFilter, setPlatformFilter] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const platforms = Array.from(new Set(reports.map(report => report.platform)));
+  const records = useMemo(() => salesRecordsFor(reports, platformFilter), [reports, platformFilter]);
+  const totals = useMemo(() => salesTotals(records), [records]);
+  const keywordRanking = useMemo(() => rankKeywords(records), [records]);
+  const themeRanking = useMemo(() => rankThemes(records), [records]);
+  const monthRanking = useMemo(() => rankMonths(records), [records]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+    setIsImporting(true);
+    setMessage(null);
+    const imported: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const platform = importPlatform || detectPlatform(file.name) || OTHER_PLATFORM;
+        const { report, skippedRows } = await importSalesReport(file, platform);
+        imported.push(`${file.name} (${report.records.length} asset-months${skippedRows ? `, ${skippedRows} rows skipped` : ''})`);
+      } catch (err) {
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : 'Failed to read the file.'}`);
+      }
+    }
+    setMessage({
+      text: [imported.length > 0 && `Imported ${imported.join(', ')}.`, ...failed].filter(Boolean).join(' '),
+      isError: failed.length > 0,
+    });
+    setIsImporting(false);
+  };
+
+  const handleRemove = (id: string, fileName: string) => {
+    if (window.confirm(`Remove the sales report "${fileName}"?`)) {
+      removeSalesReport(id);
+      setPlatformFilter(null);
+    }
+  };
+
+  const titleKeywordReports = reports.filter(report => report.keywordsFromTitles && (platformFilter === null || report.platform === platformFilter));
+
+  return (
+    <div className="space-y-8">
+      <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <CashIcon className="w-7 h-7 text-blue-600" />
+          Sales Analytics
+        </h2>
+        <p className="text-sm text-gray-600 mt-1 mb-4">
+          Import the earnings CSVs from your contributor dashboards. Columns are found by name, so exports from most agencies work as they are.
+        </p>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm font-medium text-gray-700">
+            Platform
+            <select value={importPlatform} onChange={(e) => setImportPlatform(e.target.value)} className="mt-1 block light-input rounded-md py-2 px-3">
+              <option value="">Detect from file name</option>
+              {[...Object.keys(PLATFORM_RULES), OTHER_PLATFORM].map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-wait transition-colors"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4 mr-1.5" />
+            {isImporting ? 'Importing...' : 'Import sales CSV'}
+          </button>
+          <input ref={fileInputRef} type="file" accept="text/csv,.csv,.txt" multiple onChange={handleImport} className="hidden" />
+        </div>
+        {message && (
+          <p className={`text-sm mt-3 ${message.isError ? 'text-red-600' : 'text-green-700'}`} role="status">{message.text}</p>
+        )}
+        {reports.length > 0 && (
+          <ul className="mt-4 divide-y divide-gray-200/80 text-sm">
+            {reports.map(report => (
+              <li key={report.id} className="flex items-center justify-between gap-3 py-2">
+                <span className="truncate">
+                  <span className="font-medium text-gray-800">{report.fileName}</span>
+                  <span className="text-gray-500"> · {report.platform} · {report.records.length} asset-months · imported {new Date(report.importedAt).toLocaleDateString()}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(report.id, report.fileName)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label={`Remove ${report.fileName}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {reports.length > 0 && (
+        <section className="glassmorphism p-4 sm:p-6 rounded-xl space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <dl className="grid grid-cols-3 gap-6">
+              <div>
+                <dt className="text-xs text-gray-500 uppercase tracking-wider">Earnings</dt>
+                <dd className="text-2xl font-bold text-gray-900">{formatEarnings(totals.earnings)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 uppercase tracking-wider">Downloads</dt>
+                <dd className="text-2xl font-bold text-gray-900">{totals.downloads}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500 uppercase tracking-wider">Assets sold</dt>
+                <dd className="text-2xl font-bold text-gray-900">{totals.assets}</dd>
+              </div>
+            </dl>
+            {platforms.length > 1 && (
+              <select
+                value={platformFilter ?? ''}
+                onChange={(e) => setPlatformFilter(e.target.value || null)}
+                aria-label="Platform"
+                className="light-input rounded-md py-2 px-3 text-sm"
+              >
+                <option value="">All platforms</option>
+                {platforms.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            )}
+          </div>
+
+          {titleKeywordReports.length > 0 && (
+            <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+              {titleKeywordReports.map(report => report.fileName).join(', ')} had no keyword column, so words from asset titles are ranked instead.
+            </p>
+          )}
+
+          <RankingTable title={`Top ${TOP_KEYWORDS} keywords`} labelHeader="Keyword" rows={keywordRanking.slice(0, TOP_KEYWORDS)} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <RankingTable title="Themes" labelHeader="Theme" rows={themeRanking} />
+            <RankingTable title="Months" labelHeader="Month" rows={monthRanking} formatLabel={formatMonth} />
+          </div>
+
+          <SuggestionComparison keywordRanking={keywordRanking} records={records} />
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SalesAnalytics;
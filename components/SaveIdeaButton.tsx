@@ -0,0 +1,30 @@
+import React from 'react';
+import { savedIdeaId, savedIdeasStore, toggleSavedIdea } from '../services/ideaBoard';
+import type { IdeaDraft } from '../services/ideaBoard';
+import { useLocalStore } from '../services/localStore';
+import { BookmarkIcon } from './icons';
+
+interface SaveIdeaButtonProps {
+  draft: IdeaDraft;
+}
+
+/** Adds the idea to the idea board, or takes it off again. */
+const SaveIdeaButton: React.FC<SaveIdeaButtonProps> = ({ draft }) => {
+  const savedIdeas = useLocalStore(savedIdeasStore);
+  const id = savedIdeaId(draft);
+  const isSaved = savedIdeas.some(idea => idea.id === id);
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggleSavedIdea(draft)}
+      aria-pressed={isSaved}
+      className={`text-xs font-medium flex items-center transition-colors ${isSaved ? 'text-amber-600 hover:text-amber-800' : 'text-gray-500 hover:text-gray-800'}`}
+    >
+      <BookmarkIcon className="w-4 h-4 mr-1" filled={isSaved} />
+      {isSaved ? 'On idea board' : 'Save idea'}
+    </button>
+  );
+};
+
+export default SaveIdeaButton;
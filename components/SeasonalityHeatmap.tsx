@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { MONTHS } from '../constants';
+import { useLocalStore } from '../services/localStore';
+import { savedEventsStore } from '../services/plannerService';
+import { savedIdeasStore } from '../services/ideaBoard';
+import { salesReportsStore } from '../services/salesImport';
+import { salesRecordsFor } from '../services/salesAnalytics';
+import { GAP_MIN_MARKETS, buildSeasonality, uniqueEvents, upcomingMonths } from '../services/seasonality';
+import type { SeasonalEvent, SeasonalityCell, SeasonalityDimension } from '../services/seasonality';
+import { ExclamationTriangleIcon, FireIcon } from './icons';
+
+type Overlay = 'sales' | 'ideas' | 'none';
+
+const OVERLAY_LABELS: Record<Overlay, string> = {
+  sales: 'Sales',
+  ideas: 'Saved ideas',
+  none: 'Events only',
+};
+
+// Heat is relative to the busiest cell on screen.
+const heatStyles = (markets: number, max: number) => {
+  const ratio = max > 0 ? markets / max : 0;
+  if (ratio === 0) return 'bg-gray-50 text-gray-400';
+  if (ratio < 0.25) return 'bg-orange-100 text-orange-900';
+  if (ratio < 0.5) return 'bg-orange-200 text-orange-900';
+  if (ratio < 0.75) return 'bg-orange-400 text-white';
+  return 'bg-orange-600 text-white';
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const overlayText = (cell: SeasonalityCell, overlay: Overlay) => {
+  if (overlay === 'sales') return cell.earnings > 0 ? cell.earnings.toFixed(2) : '';
+  if (overlay === 'ideas') return cell.ideas > 0 ? `${cell.ideas} ${cell.ideas === 1 ? 'idea' : 'ideas'}` : '';
+  return '';
+};
+
+const cellTitle = (label: string, monthName: string, cell: SeasonalityCell) => {
+  const lines = [
+    `${label}, ${monthName}`,
+    `${cell.events} ${cell.events === 1 ? 'event' : 'events'} across ${cell.markets} ${cell.markets === 1 ? 'market' : 'markets'}`,
+    `${cell.ideas} saved ${cell.ideas === 1 ? 'idea' : 'ideas'}`,
+    `Earnings ${cell.earnings.toFixed(2)} from ${cell.downloads} downloads`,
+  ];
+  if (cell.gapEvents.length > 0) {
+    lines.push(`Nothing in the pipeline for ${cell.gapEvents.map(e => e.name).join(', ')}`);
+  }
+  return lines.join('\n');
+};
+
+interface SeasonalityHeatmapProps {
+  /** Events from the Event Finder's current results, counted alongside saved events. */
+  searchEvents: SeasonalEvent[];
+}
+
+/** Which months are busiest per content type or theme, with sales or saved ideas laid over them. */
+const SeasonalityHeatmap: React.FC<SeasonalityHeatmapProps> = ({ searchEvents }) => {
+  const savedEvents = useLocalStore(savedEventsStore);
+  const ideas = useLocalStore(savedIdeasStore);
+  const reports = useLocalStore(salesReportsStore);
+  const [dimension, setDimension] = useState<SeasonalityDimension>('theme');
+  const [overlay, setOverlay] = useState<Overlay>(reports.length > 0 ? 'sales' : 'ideas');
+
+  const events = useMemo(
+    () => uniqueEvents([...savedEvents.map(saved => ({ event: saved.event, contentType: saved.contentType })), ...searchEvents]),
+    [savedEvents, searchEvents]
+  );
+  const sales = useMemo(() => salesRecordsFor(reports, null), [reports]);
+  const rows = useMemo(() => buildSeasonality(dimension, events, ideas, sales), [dimension, events, ideas, sales]);
+  const maxMarkets = Math.max(0, ...rows.flatMap(row => row.cells.map(cell => cell.markets)));
+  const upcoming = upcomingMonths();
+
+  // Soonest first, following the calendar from the current month.
+  const gaps = rows
+    .flatMap(row => row.cells.map((cell, i) => ({ label: row.label, month: upcoming[i], cell })))
+    .filter(gap => gap.cell.gapEvents.length > 0)
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  const toggle = <T extends string>(options: T[], value: T, onChange: (value: T) => void, labelOf: (value: T) => string, ariaLabel: string) => (
+    <div className="inline-flex rounded-lg bg-gray-100 p-1" role="group" aria-label={ariaLabel}>
+      {options.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${value === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-800'}`}
+        >
+          {labelOf(option)}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-20 glassmorphism rounded-xl">
+        <FireIcon className="w-16 h-16 text-blue-500 mx-auto" />
+        <h2 className="text-3xl font-bold text-gray-800 mt-4">Seasonality</h2>
+        <p className="mt-2 text-gray-600 max-w-lg mx-auto text-lg">Search events or save them to your planner to see which months are hottest.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+        <div className="flex flex-col lg:flex-row lg:items-end gap-4 mb-6">
+          <div className="flex-1">
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+              <FireIcon className="w-7 h-7 text-blue-600" />
+              Seasonality
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {events.length} saved and searched {events.length === 1 ? 'event' : 'events'}, pooled by calendar month. Darker cells reach more markets.
+            </p>
+          </div>
+          {toggle<SeasonalityDimension>(['theme', 'contentType'], dimension, setDimension, d => (d === 'theme' ? 'By theme' : 'By content type'), 'Rows')}
+          {toggle<Overlay>(['sales', 'ideas', 'none'], overlay, setOverlay, o => OVERLAY_LABELS[o], 'Overlay')}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[56rem] border-separate border-spacing-1 text-xs">
+            <thead>
+              <tr>
+                <th className="text-left font-semibold text-gray-500 uppercase tracking-wider px-1" scope="col">
+                  {dimension === 'theme' ? 'Theme' : 'Content type'}
+                </th>
+                {MONTHS.map(m => (
+                  <th key={m.value} className="font-semibold text-gray-500 uppercase tracking-wider" scope="col">{m.name.slice(0, 3)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <th scope="row" className="text-left font-medium text-gray-800 px-1 whitespace-nowrap">{row.label}</th>
+                  {row.cells.map((cell, i) => (
+                    <td
+                      key={i}
+                      title={cellTitle(row.label, MONTHS[i].name, cell)}
+                      className={`h-14 rounded-md text-center align-middle ${heatStyles(cell.markets, maxMarkets)} ${cell.gapEvents.length > 0 ? 'ring-2 ring-red-500 ring-inset' : ''}`}
+                    >
+                      <span className="block text-sm font-bold">{cell.events || ''}</span>
+                      <span className="block text-[0.65rem] opacity-90">{overlayText(cell, overlay)}</span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          Numbers are event counts{overlay === 'sales' ? ', with earnings below' : overlay === 'ideas' ? ', with saved ideas below' : ''}.
+          Red outlines mark upcoming months whose events reach {GAP_MIN_MARKETS}+ markets with no saved idea dated in them.
+          {dimension === 'contentType' && ' Hot topics have no content type and are not counted here.'}
+          {overlay === 'sales' && reports.length === 0 && ' Import sales reports in the Sales tab to see earnings.'}
+        </p>
+      </section>
+
+      <section className="glassmorphism p-4 sm:p-6 rounded-xl">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2 mb-4">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-600" />
+          Gaps in the pipeline
+        </h3>
+        {gaps.length === 0 ? (
+          <p className="text-sm text-gray-600">Every upcoming month with major events has at least one saved idea.</p>
+        ) : (
+          <ul className="space-y-2">
+            {gaps.map(gap => (
+              <li key={`${gap.label}|${gap.month}`} className="bg-red-50/80 border border-red-200 rounded-lg p-3 text-sm">
+                <p className="font-semibold text-gray-900">{formatMonth(gap.month)} · {gap.label}</p>
+                <p className="text-gray-700 mt-0.5">{gap.cell.gapEvents.map(e => e.name).join(', ')}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SeasonalityHeatmap;
@@ -1,28 +1,39 @@
 import React, { useState } from 'react';
 import type { ContentType, SellingConcept } from '../types';
 import { generateInspirationalImage } from '../services/geminiService';
+import { saveLibraryImage } from '../services/imageLibrary';
+import { useImageSettings } from '../services/imagePresets';
+import ImageSettingsPanel from './ImageSettingsPanel';
+import SaveIdeaButton from './SaveIdeaButton';
+import { sellingConceptDraft } from '../services/ideaBoard';
 import Spinner from './Spinner';
 import { CameraIcon, CopyIcon, TagIcon, UserIcon } from './icons';
 
 interface SellingConceptCardProps {
   concept: SellingConcept;
   contentType: ContentType;
+  eventName: string;
+  eventDate: string;
 }
 
-const SellingConceptCard: React.FC<SellingConceptCardProps> = ({ concept, contentType }) => {
+const SellingConceptCard: React.FC<SellingConceptCardProps> = ({ concept, contentType, eventName, eventDate }) => {
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  // Use the more detailed description for a better visualization
+  const [imagePrompt, setImagePrompt] = useState(concept.description);
+  const [showImageSettings, setShowImageSettings] = useState(false);
+  const imageSettings = useImageSettings(contentType);
 
   const handleGenerateImage = async () => {
     setIsGeneratingImage(true);
     setGeneratedImage(null);
     setImageError(null);
     try {
-      // Use the more detailed description for a better visualization
-      const imageData = await generateInspirationalImage(concept.description, contentType);
+      const imageData = await generateInspirationalImage(imagePrompt, contentType, imageSettings);
       setGeneratedImage(`data:image/jpeg;base64,${imageData}`);
+      saveLibraryImage({ data: imageData, prompt: imagePrompt, contentType, source: { kind: 'event', name: eventName } });
     } catch (err) {
       setImageError(err instanceof Error ? err.message : 'Unknown image error.');
     } finally {
@@ -67,16 +78,21 @@ const SellingConceptCard: React.FC<SellingConceptCardProps> = ({ concept, conten
         </div>
       </div>
       
-      <div className="pt-2 border-t border-gray-200/60">
+      <div className="pt-2 border-t border-gray-200/60 flex items-center gap-4">
         <button 
           onClick={handleGenerateImage} 
-          disabled={isGeneratingImage} 
+          disabled={isGeneratingImage || !imagePrompt.trim()} 
           className="text-xs text-purple-600 hover:text-purple-800 font-medium flex items-center transition-colors disabled:opacity-50 disabled:cursor-wait"
         >
           <CameraIcon className="w-4 h-4 mr-1" />
           {isGeneratingImage ? 'Visualizing...' : 'Visualize Concept'}
         </button>
+        <button onClick={() => setShowImageSettings(!showImageSettings)} aria-expanded={showImageSettings} className="text-xs text-gray-500 hover:text-gray-800 font-medium transition-colors">
+          {showImageSettings ? 'Hide image settings' : 'Customize image'}
+        </button>
+        <SaveIdeaButton draft={sellingConceptDraft(concept, eventName, eventDate, contentType)} />
       </div>
+      {showImageSettings && <ImageSettingsPanel contentType={contentType} concept={imagePrompt} onConceptChange={setImagePrompt} />}
 
       {isGeneratingImage && (
         <div className="mt-4 flex flex-col items-center justify-center p-4 bg-gray-100/50 rounded-md">
@@ -88,6 +104,7 @@ const SellingConceptCard: React.FC<SellingConceptCardProps> = ({ concept, conten
       {generatedImage && (
         <div className="mt-4 rounded-lg overflow-hidden shadow-lg animate-fade-in shadow-gray-400/30 ring-1 ring-gray-900/5">
           <img src={generatedImage} alt={`AI-generated image for ${concept.concept}`} className="w-full h-auto object-cover" />
+          <p className="px-3 py-2 text-xs text-gray-500 bg-white/70">Saved to your image library.</p>
         </div>
       )}
     </div>
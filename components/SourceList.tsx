@@ -0,0 +1,30 @@
+import React from 'react';
+import type { GroundingSource } from '../types';
+import { LinkIcon } from './icons';
+
+interface SourceListProps {
+  sources: GroundingSource[];
+}
+
+const SourceList: React.FC<SourceListProps> = ({ sources }) => (
+  <div className="mt-12 p-6 glassmorphism rounded-xl">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+          <LinkIcon className="w-5 h-5 mr-2 text-gray-500" />
+          Information Sources
+      </h3>
+      <ul className="space-y-2 max-h-40 overflow-y-auto pr-2">
+          {sources.map((source, index) => (
+              <li key={index} className="text-sm">
+                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-words transition-colors">
+                      {source.title || source.uri}
+                  </a>
+              </li>
+          ))}
+      </ul>
+      <p className="text-xs text-gray-500 mt-4">
+          Event information is provided by Google Search. Content may be subject to copyright.
+      </p>
+  </div>
+);
+
+export default SourceList;
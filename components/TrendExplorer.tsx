@@ -1,26 +1,39 @@
-import React, { useState, useCallback } from 'react';
-import type { AITrendReport, ContentType, TrendingIdea } from '../types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { AITrendReport, ContentType, TrendingIdea, TrendSearch } from '../types';
 import { CONTENT_TYPES } from '../constants';
 import { generateTrendingIdeas, generateInspirationalImage } from '../services/geminiService';
+import type { CacheOptions } from '../services/aiCache';
+import { isCancelled } from '../services/aiErrors';
+import { saveLibraryImage } from '../services/imageLibrary';
+import { useImageSettings } from '../services/imagePresets';
+import ImageSettingsPanel from './ImageSettingsPanel';
+import SaveIdeaButton from './SaveIdeaButton';
+import { trendingIdeaDraft } from '../services/ideaBoard';
 import Spinner from './Spinner';
+import RefreshButton from './RefreshButton';
 import { ChartBarIcon, CopyIcon, CameraIcon } from './icons';
 
 const IdeaCard: React.FC<{
   idea: TrendingIdea;
   contentType: ContentType;
-}> = ({ idea, contentType }) => {
+  theme: string;
+}> = ({ idea, contentType, theme }) => {
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [imagePrompt, setImagePrompt] = useState(idea.title);
+  const [showImageSettings, setShowImageSettings] = useState(false);
+  const imageSettings = useImageSettings(contentType);
 
   const handleGenerateImage = async () => {
     setIsGeneratingImage(true);
     setGeneratedImage(null);
     setImageError(null);
     try {
-      const imageData = await generateInspirationalImage(idea.title, contentType);
+      const imageData = await generateInspirationalImage(imagePrompt, contentType, imageSettings);
       setGeneratedImage(`data:image/jpeg;base64,${imageData}`);
+      saveLibraryImage({ data: imageData, prompt: imagePrompt, contentType, source: { kind: 'trend', name: theme } });
     } catch (err) {
       setImageError(err instanceof Error ? err.message : 'Unknown image error.');
     } finally {
@@ -48,11 +61,16 @@ const IdeaCard: React.FC<{
             <CopyIcon className="w-4 h-4 mr-1" />
             {copied ? 'Copied!' : 'Copy Keywords'}
         </button>
-        <button onClick={handleGenerateImage} disabled={isGeneratingImage} className="text-xs text-purple-600 hover:text-purple-800 font-medium flex items-center transition-colors disabled:opacity-50 disabled:cursor-wait">
+        <button onClick={handleGenerateImage} disabled={isGeneratingImage || !imagePrompt.trim()} className="text-xs text-purple-600 hover:text-purple-800 font-medium flex items-center transition-colors disabled:opacity-50 disabled:cursor-wait">
             <CameraIcon className="w-4 h-4 mr-1" />
             {isGeneratingImage ? 'Generating...' : 'Generate Image'}
         </button>
+        <button onClick={() => setShowImageSettings(!showImageSettings)} aria-expanded={showImageSettings} className="text-xs text-gray-500 hover:text-gray-800 font-medium transition-colors">
+            {showImageSettings ? 'Hide image settings' : 'Customize image'}
+        </button>
+        <SaveIdeaButton draft={trendingIdeaDraft(idea, theme, contentType)} />
       </div>
+      {showImageSettings && <ImageSettingsPanel contentType={contentType} concept={imagePrompt} onConceptChange={setImagePrompt} />}
        {isGeneratingImage && (
         <div className="mt-4 flex flex-col items-center justify-center p-4 bg-gray-100/50 rounded-md">
             <Spinner size="md" />
@@ -62,16 +80,23 @@ const IdeaCard: React.FC<{
        {imageError && <p className="mt-2 text-xs text-red-500">{imageError}</p>}
        {generatedImage && (
         <div className="mt-4 rounded-lg overflow-hidden shadow-lg animate-fade-in shadow-gray-400/30 ring-1 ring-gray-900/5">
-          <img src={generatedImage} alt={`AI-generated image for ${idea.title}`} className="w-full h-auto object-cover" />
+          <img src={generatedImage} alt={`AI-generated image for ${imagePrompt}`} className="w-full h-auto object-cover" />
+          <p className="px-3 py-2 text-xs text-gray-500 bg-white/70">Saved to your image library.</p>
         </div>
       )}
     </div>
   );
 };
 
-const TrendExplorer: React.FC = () => {
-  const [theme, setTheme] = useState('');
-  const [contentType, setContentType] = useState<ContentType>(CONTENT_TYPES[0]);
+interface TrendExplorerProps {
+  /** A search to run on mount, such as the last one or one from an imported workspace. */
+  initialSearch?: TrendSearch | null;
+  onSearch?: (search: TrendSearch) => void;
+}
+
+const TrendExplorer: React.FC<TrendExplorerProps> = ({ initialSearch, onSearch }) => {
+  const [theme, setTheme] = useState(initialSearch?.theme ?? '');
+  const [contentType, setContentType] = useState<ContentType>(initialSearch?.contentType ?? CONTENT_TYPES[0]);
   const [aiReport, setAiReport] = useState<AITrendReport | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -80,23 +105,41 @@ const TrendExplorer: React.FC = () => {
   
   const suggestions = ["AI & Technology", "Nature & Environment", "Health & Wellness", "Abstract Art", "Business & Finance", "Retro Futurism"];
 
-  const performTrendSearch = useCallback(async (currentTheme: string, currentContentType: ContentType) => {
+  // Only the latest search may update the report; leaving the tab cancels it.
+  const searchController = useRef<AbortController | null>(null);
+  useEffect(() => () => searchController.current?.abort(), []);
+
+  const performTrendSearch = useCallback(async (currentTheme: string, currentContentType: ContentType, options?: CacheOptions) => {
     if (!currentTheme) {
         setError('Please enter a theme to explore.');
         return;
     }
+    searchController.current?.abort();
+    const controller = new AbortController();
+    searchController.current = controller;
     setIsLoading(true);
     setError(null);
     setAiReport(null);
     setHasSearched(true);
+    onSearch?.({ theme: currentTheme, contentType: currentContentType });
     try {
-      const report = await generateTrendingIdeas(currentTheme, currentContentType);
+      const report = await generateTrendingIdeas(currentTheme, currentContentType, { ...options, signal: controller.signal });
       setAiReport(report);
     } catch (err) {
+      if (isCancelled(err)) {
+        return;
+      }
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
     }
+    setIsLoading(false);
+  }, [onSearch]);
+
+  // Cached, so returning to the tab shows the previous report without a new request.
+  useEffect(() => {
+    if (initialSearch) {
+      performTrendSearch(initialSearch.theme, initialSearch.contentType);
+    }
+    // Only on mount; later searches come from the form.
   }, []);
 
   const handleGenerateTrends = (e: React.FormEvent) => {
@@ -197,10 +240,13 @@ const TrendExplorer: React.FC = () => {
                     <p className="text-sm text-blue-800 italic mt-1 bg-blue-50 p-3 rounded-md border border-blue-200/50">"{aiReport.audienceTip}"</p>
                  </div>
                  <div>
-                    <h3 className="text-lg font-bold text-gray-800 mb-4">Trending Concepts for "{theme}"</h3>
+                    <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-bold text-gray-800">Trending Concepts for "{theme}"</h3>
+                      <RefreshButton onClick={() => performTrendSearch(theme, contentType, { refresh: true })} disabled={isLoading} />
+                    </div>
                     <div className="space-y-4">
                         {aiReport.ideas.map((idea, index) => (
-                          <IdeaCard key={index} idea={idea} contentType={contentType} />
+                          <IdeaCard key={index} idea={idea} contentType={contentType} theme={theme} />
                         ))}
                     </div>
                  </div>
@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import type { WorkspaceSession } from '../types';
+import { exportWorkspace, importWorkspace, readWorkspaceFile } from '../services/workspace';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from './icons';
+
+interface WorkspaceMenuProps {
+  getSession: () => WorkspaceSession;
+  onImport: (session: WorkspaceSession) => void;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Export the workspace to a JSON file, or merge one exported elsewhere into this one. */
+const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({ getSession, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await exportWorkspace(getSession());
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to export the workspace.', isError: true });
+    }
+    setIsBusy(false);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const summary = await importWorkspace(await readWorkspaceFile(file));
+      onImport(summary.session);
+      setMessage({
+        text: `Imported ${plural(summary.savedEvents, 'saved event')}, ${plural(summary.savedIdeas, 'idea')}, ${plural(summary.salesReports, 'sales report')}, ${plural(summary.images, 'new image')} and ${plural(summary.aiResponses, 'AI response')}.`,
+        isError: false,
+      });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to import the workspace.', isError: true });
+    }
+    setIsBusy(false);
+  };
+
+  const buttonClass = 'flex items-center px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 hover:border-gray-400 disabled:opacity-50 disabled:cursor-wait transition-colors';
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex gap-2">
+        <button type="button" onClick={handleExport} disabled={isBusy} className={buttonClass}>
+          <ArrowDownTrayIcon className="w-4 h-4 mr-1.5 text-blue-600" />
+          Export workspace
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isBusy} className={buttonClass}>
+          <ArrowUpTrayIcon className="w-4 h-4 mr-1.5 text-blue-600" />
+          Import workspace
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {message && (
+        <p className={`text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`} role="status">{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMenu;
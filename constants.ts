@@ -1,4 +1,4 @@
-import type { Country } from './types';
+import type { Country, MetadataLanguage } from './types';
 import { ContentType } from './types';
 
 export const COUNTRIES: Country[] = [
@@ -48,4 +48,35 @@ const currentYear = new Date().getFullYear();
 export const YEARS = Array.from({ length: 6 }, (_, i) => currentYear + i);
 
 
-export const CONTENT_TYPES: ContentType[] = Object.values(ContentType);
\ No newline at end of file
+export const CONTENT_TYPES: ContentType[] = Object.values(ContentType);
+
+export const GALLERY_SIZES = [2, 4, 6, 8];
+
+export const DEFAULT_GALLERY_SIZE = 4;
+
+export const METADATA_LANGUAGES: { code: MetadataLanguage; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+];
+
+export const DEFAULT_METADATA_LANGUAGE: MetadataLanguage = 'en';
+
+// Broad subject themes for grouping sales and ideas. A title or keyword list
+// belongs to the theme whose words it mentions most.
+export const CONTENT_THEMES: { name: string; words: string[] }[] = [
+  { name: 'Business & Finance', words: ['business', 'office', 'finance', 'money', 'meeting', 'corporate', 'team', 'startup', 'economy', 'investment', 'work', 'marketing'] },
+  { name: 'Technology', words: ['technology', 'tech', 'ai', 'digital', 'computer', 'data', 'robot', 'cyber', 'network', 'smartphone', 'futuristic', 'code'] },
+  { name: 'Nature & Environment', words: ['nature', 'landscape', 'forest', 'mountain', 'ocean', 'sea', 'flower', 'tree', 'environment', 'sustainability', 'green', 'eco'] },
+  { name: 'Health & Wellness', words: ['health', 'wellness', 'fitness', 'yoga', 'medical', 'doctor', 'healthy', 'sport', 'exercise', 'meditation', 'care'] },
+  { name: 'Food & Drink', words: ['food', 'drink', 'cooking', 'kitchen', 'restaurant', 'coffee', 'fruit', 'vegetable', 'meal', 'dessert', 'wine', 'breakfast'] },
+  { name: 'Holidays & Celebrations', words: ['christmas', 'holiday', 'easter', 'halloween', 'valentine', 'celebration', 'party', 'birthday', 'new year', 'festival', 'thanksgiving', 'gift'] },
+  { name: 'People & Lifestyle', words: ['people', 'family', 'woman', 'man', 'child', 'friends', 'lifestyle', 'portrait', 'couple', 'senior', 'home', 'smiling'] },
+  { name: 'Travel', words: ['travel', 'city', 'vacation', 'beach', 'tourism', 'architecture', 'landmark', 'summer', 'trip', 'hotel', 'street'] },
+  { name: 'Backgrounds & Textures', words: ['background', 'texture', 'pattern', 'abstract', 'wallpaper', 'gradient', 'seamless', 'frame', 'border', 'copy space'] },
+  { name: 'Education & Science', words: ['education', 'school', 'student', 'learning', 'science', 'book', 'study', 'laboratory', 'research', 'classroom'] },
+];
+
+export const OTHER_THEME = 'Other';
@@ -0,0 +1,241 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ImageInput, MetadataLanguage } from '../types';
+import { METADATA_LANGUAGES } from '../constants';
+import type { AIProvider } from '../services/aiProvider';
+import { AIError, toAIError } from '../services/aiErrors';
+import type { AIErrorKind } from '../services/aiErrors';
+import { geminiProvider, setGeminiApiKey } from '../services/geminiProvider';
+import { normalizeImageSettings } from '../services/imagePrompt';
+
+// Exposes each AIProvider method as `POST /api/ai/<method>` with a JSON body
+// of `{ "args": [...] }`, so the Gemini key stays on the server. Used as Vite
+// middleware in development and by server/index.ts in production.
+
+export const AI_API_PATH = '/api/ai/';
+
+// A 4 MB image grows by a third as base64, plus the rest of the request.
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+// Every request spends quota on the server's key. A full-year calendar search
+// across a few countries is the largest burst the app itself sends.
+const DEFAULT_REQUESTS_PER_MINUTE = 120;
+const RATE_WINDOW_MS = 60_000;
+
+const STATUS_BY_KIND: Record<AIErrorKind, number> = {
+    auth: 500,
+    rateLimit: 429,
+    safety: 422,
+    parse: 502,
+    network: 502,
+    timeout: 504,
+    unavailable: 503,
+    cancelled: 499,
+    unknown: 500,
+};
+
+class BadRequestError extends Error {}
+
+const stringArg = (args: unknown[], index: number): string => {
+    const value = args[index];
+    if (typeof value !== 'string') {
+        throw new BadRequestError(`Argument ${index + 1} must be a string.`);
+    }
+    return value;
+};
+
+const numberArg = (args: unknown[], index: number): number => {
+    const value = args[index];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new BadRequestError(`Argument ${index + 1} must be a number.`);
+    }
+    return value;
+};
+
+const optionalImageArg = (args: unknown[], index: number): ImageInput | undefined => {
+    const value = args[index] as Partial<ImageInput> | null | undefined;
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value.data !== 'string' || typeof value.mimeType !== 'string' || !value.mimeType.startsWith('image/')) {
+        throw new BadRequestError(`Argument ${index + 1} must be an image with base64 data and an image MIME type.`);
+    }
+    return { data: value.data, mimeType: value.mimeType };
+};
+
+const optionalLanguageArg = (args: unknown[], index: number): MetadataLanguage | undefined => {
+    const value = args[index];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    const language = METADATA_LANGUAGES.find(l => l.code === value);
+    if (!language) {
+        throw new BadRequestError(`Argument ${index + 1} must be one of ${METADATA_LANGUAGES.map(l => l.code).join(', ')}.`);
+    }
+    return language.code;
+};
+
+type Handler = (args: unknown[], signal: AbortSignal) => Promise<unknown>;
+
+const handlers: Record<Exclude<keyof AIProvider, 'name'>, Handler> = {
+    findEvents: (args, signal) =>
+        geminiProvider.findEvents(stringArg(args, 0), stringArg(args, 1), stringArg(args, 2), numberArg(args, 3), signal),
+    generateContentIdeas: (args, signal) => geminiProvider.generateContentIdeas(stringArg(args, 0), stringArg(args, 1), signal),
+    generateTrendingIdeas: (args, signal) => geminiProvider.generateTrendingIdeas(stringArg(args, 0), stringArg(args, 1), signal),
+    generateStockMetadata: (args, signal) =>
+        geminiProvider.generateStockMetadata(stringArg(args, 0), stringArg(args, 1), optionalImageArg(args, 2), optionalLanguageArg(args, 3), signal),
+    getGlobalHotTopics: (_args, signal) => geminiProvider.getGlobalHotTopics(signal),
+    generateKeywordStrategy: (args, signal) => geminiProvider.generateKeywordStrategy(stringArg(args, 0), signal),
+    generateInspirationalImage: (args, signal) => {
+        const contentType = stringArg(args, 1);
+        return geminiProvider.generateInspirationalImage(stringArg(args, 0), contentType, normalizeImageSettings(args[2], contentType), signal);
+    },
+};
+
+const isHandlerName = (value: string): value is keyof typeof handlers => Object.prototype.hasOwnProperty.call(handlers, value);
+
+const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new BadRequestError('The request body is too large.');
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new BadRequestError('The request body is not valid JSON.');
+    }
+};
+
+// Browsers always send Origin on a POST and mark cross-site requests in
+// Sec-Fetch-Site, so only the app's own pages get through. Requests without
+// an Origin come from outside a browser and are refused too.
+const isAllowedOrigin = (req: IncomingMessage, allowedOrigins: string[]): boolean => {
+    const origin = req.headers.origin;
+    const site = req.headers['sec-fetch-site'];
+    if (!origin || (site !== undefined && site !== 'same-origin')) {
+        return false;
+    }
+    try {
+        return new URL(origin).host === req.headers.host || allowedOrigins.includes(origin);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * A sliding window of request times per client. Returns 0 when the request
+ * may go ahead, otherwise how long until the client's next one would.
+ */
+const createRateLimiter = (limit: number) => {
+    const requests = new Map<string, number[]>();
+    let lastSweep = Date.now();
+
+    return (client: string): number => {
+        const now = Date.now();
+        // Forget clients that have gone quiet so the map does not grow without bound.
+        if (now - lastSweep > RATE_WINDOW_MS) {
+            lastSweep = now;
+            for (const [key, times] of requests) {
+                if (now - times[times.length - 1] >= RATE_WINDOW_MS) {
+                    requests.delete(key);
+                }
+            }
+        }
+        const recent = (requests.get(client) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+        if (recent.length >= limit) {
+            requests.set(client, recent);
+            return recent[0] + RATE_WINDOW_MS - now;
+        }
+        requests.set(client, [...recent, now]);
+        return 0;
+    };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown): void => {
+    if (error instanceof BadRequestError) {
+        sendJson(res, 400, { error: { kind: 'unknown', message: error.message } });
+        return;
+    }
+    const aiError = toAIError(error);
+    sendJson(res, STATUS_BY_KIND[aiError.kind], {
+        error: { kind: aiError.kind, message: aiError.message, retryAfterMs: aiError.retryAfterMs },
+    });
+};
+
+export interface AiApiOptions {
+    apiKey: string | undefined;
+    /** Public origins of the app, for when a reverse proxy rewrites the Host header. */
+    allowedOrigins?: string[];
+    /** Per client address; further requests get a 429 until the minute has passed. */
+    requestsPerMinute?: number;
+}
+
+/**
+ * Connect-style middleware: handles requests under `AI_API_PATH` and passes
+ * everything else to `next`.
+ */
+export const createAiApiMiddleware = ({ apiKey, allowedOrigins = [], requestsPerMinute = DEFAULT_REQUESTS_PER_MINUTE }: AiApiOptions) => {
+    setGeminiApiKey(apiKey ?? '');
+    const rateLimit = createRateLimiter(requestsPerMinute);
+
+    return async (req: IncomingMessage, res: ServerResponse, next: () => void): Promise<void> => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (!url.pathname.startsWith(AI_API_PATH)) {
+            next();
+            return;
+        }
+        const method = url.pathname.slice(AI_API_PATH.length);
+        if (!isHandlerName(method)) {
+            sendJson(res, 404, { error: { kind: 'unknown', message: `Unknown AI method "${method}".` } });
+            return;
+        }
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendJson(res, 405, { error: { kind: 'unknown', message: 'Use POST for AI requests.' } });
+            return;
+        }
+        if (!isAllowedOrigin(req, allowedOrigins)) {
+            sendJson(res, 403, { error: { kind: 'auth', message: "AI requests are only accepted from this app's own pages." } });
+            return;
+        }
+        const retryAfterMs = rateLimit(req.socket.remoteAddress ?? 'unknown');
+        if (retryAfterMs > 0) {
+            res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+            sendJson(res, 429, { error: { kind: 'rateLimit', message: 'Too many AI requests. Please wait a moment and try again.', retryAfterMs } });
+            return;
+        }
+
+        // The browser closing the connection cancels the upstream request.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                controller.abort(new AIError('cancelled'));
+            }
+        });
+
+        try {
+            const body = await readJsonBody(req);
+            const args = (body as { args?: unknown })?.args ?? [];
+            if (!Array.isArray(args)) {
+                throw new BadRequestError('"args" must be an array.');
+            }
+            const result = await handlers[method](args, controller.signal);
+            sendJson(res, 200, { result });
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                sendError(res, error);
+            }
+        }
+    };
+};
@@ -0,0 +1,77 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createAiApiMiddleware } from './aiApi';
+
+// Production server: the AI endpoints plus the static files from `vite build`.
+// Start it with `npm start` after `npm run build`; GEMINI_API_KEY, PORT,
+// AI_ALLOWED_ORIGINS and AI_REQUESTS_PER_MINUTE are read from the environment.
+
+const PORT = Number(process.env.PORT) || 3000;
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR ?? 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+};
+
+const isFile = async (filePath: string): Promise<boolean> => {
+    try {
+        return (await stat(filePath)).isFile();
+    } catch {
+        return false;
+    }
+};
+
+// Unknown paths get index.html so the single-page app can handle them.
+const serveStatic = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    let pathname: string;
+    try {
+        pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+        res.statusCode = 400;
+        res.end('Bad request.');
+        return;
+    }
+    const requested = path.resolve(STATIC_DIR, `.${pathname}`);
+    const inside = requested.startsWith(STATIC_DIR + path.sep);
+    const filePath = inside && (await isFile(requested)) ? requested : path.join(STATIC_DIR, 'index.html');
+    try {
+        const content = await readFile(filePath);
+        res.statusCode = 200;
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream');
+        // Vite fingerprints everything under assets/, so those can be cached forever.
+        res.setHeader('Cache-Control', filePath.includes(`${path.sep}assets${path.sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache');
+        res.end(req.method === 'HEAD' ? undefined : content);
+    } catch {
+        res.statusCode = 404;
+        res.end('Not found. Run `npm run build` before `npm start`.');
+    }
+};
+
+const aiApi = createAiApiMiddleware({
+    apiKey: process.env.GEMINI_API_KEY,
+    allowedOrigins: process.env.AI_ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean),
+    requestsPerMinute: Number(process.env.AI_REQUESTS_PER_MINUTE) || undefined,
+});
+
+createServer((req, res) => {
+    aiApi(req, res, () => {
+        serveStatic(req, res);
+    });
+}).listen(PORT, () => {
+    if (!process.env.GEMINI_API_KEY) {
+        console.warn('GEMINI_API_KEY is not set; AI requests will fail unless the app was built with AI_PROVIDER=fixture.');
+    }
+    console.log(`AI Content Engine listening on http://localhost:${PORT}`);
+});
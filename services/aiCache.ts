@@ -0,0 +1,249 @@
+import { openDatabase, withStore } from './indexedDb';
+import { hashString } from './hash';
+import { AIError } from './aiErrors';
+
+// Caches AI responses by call type and normalized arguments, in memory for the
+// session and in IndexedDB across reloads. Concurrent identical calls share a
+// single request, which runs on its own signal and is only cancelled once
+// every caller waiting on it has cancelled.
+
+export type CacheKind = 'events' | 'hotTopics' | 'keywordStrategy' | 'trends' | 'contentIdeas' | 'metadata' | 'image' | 'gallery';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long a response stays useful: news-driven topics go stale within hours,
+// while a month's events or an image's metadata barely change.
+const TTL_MS: Record<CacheKind, number> = {
+    events: 7 * DAY_MS,
+    hotTopics: 6 * HOUR_MS,
+    keywordStrategy: 3 * DAY_MS,
+    trends: DAY_MS,
+    contentIdeas: 7 * DAY_MS,
+    metadata: 7 * DAY_MS,
+    image: 7 * DAY_MS,
+    gallery: 7 * DAY_MS,
+};
+
+export interface CacheOptions {
+    /** Skip any cached response and replace it with a fresh one. */
+    refresh?: boolean;
+    /** Stops this caller waiting; the shared request stops when all its callers have. */
+    signal?: AbortSignal;
+}
+
+export interface CacheEntry {
+    key: string;
+    value: unknown;
+    expiresAt: number;
+}
+
+const DB_NAME = 'aice-cache';
+const STORE = 'responses';
+
+const memory = new Map<string, CacheEntry>();
+interface SharedRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    /** Callers that can still cancel; callers without a signal never do. */
+    cancellable: number;
+    /** Callers without a signal, which keep the request alive. */
+    committed: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+// Drop expired responses so the database doesn't grow without bound.
+const pruneExpired = (db: IDBDatabase): void => {
+    const request = db.transaction(STORE, 'readwrite').objectStore(STORE).index('expiresAt').openCursor(IDBKeyRange.upperBound(Date.now()));
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+            cursor.delete();
+            cursor.continue();
+        }
+    };
+};
+
+let pruned = false;
+
+const openCache = () =>
+    openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'key' }).createIndex('expiresAt', 'expiresAt');
+    }).then(db => {
+        if (!pruned) {
+            pruned = true;
+            pruneExpired(db);
+        }
+        return db;
+    });
+
+const MAX_KEY_STRING_LENGTH = 256;
+
+/** Case, spacing and object key order don't change the answer, so they don't change the key. */
+const normalize = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+        const text = value.trim().replace(/\s+/g, ' ').toLowerCase();
+        return text.length > MAX_KEY_STRING_LENGTH ? `#${text.length}:${hashString(value)}` : text;
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value as Record<string, unknown>)
+                .sort()
+                .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+                .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+        );
+    }
+    return value ?? null;
+};
+
+export const cacheKey = (kind: CacheKind, args: unknown[]): string => `${kind}:${JSON.stringify(normalize(args))}`;
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+    const cached = memory.get(key);
+    if (cached) {
+        return cached;
+    }
+    try {
+        const stored = await withStore<CacheEntry | undefined>(await openCache(), STORE, 'readonly', store => store.get(key));
+        if (stored) {
+            memory.set(key, stored);
+        }
+        return stored;
+    } catch {
+        return undefined;
+    }
+};
+
+let warnedAboutPersistence = false;
+
+const writeEntry = (entry: CacheEntry): void => {
+    memory.set(entry.key, entry);
+    openCache()
+        .then(db => withStore(db, STORE, 'readwrite', store => store.put(entry)))
+        .catch(error => {
+            // Without IndexedDB the cache still works for the session, so say so once.
+            if (!warnedAboutPersistence) {
+                warnedAboutPersistence = true;
+                console.warn('Failed to persist cached AI response:', error);
+            }
+        });
+};
+
+// Each caller gets its own promise, rejected as cancelled when its own signal
+// fires. The last caller to leave cancels the request itself.
+const join = <T>(key: string, shared: SharedRequest, signal?: AbortSignal): Promise<T> => {
+    if (!signal) {
+        shared.committed++;
+        return shared.promise as Promise<T>;
+    }
+    shared.cancellable++;
+    return new Promise<T>((resolve, reject) => {
+        const leave = () => {
+            reject(new AIError('cancelled'));
+            shared.cancellable--;
+            if (shared.cancellable === 0 && shared.committed === 0) {
+                shared.controller.abort();
+                // Released synchronously, so a caller that cancels and immediately
+                // asks again (as React does when re-running an effect) starts afresh.
+                if (inFlight.get(key) === shared) {
+                    inFlight.delete(key);
+                }
+            }
+        };
+        signal.addEventListener('abort', leave, { once: true });
+        (shared.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', leave));
+    });
+};
+
+/**
+ * Return a fresh cached response for this call, or run `call` and cache its
+ * result. Failures are never cached. A refresh always starts a new request,
+ * which later identical calls then share.
+ */
+export const cachedCall = <T>(
+    kind: CacheKind,
+    args: unknown[],
+    call: (signal: AbortSignal) => Promise<T>,
+    options: CacheOptions = {}
+): Promise<T> => {
+    // Checked before anything starts, so no request runs without a caller able to cancel it.
+    if (options.signal?.aborted) {
+        return Promise.reject(new AIError('cancelled'));
+    }
+    const key = cacheKey(kind, args);
+    const pending = options.refresh ? undefined : inFlight.get(key);
+    if (pending) {
+        return join(key, pending, options.signal);
+    }
+
+    const controller = new AbortController();
+    const promise = (async () => {
+        if (!options.refresh) {
+            const entry = await readEntry(key);
+            if (entry && entry.expiresAt > Date.now()) {
+                return entry.value as T;
+            }
+        }
+        const value = await call(controller.signal);
+        writeEntry({ key, value, expiresAt: Date.now() + TTL_MS[kind] });
+        return value;
+    })();
+
+    const shared: SharedRequest = { promise, controller, cancellable: 0, committed: 0 };
+    const release = () => {
+        if (inFlight.get(key) === shared) {
+            inFlight.delete(key);
+        }
+    };
+    inFlight.set(key, shared);
+    promise.then(release, release);
+    return join(key, shared, options.signal);
+};
+
+const isCacheKind = (value: string): value is CacheKind => Object.prototype.hasOwnProperty.call(TTL_MS, value);
+
+const kindOf = (key: string): CacheKind | null => {
+    const kind = key.slice(0, key.indexOf(':'));
+    return isCacheKind(kind) ? kind : null;
+};
+
+/**
+ * Every unexpired response, for exporting a workspace. Images are left out:
+ * they are large and travel in the image library instead.
+ */
+export const listCachedResponses = async (): Promise<CacheEntry[]> => {
+    let stored: CacheEntry[] = [];
+    try {
+        stored = await withStore<CacheEntry[]>(await openCache(), STORE, 'readonly', store => store.getAll());
+    } catch {
+        // Without IndexedDB only this session's responses exist.
+    }
+    const entries = new Map(stored.map(entry => [entry.key, entry]));
+    memory.forEach((entry, key) => entries.set(key, entry));
+    const now = Date.now();
+    return Array.from(entries.values()).filter(entry => {
+        const kind = kindOf(entry.key);
+        return kind !== null && kind !== 'image' && kind !== 'gallery' && entry.expiresAt > now;
+    });
+};
+
+/**
+ * Add responses from an imported workspace, so repeating its searches shows
+ * the same results. They count as fresh from the time of import. Returns how
+ * many were added.
+ */
+export const importCachedResponses = (entries: CacheEntry[]): number => {
+    let added = 0;
+    for (const entry of entries) {
+        const kind = kindOf(entry.key);
+        if (kind) {
+            writeEntry({ key: entry.key, value: entry.value, expiresAt: Date.now() + TTL_MS[kind] });
+            added++;
+        }
+    }
+    return added;
+};
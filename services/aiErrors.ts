@@ -0,0 +1,197 @@
+// A small taxonomy of AI failures so the UI can tell a bad API key from a
+// quota limit or a blocked prompt, and so only transient failures are retried.
+
+export type AIErrorKind = 'auth' | 'rateLimit' | 'safety' | 'parse' | 'network' | 'timeout' | 'unavailable' | 'cancelled' | 'unknown';
+
+const MESSAGES: Record<AIErrorKind, string> = {
+    auth: 'The AI service rejected the API key. Check that GEMINI_API_KEY is set to a valid Gemini key on the server.',
+    rateLimit: 'The AI quota or rate limit was reached. Wait a minute and try again.',
+    safety: 'The AI declined this request under its safety policy. Try rewording it.',
+    parse: 'The AI returned a response that could not be read. Please try again.',
+    network: 'Could not reach the AI service. Check your internet connection and try again.',
+    timeout: 'The AI took too long to respond. Please try again.',
+    unavailable: 'The AI service is temporarily unavailable. Please try again shortly.',
+    cancelled: 'The request was cancelled.',
+    unknown: 'An unknown error occurred.',
+};
+
+const TRANSIENT_KINDS: AIErrorKind[] = ['rateLimit', 'network', 'timeout', 'unavailable'];
+
+export class AIError extends Error {
+    readonly kind: AIErrorKind;
+    /** Server-suggested wait before retrying, when the API provided one. */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: AIErrorKind, message = MESSAGES[kind], options: { cause?: unknown; retryAfterMs?: number } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AIError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return TRANSIENT_KINDS.includes(this.kind);
+    }
+}
+
+export const isAIErrorKind = (value: unknown): value is AIErrorKind => typeof value === 'string' && Object.hasOwn(MESSAGES, value);
+
+export const isCancelled = (error: unknown): boolean => error instanceof AIError && error.kind === 'cancelled';
+
+// The Gemini API reports the wait it wants in a RetryInfo detail, e.g. "retryDelay": "37s".
+const retryDelayFrom = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+const kindFromStatus = (status: number, message: string): AIErrorKind | null => {
+    if (status === 401 || status === 403 || (status === 400 && /API[_ ]?KEY/i.test(message))) {
+        return 'auth';
+    }
+    if (status === 429) {
+        return 'rateLimit';
+    }
+    if (status === 408 || status === 504) {
+        return 'timeout';
+    }
+    if (status >= 500) {
+        return 'unavailable';
+    }
+    return null;
+};
+
+const kindFromMessage = (message: string): AIErrorKind | null => {
+    if (/API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|API key not valid/i.test(message)) {
+        return 'auth';
+    }
+    if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return 'rateLimit';
+    }
+    if (/DEADLINE_EXCEEDED/.test(message)) {
+        return 'timeout';
+    }
+    if (/UNAVAILABLE|overloaded/i.test(message)) {
+        return 'unavailable';
+    }
+    // Browsers say "Failed to fetch" or "NetworkError"; Node says "fetch failed" with the cause's code.
+    if (/Failed to fetch|fetch failed|NetworkError|network request failed|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/i.test(message)) {
+        return 'network';
+    }
+    return null;
+};
+
+/**
+ * Classify any thrown value. `fallback` is the message for failures that fit
+ * no other kind; classified failures get a message describing their kind.
+ */
+export const toAIError = (error: unknown, fallback?: string): AIError => {
+    if (error instanceof AIError) {
+        return error;
+    }
+    const cause = error instanceof Error ? (error.cause as { code?: unknown } | undefined) : undefined;
+    const message = `${error instanceof Error ? error.message : String(error)}${typeof cause?.code === 'string' ? ` (${cause.code})` : ''}`;
+    const unknownMessage = fallback ?? (error instanceof Error && error.message ? error.message : MESSAGES.unknown);
+
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+        return new AIError('timeout', undefined, { cause: error });
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return new AIError('cancelled', undefined, { cause: error });
+    }
+    if (error instanceof SyntaxError) {
+        return new AIError('parse', undefined, { cause: error });
+    }
+
+    const status = (error as { status?: unknown })?.status;
+    const kind = (typeof status === 'number' ? kindFromStatus(status, message) : null) ?? kindFromMessage(message);
+    if (kind) {
+        return new AIError(kind, undefined, { cause: error, retryAfterMs: kind === 'rateLimit' ? retryDelayFrom(message) : undefined });
+    }
+    if (error instanceof TypeError && typeof navigator !== 'undefined' && !navigator.onLine) {
+        return new AIError('network', undefined, { cause: error });
+    }
+    return new AIError('unknown', unknownMessage, { cause: error });
+};
+
+export interface RetryOptions {
+    /** Per attempt; a slow attempt is aborted and counts as a transient failure. */
+    timeoutMs: number;
+    signal?: AbortSignal;
+    retries?: number;
+    baseDelayMs?: number;
+}
+
+const DEFAULT_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+// A longer suggested wait usually means a daily quota is spent, so give up instead.
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AIError('cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+// Settles as soon as the call does, the timeout fires or the caller cancels,
+// and aborts the call's own signal in the latter two cases.
+const attempt = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> =>
+    new Promise((resolve, reject) => {
+        const controller = new AbortController();
+        const cleanup = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const fail = (error: AIError) => {
+            cleanup();
+            controller.abort(error);
+            reject(error);
+        };
+        const onAbort = () => fail(new AIError('cancelled'));
+        const timer = setTimeout(() => fail(new AIError('timeout')), timeoutMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        call(controller.signal).then(
+            value => {
+                cleanup();
+                resolve(value);
+            },
+            error => {
+                cleanup();
+                reject(toAIError(error));
+            }
+        );
+    });
+
+/**
+ * Run `call` with a timeout, retrying transient failures with exponential
+ * backoff and jitter. Rejects with an `AIError`, of kind 'cancelled' once
+ * `signal` aborts.
+ */
+export const withRetry = async <T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    { timeoutMs, signal, retries = DEFAULT_RETRIES, baseDelayMs = BASE_DELAY_MS }: RetryOptions
+): Promise<T> => {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+        if (signal?.aborted) {
+            throw new AIError('cancelled');
+        }
+        try {
+            return await attempt(call, timeoutMs, signal);
+        } catch (error) {
+            const aiError = toAIError(error);
+            const delay = aiError.retryAfterMs ?? baseDelayMs * 2 ** attemptNumber + Math.random() * baseDelayMs;
+            if (!aiError.retryable || attemptNumber >= retries || delay > MAX_RETRY_DELAY_MS) {
+                throw aiError;
+            }
+            console.warn(`AI request failed (${aiError.kind}), retrying in ${Math.round(delay)} ms.`);
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,51 @@
+import type { AIContent, AITrendReport, EventSearchResult, HotTopic, ImageInput, ImageSettings, KeywordStrategy, MetadataLanguage, StockMetadata } from '../types';
+import type { Validated } from './responseValidation';
+import { proxyProvider } from './proxyProvider';
+import { fixtureProvider } from './fixtureProvider';
+
+export type AIProviderName = 'gemini' | 'fixture';
+
+/**
+ * Everything the app asks of a generative backend. `geminiService` delegates
+ * each of its exports to whichever provider is selected here, so components
+ * never talk to a backend directly. Failures should be thrown as `AIError`s,
+ * and `signal` aborts a request that is no longer wanted. Structured answers
+ * come with the issues found while validating them, so the app can report
+ * what was repaired or discarded.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  findEvents(countryName: string, monthName: string, countryCode: string, year: number, signal?: AbortSignal): Promise<Validated<EventSearchResult>>;
+  generateContentIdeas(eventName: string, contentType: string, signal?: AbortSignal): Promise<Validated<AIContent>>;
+  generateTrendingIdeas(theme: string, contentType: string, signal?: AbortSignal): Promise<Validated<AITrendReport>>;
+  /** Titles and keywords are written natively in `language`, English when omitted. */
+  generateStockMetadata(topic: string, contentType: string, image?: ImageInput, language?: MetadataLanguage, signal?: AbortSignal): Promise<Validated<StockMetadata[]>>;
+  getGlobalHotTopics(signal?: AbortSignal): Promise<Validated<HotTopic[]>>;
+  generateKeywordStrategy(topic: string, signal?: AbortSignal): Promise<Validated<KeywordStrategy>>;
+  /** Resolves to base64-encoded image data without a data-URL prefix. */
+  generateInspirationalImage(prompt: string, contentType: string, settings: ImageSettings, signal?: AbortSignal): Promise<string>;
+}
+
+const providers: Record<AIProviderName, AIProvider> = {
+  // The browser reaches Gemini through the app's server, which holds the key.
+  gemini: proxyProvider,
+  fixture: fixtureProvider,
+};
+
+const isProviderName = (value: unknown): value is AIProviderName =>
+  typeof value === 'string' && Object.hasOwn(providers, value);
+
+// `AI_PROVIDER` is injected at build time by vite.config.ts, which picks
+// fixtures when no API key is configured. The key itself is never injected.
+const resolveDefaultProvider = (): AIProviderName => {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+  return isProviderName(configured) ? configured : 'fixture';
+};
+
+let activeProvider: AIProvider = providers[resolveDefaultProvider()];
+
+export const getProvider = (): AIProvider => activeProvider;
+
+export const setProvider = (name: AIProviderName): void => {
+  activeProvider = providers[name];
+};
@@ -0,0 +1,163 @@
+// Pure calendar arithmetic used by the holiday engine. All dates are UTC
+// midnights so that callers can format them without timezone drift.
+
+const DAY_MS = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+const SYNODIC_MONTH = 29.530588861;
+
+export const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export const toISODate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/** Whole days from `today`'s local calendar date to an ISO date; negative once it has passed. */
+export const daysUntil = (isoDate: string, today: Date = new Date()): number =>
+    Math.round((new Date(`${isoDate.slice(0, 10)}T00:00:00Z`).getTime() - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / DAY_MS);
+
+/** `n` counts from 1; a negative `n` counts back from the end of the month (-1 is the last). */
+export const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): Date => {
+    if (n > 0) {
+        const first = utcDate(year, month, 1);
+        const shift = (weekday - first.getUTCDay() + 7) % 7;
+        return addDays(first, shift + (n - 1) * 7);
+    }
+    const last = utcDate(year, month + 1, 0);
+    const shift = (last.getUTCDay() - weekday + 7) % 7;
+    return addDays(last, -shift + (n + 1) * 7);
+};
+
+export const weekdayOnOrAfter = (date: Date, weekday: number): Date =>
+    addDays(date, (weekday - date.getUTCDay() + 7) % 7);
+
+/** Western (Gregorian) Easter Sunday, using the anonymous Gregorian algorithm. */
+export const easterSunday = (year: number): Date => {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return utcDate(year, month, day);
+};
+
+/** Orthodox Easter Sunday in the Gregorian calendar (valid 1900-2099). */
+export const orthodoxEasterSunday = (year: number): Date => {
+    const a = year % 4;
+    const b = year % 7;
+    const c = year % 19;
+    const d = (19 * c + 15) % 30;
+    const e = (2 * a + 4 * b - d + 34) % 7;
+    const month = Math.floor((d + e + 114) / 31);
+    const day = ((d + e + 114) % 31) + 1;
+    return addDays(utcDate(year, month, day), 13);
+};
+
+const jdToDate = (jd: number): Date => new Date((jd - UNIX_EPOCH_JD) * DAY_MS);
+
+/**
+ * Gregorian date of a day in the tabular (arithmetic) Islamic calendar. Real
+ * observance depends on moon sighting and can differ by a day or two.
+ */
+export const islamicToGregorian = (hijriYear: number, month: number, day: number): Date => {
+    const jd = day
+        + Math.ceil(29.5 * (month - 1))
+        + (hijriYear - 1) * 354
+        + Math.floor((3 + 11 * hijriYear) / 30)
+        + 1948439.5 - 1;
+    return jdToDate(jd);
+};
+
+/** Hijri years that can have days falling inside the given Gregorian year. */
+export const islamicYearsIn = (year: number): number[] => {
+    const approx = Math.floor(((year - 622) * 33) / 32);
+    return [approx - 1, approx, approx + 1, approx + 2];
+};
+
+const sin = (degrees: number): number => Math.sin((degrees * Math.PI) / 180);
+
+// Time of a new (phase 0) or full (phase 0.5) moon as a Julian Ephemeris Day,
+// using the main periodic terms from Meeus, "Astronomical Algorithms", ch. 49.
+const moonPhaseJDE = (k: number): number => {
+    const T = k / 1236.85;
+    const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+    const M = 2.5534 + 29.1053567 * k;
+    const Mp = 201.5643 + 385.81693528 * k;
+    const F = 160.7108 + 390.67050284 * k;
+    const omega = 124.7746 - 1.56375588 * k;
+    const isFull = Math.abs(k - Math.floor(k) - 0.5) < 0.01;
+
+    let jde = 2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * T * T;
+    jde += (isFull ? -0.40614 : -0.4072) * sin(Mp)
+        + (isFull ? 0.17302 : 0.17241) * E * sin(M)
+        + (isFull ? 0.01614 : 0.01608) * sin(2 * Mp)
+        + (isFull ? 0.01043 : 0.01039) * sin(2 * F)
+        + (isFull ? 0.00734 : 0.00739) * E * sin(Mp - M)
+        - (isFull ? 0.00515 : 0.00514) * E * sin(Mp + M)
+        + (isFull ? 0.00209 : 0.00208) * E * E * sin(2 * M)
+        - 0.00111 * sin(Mp - 2 * F)
+        - 0.00057 * sin(Mp + 2 * F)
+        + 0.00056 * E * sin(2 * Mp + M)
+        - 0.00042 * sin(3 * Mp)
+        + 0.00042 * E * sin(M + 2 * F)
+        + 0.00038 * E * sin(M - 2 * F)
+        - 0.00024 * E * sin(2 * Mp - M)
+        - 0.00017 * sin(omega);
+    return jde;
+};
+
+// Local calendar day on which a moon phase falls, for a UTC offset in hours.
+const moonPhaseLocalDate = (k: number, utcOffset: number): Date => {
+    const instant = jdToDate(moonPhaseJDE(k) + utcOffset / 24);
+    return utcDate(instant.getUTCFullYear(), instant.getUTCMonth() + 1, instant.getUTCDate());
+};
+
+const lunationIndex = (date: Date): number =>
+    Math.floor((date.getTime() / DAY_MS + UNIX_EPOCH_JD - 2451550.09766) / SYNODIC_MONTH);
+
+/** First new or full moon falling on or after `date`, in local time. */
+export const moonPhaseOnOrAfter = (date: Date, phase: 'new' | 'full', utcOffset: number): Date => {
+    const fraction = phase === 'full' ? 0.5 : 0;
+    for (let k = lunationIndex(date) - 1; ; k++) {
+        const candidate = moonPhaseLocalDate(k + fraction, utcOffset);
+        if (candidate.getTime() >= date.getTime()) {
+            return candidate;
+        }
+    }
+};
+
+/** Last new moon falling on or before `date`, in local time. */
+export const newMoonOnOrBefore = (date: Date, utcOffset: number): Date => {
+    for (let k = lunationIndex(date) + 1; ; k--) {
+        const candidate = moonPhaseLocalDate(k, utcOffset);
+        if (candidate.getTime() <= date.getTime()) {
+            return candidate;
+        }
+    }
+};
+
+// Approximate dates of the principal solar terms (zhongqi). Lunar month N of
+// the Chinese calendar is the one containing the Nth principal term.
+const PRINCIPAL_TERMS: [number, number][] = [
+    [2, 19], [3, 21], [4, 20], [5, 21], [6, 21], [7, 23],
+    [8, 23], [9, 23], [10, 23], [11, 22], [12, 22], [1, 20],
+];
+
+/**
+ * Approximate Gregorian date of a day in the Chinese lunisolar calendar for the
+ * lunar year that begins in `year`. Korea uses the same rules at UTC+9.
+ */
+export const chineseToGregorian = (year: number, month: number, day: number, utcOffset = 8): Date => {
+    const [termMonth, termDay] = PRINCIPAL_TERMS[month - 1];
+    const termYear = month === 12 ? year + 1 : year;
+    const monthStart = newMoonOnOrBefore(utcDate(termYear, termMonth, termDay), utcOffset);
+    return addDays(monthStart, day - 1);
+};
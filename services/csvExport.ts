@@ -0,0 +1,105 @@
+import type { StockMetadata } from '../types';
+import { ContentType } from '../types';
+
+/** One uploaded file and the metadata generated for it on a single platform. */
+export interface CsvRow {
+    filename: string;
+    contentType: ContentType;
+    metadata: StockMetadata;
+    /** Platform category; a number for Adobe Stock, a name for Shutterstock. */
+    category?: string;
+}
+
+interface PortalCsvFormat {
+    delimiter: ',' | ';';
+    columns: { header: string; value: (row: CsvRow) => string }[];
+    categories?: { value: string; label: string }[];
+}
+
+const isIllustration = (contentType: ContentType): boolean =>
+    contentType === ContentType.VECTOR || contentType === ContentType.ILLUSTRATION;
+
+// Adobe Stock identifies categories by number in its CSV upload.
+const ADOBE_STOCK_CATEGORIES = [
+    'Animals', 'Buildings and Architecture', 'Business', 'Drinks', 'The Environment', 'States of Mind', 'Food',
+    'Graphic Resources', 'Hobbies and Leisure', 'Industry', 'Landscapes', 'Lifestyle', 'People', 'Plants and Flowers',
+    'Culture and Religion', 'Science', 'Social Issues', 'Sports', 'Technology', 'Transport', 'Travel',
+].map((label, index) => ({ value: String(index + 1), label }));
+
+const SHUTTERSTOCK_CATEGORIES = [
+    'Abstract', 'Animals/Wildlife', 'Arts', 'Backgrounds/Textures', 'Beauty/Fashion', 'Buildings/Landmarks',
+    'Business/Finance', 'Education', 'Food and drink', 'Healthcare/Medical', 'Holidays', 'Industrial', 'Interiors',
+    'Miscellaneous', 'Nature', 'Objects', 'Parks/Outdoor', 'People', 'Religion', 'Science', 'Signs/Symbols',
+    'Sports/Recreation', 'Technology', 'Transportation', 'Vintage',
+].map(label => ({ value: label, label }));
+
+// Column layouts of each portal's bulk metadata CSV, in the order the portal expects.
+export const PORTAL_CSV_FORMATS: Record<string, PortalCsvFormat> = {
+    'Adobe Stock': {
+        delimiter: ',',
+        columns: [
+            { header: 'Filename', value: row => row.filename },
+            { header: 'Title', value: row => row.metadata.title },
+            { header: 'Keywords', value: row => row.metadata.keywords.join(', ') },
+            { header: 'Category', value: row => row.category ?? '' },
+            { header: 'Releases', value: () => '' },
+        ],
+        categories: ADOBE_STOCK_CATEGORIES,
+    },
+    'Shutterstock': {
+        delimiter: ',',
+        columns: [
+            { header: 'Filename', value: row => row.filename },
+            { header: 'Description', value: row => row.metadata.title },
+            { header: 'Keywords', value: row => row.metadata.keywords.join(',') },
+            { header: 'Categories', value: row => row.category ?? '' },
+            { header: 'Editorial', value: () => 'no' },
+            { header: 'Mature content', value: () => 'no' },
+            { header: 'illustration', value: row => (isIllustration(row.contentType) ? 'yes' : 'no') },
+        ],
+        categories: SHUTTERSTOCK_CATEGORIES,
+    },
+    'Freepik': {
+        delimiter: ';',
+        columns: [
+            { header: 'File name', value: row => row.filename },
+            { header: 'Title', value: row => row.metadata.title },
+            { header: 'Keywords', value: row => row.metadata.keywords.join(',') },
+            { header: 'Prompt', value: () => '' },
+            { header: 'Base-Model', value: () => '' },
+        ],
+    },
+    'Vecteezy': {
+        delimiter: ',',
+        columns: [
+            { header: 'Filename', value: row => row.filename },
+            { header: 'Title', value: row => row.metadata.title },
+            { header: 'Description', value: row => row.metadata.title },
+            { header: 'Keywords', value: row => row.metadata.keywords.join(',') },
+            { header: 'License', value: () => 'pro' },
+        ],
+    },
+};
+
+export const categoriesFor = (platform: string) => PORTAL_CSV_FORMATS[platform]?.categories ?? [];
+
+export const hasCsvFormat = (platform: string): boolean => Object.hasOwn(PORTAL_CSV_FORMATS, platform);
+
+// RFC 4180 quoting: wrap in quotes when needed and double any embedded quotes.
+const csvCell = (value: string, delimiter: string): string =>
+    /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Build the bulk upload CSV for one platform. Rows for other platforms are ignored. */
+export const buildPortalCsv = (platform: string, rows: CsvRow[]): string => {
+    const format = PORTAL_CSV_FORMATS[platform];
+    if (!format) {
+        throw new Error(`No CSV upload format is known for ${platform}.`);
+    }
+    const lines = [
+        format.columns.map(column => csvCell(column.header, format.delimiter)).join(format.delimiter),
+        ...rows
+            .filter(row => row.metadata.platform === platform)
+            .map(row => format.columns.map(column => csvCell(column.value(row), format.delimiter)).join(format.delimiter)),
+    ];
+    return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,139 @@
+import type { Event } from '../types';
+import {
+    utcDate,
+    addDays,
+    toISODate,
+    nthWeekdayOfMonth,
+    weekdayOnOrAfter,
+    easterSunday,
+    orthodoxEasterSunday,
+    islamicToGregorian,
+    islamicYearsIn,
+    chineseToGregorian,
+    moonPhaseOnOrAfter,
+} from './calendarMath';
+import { HOLIDAYS_BY_COUNTRY } from './holidayRules';
+import type { HolidayRule } from './holidayRules';
+
+// Dates a rule produces for the given Gregorian year. Lunar rules are
+// evaluated for the neighbouring cycles too, since their years do not line up
+// with the Gregorian one.
+const resolveRule = (rule: HolidayRule, year: number): Date[] => {
+    switch (rule.kind) {
+        case 'fixed':
+            return [utcDate(year, rule.month, rule.day)];
+        case 'nthWeekday':
+            return [nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n)];
+        case 'weekdayOnOrAfter':
+            return [weekdayOnOrAfter(utcDate(year, rule.month, rule.day), rule.weekday)];
+        case 'easter':
+            return [addDays(rule.orthodox ? orthodoxEasterSunday(year) : easterSunday(year), rule.offset)];
+        case 'islamic':
+            return islamicYearsIn(year).map(hijriYear => islamicToGregorian(hijriYear, rule.month, rule.day));
+        case 'chinese':
+            return [year - 1, year].map(lunarYear => chineseToGregorian(lunarYear, rule.month, rule.day, rule.utcOffset));
+        case 'moon':
+            return [addDays(moonPhaseOnOrAfter(utcDate(year, rule.month, rule.day), rule.phase, rule.utcOffset), rule.offset ?? 0)];
+        case 'custom':
+            return [rule.date(year)];
+    }
+};
+
+/**
+ * Rule-based holidays for a country, sorted by date. Pass `month` (1-12) to
+ * limit the result to a single month. Countries without rules yield an empty list.
+ */
+export const getHolidays = (countryCode: string, year: number, month?: number): Event[] => {
+    const definitions = HOLIDAYS_BY_COUNTRY[countryCode] || [];
+    const events: Event[] = [];
+    for (const definition of definitions) {
+        for (const date of resolveRule(definition.rule, year)) {
+            if (date.getUTCFullYear() !== year || (month && date.getUTCMonth() + 1 !== month)) {
+                continue;
+            }
+            events.push({
+                name: definition.name,
+                description: definition.description,
+                date: toISODate(date),
+                country: countryCode,
+                source: 'calendar',
+            });
+        }
+    }
+    return events.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const STOP_WORDS = new Set(['the', 'of', 'and', 'festival', 'national', 'holiday', 's']);
+
+// Reduce an event name to its significant words so that "St. Patrick's Day"
+// and "Saint Patrick's Day Celebrations" can be recognised as the same event.
+const nameTokens = (name: string): string[] =>
+    name
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .replace(/\bst\b\.?/g, 'saint')
+        .replace(/['’]s\b/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(token => token && !STOP_WORDS.has(token));
+
+const isSameEvent = (a: Event, b: Event): boolean => {
+    const tokensA = nameTokens(a.name);
+    const tokensB = nameTokens(b.name);
+    if (tokensA.length === 0 || tokensB.length === 0) {
+        return false;
+    }
+    const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+    return shorter.every(token => longer.includes(token));
+};
+
+/**
+ * Merge AI-found events into the rule-based holidays. Calendar holidays keep
+ * their computed date; a matching AI event only contributes its description.
+ * AI events dated outside `month` (when given) are treated as wrong and dropped.
+ */
+export const mergeEvents = (holidays: Event[], aiEvents: Event[], month?: number): Event[] => {
+    const merged = holidays.map(holiday => ({ ...holiday }));
+    for (const aiEvent of aiEvents) {
+        const match = merged.find(holiday => holiday.source === 'calendar' && isSameEvent(holiday, aiEvent));
+        if (match) {
+            if (aiEvent.description && aiEvent.description.length > match.description.length) {
+                match.description = aiEvent.description;
+            }
+            continue;
+        }
+        const aiMonth = Number(aiEvent.date?.slice(5, 7));
+        if (month && aiMonth && aiMonth !== month) {
+            continue;
+        }
+        merged.push({ ...aiEvent, source: 'ai' });
+    }
+    return merged.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+};
+
+/** The countries an event applies to, whether or not it has been merged across markets. */
+export const eventCountries = (event: Event): string[] => event.countries ?? [event.country];
+
+/**
+ * Combine per-country event lists, collapsing holidays shared across markets
+ * (same event on the same date, e.g. Christmas) into a single event that lists
+ * every country it applies to.
+ */
+export const mergeCountryEvents = (eventLists: Event[][]): Event[] => {
+    const merged: Event[] = [];
+    for (const event of eventLists.flat()) {
+        const match = merged.find(existing => existing.date === event.date && isSameEvent(existing, event));
+        if (!match) {
+            merged.push({ ...event, countries: eventCountries(event) });
+            continue;
+        }
+        match.countries = Array.from(new Set([...eventCountries(match), ...eventCountries(event)]));
+        if (event.source === 'calendar') {
+            match.source = 'calendar';
+        }
+        if (event.description.length > match.description.length) {
+            match.description = event.description;
+        }
+    }
+    return merged.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+};
@@ -0,0 +1,141 @@
+import type { AIContent, AITrendReport, Event, EventSearchResult, HotTopic, ImageInput, ImageSettings, KeywordStrategy, MetadataLanguage, StockMetadata } from '../types';
+import { METADATA_LANGUAGES, MONTHS } from '../constants';
+import type { AIProvider } from './aiProvider';
+import { AIError } from './aiErrors';
+import { noIssues } from './responseValidation';
+import type { Validated } from './responseValidation';
+import {
+  EVENT_FIXTURES,
+  HOT_TOPIC_FIXTURES,
+  CONTENT_IDEA_FIXTURES,
+  SELLING_CONCEPT_FIXTURES,
+  TREND_IDEA_FIXTURES,
+  TREND_AUDIENCE_TIP_FIXTURE,
+  UPLOAD_TIP_FIXTURE,
+  METADATA_PLATFORM_FIXTURES,
+  METADATA_KEYWORD_FIXTURES,
+  METADATA_TITLE_FIXTURES,
+  KEYWORD_STRATEGY_FIXTURES,
+  IMAGE_FIXTURES,
+} from './fixtures';
+
+// A short, fixed delay keeps loading states visible without making demos slow.
+const FIXTURE_LATENCY_MS = 300;
+
+const respond = <T>(value: T, signal?: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), FIXTURE_LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new AIError('cancelled'));
+    }, { once: true });
+  });
+
+// Fixtures are well-formed, so there is never anything to report.
+const respondChecked = <T>(value: T, signal?: AbortSignal): Promise<Validated<T>> => respond(noIssues(value), signal);
+
+const fill = (template: string, subject: string): string => template.split('{subject}').join(subject);
+
+const fillAll = (templates: string[], subject: string): string[] => templates.map(t => fill(t, subject));
+
+// Stable string hash so the same prompt always maps to the same fixture.
+const hash = (value: string): number => {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const subjectOf = (topic: string, contentType: string): string => topic.trim() || `${contentType} content`;
+
+const findEvents = (countryName: string, monthName: string, countryCode: string, year: number, signal?: AbortSignal): Promise<Validated<EventSearchResult>> => {
+  const month = MONTHS.find(m => m.name === monthName)?.value;
+  const events: Event[] = (month ? EVENT_FIXTURES[month] : []).map(fixture => ({
+    name: fixture.name,
+    description: fixture.description,
+    date: `${year}-${pad(month!)}-${pad(fixture.day)}`,
+    country: countryCode,
+  }));
+  return respondChecked({ events, sources: [] }, signal);
+};
+
+const generateContentIdeas = (eventName: string, contentType: string, signal?: AbortSignal): Promise<Validated<AIContent>> =>
+  respondChecked({
+    ideas: CONTENT_IDEA_FIXTURES.map(idea => ({
+      title: fill(idea.title, eventName),
+      description: fill(idea.description, eventName),
+      keywords: [eventName.toLowerCase(), contentType.toLowerCase(), ...idea.keywords],
+    })),
+    uploadTip: fill(UPLOAD_TIP_FIXTURE, eventName),
+    topSellingConcepts: SELLING_CONCEPT_FIXTURES.map(concept => ({
+      ...concept,
+      description: fill(concept.description, eventName),
+      keywords: [eventName.toLowerCase(), ...concept.keywords],
+    })),
+  }, signal);
+
+const generateTrendingIdeas = (theme: string, contentType: string, signal?: AbortSignal): Promise<Validated<AITrendReport>> =>
+  respondChecked({
+    ideas: TREND_IDEA_FIXTURES.map(idea => ({
+      title: fill(idea.title, theme),
+      description: fill(idea.description, theme),
+      keywords: [theme.toLowerCase(), contentType.toLowerCase(), ...idea.keywords],
+    })),
+    audienceTip: fill(TREND_AUDIENCE_TIP_FIXTURE, theme),
+  }, signal);
+
+const generateStockMetadata = (
+  topic: string,
+  contentType: string,
+  image?: ImageInput,
+  language?: MetadataLanguage,
+  signal?: AbortSignal
+): Promise<Validated<StockMetadata[]>> => {
+  const subject = subjectOf(topic, contentType);
+  // Fixtures stay in English; other languages are only labelled so variants can be told apart.
+  const languageLabel = language && language !== 'en' ? ` (${METADATA_LANGUAGES.find(l => l.code === language)?.nativeName ?? language})` : '';
+  const topicKeywords = subject.toLowerCase().split(/[\s,]+/).filter(word => word.length > 2);
+  const keywords = Array.from(new Set([...topicKeywords, contentType.toLowerCase(), ...METADATA_KEYWORD_FIXTURES]));
+  const titlePrefix = image ? 'Uploaded' : 'Creative';
+  return respondChecked(
+    METADATA_PLATFORM_FIXTURES.map((platform, index) => ({
+      platform,
+      title: `${titlePrefix} ${contentType.toLowerCase()} of ${subject}, ${METADATA_TITLE_FIXTURES[index % METADATA_TITLE_FIXTURES.length]}${languageLabel}`,
+      // Rotate the tail so each platform gets a slightly different ordering.
+      keywords: [...topicKeywords, ...keywords.slice(topicKeywords.length + index), ...keywords.slice(topicKeywords.length, topicKeywords.length + index)],
+    })),
+    signal
+  );
+};
+
+const getGlobalHotTopics = (signal?: AbortSignal): Promise<Validated<HotTopic[]>> => respondChecked(HOT_TOPIC_FIXTURES.map(topic => ({ ...topic })), signal);
+
+const generateKeywordStrategy = (topic: string, signal?: AbortSignal): Promise<Validated<KeywordStrategy>> =>
+  respondChecked({
+    primaryKeywords: fillAll(KEYWORD_STRATEGY_FIXTURES.primaryKeywords, topic.toLowerCase()),
+    longTailKeywords: fillAll(KEYWORD_STRATEGY_FIXTURES.longTailKeywords, topic.toLowerCase()),
+    relatedConcepts: fillAll(KEYWORD_STRATEGY_FIXTURES.relatedConcepts, topic.toLowerCase()),
+  }, signal);
+
+// Callers fire several identical prompts in parallel for a gallery, so vary
+// the pick per call while keeping the sequence itself deterministic.
+let imageCallCount = 0;
+
+const generateInspirationalImage = (prompt: string, contentType: string, settings: ImageSettings, signal?: AbortSignal): Promise<string> => {
+  const index = (hash(`${contentType}:${prompt}:${settings.style}`) + imageCallCount++) % IMAGE_FIXTURES.length;
+  return respond(IMAGE_FIXTURES[index], signal);
+};
+
+export const fixtureProvider: AIProvider = {
+  name: 'fixture',
+  findEvents,
+  generateContentIdeas,
+  generateTrendingIdeas,
+  generateStockMetadata,
+  getGlobalHotTopics,
+  generateKeywordStrategy,
+  generateInspirationalImage,
+};
@@ -0,0 +1,121 @@
+import type { HotTopic } from '../types';
+
+// Recorded responses served by the fixture provider. Entries with a
+// `{subject}` placeholder are filled in with the caller's topic, theme or
+// event name so that the output still reads naturally in every tab.
+
+export interface EventFixture {
+  day: number;
+  name: string;
+  description: string;
+}
+
+/** Seasonal events keyed by month number (1-12). */
+export const EVENT_FIXTURES: Record<number, EventFixture[]> = {
+  1: [
+    { day: 1, name: "New Year's Day", description: 'The first day of the year, celebrated with fireworks, resolutions and fresh starts.' },
+    { day: 24, name: 'International Day of Education', description: 'A UN observance highlighting learning, classrooms and access to education.' },
+  ],
+  2: [
+    { day: 4, name: 'World Cancer Day', description: 'A global awareness day focused on prevention, research and support.' },
+    { day: 14, name: "Valentine's Day", description: 'A celebration of love and friendship, with flowers, cards and romantic dinners.' },
+  ],
+  3: [
+    { day: 8, name: "International Women's Day", description: 'Celebrating the social, economic and cultural achievements of women.' },
+    { day: 20, name: 'Spring Equinox', description: 'The astronomical start of spring in the northern hemisphere.' },
+  ],
+  4: [
+    { day: 7, name: 'World Health Day', description: 'A WHO observance drawing attention to global health priorities.' },
+    { day: 22, name: 'Earth Day', description: 'Worldwide events supporting environmental protection and sustainability.' },
+  ],
+  5: [
+    { day: 1, name: 'International Workers\' Day', description: 'A celebration of labourers and the working classes.' },
+    { day: 20, name: 'World Bee Day', description: 'Raising awareness of pollinators and their role in food security.' },
+  ],
+  6: [
+    { day: 5, name: 'World Environment Day', description: 'The UN\'s principal day for encouraging environmental awareness.' },
+    { day: 21, name: 'Summer Solstice', description: 'The longest day of the year in the northern hemisphere.' },
+  ],
+  7: [
+    { day: 17, name: 'World Emoji Day', description: 'A playful celebration of emoji culture and digital communication.' },
+    { day: 30, name: 'International Day of Friendship', description: 'A day promoting friendship between peoples, cultures and countries.' },
+  ],
+  8: [
+    { day: 12, name: 'International Youth Day', description: 'Highlighting the issues and achievements of young people worldwide.' },
+    { day: 19, name: 'World Photography Day', description: 'A celebration of the art, craft, science and history of photography.' },
+  ],
+  9: [
+    { day: 1, name: 'Back to School Season', description: 'Students and teachers return to classrooms after the summer break.' },
+    { day: 27, name: 'World Tourism Day', description: 'Promoting awareness of the social and economic value of tourism.' },
+  ],
+  10: [
+    { day: 10, name: 'World Mental Health Day', description: 'Raising awareness of mental health issues and mobilising support.' },
+    { day: 31, name: 'Halloween', description: 'Costumes, pumpkins, trick-or-treating and spooky decorations.' },
+  ],
+  11: [
+    { day: 13, name: 'World Kindness Day', description: 'Encouraging acts of kindness in communities around the world.' },
+    { day: 28, name: 'Black Friday', description: 'The start of the holiday shopping season with major retail sales.' },
+  ],
+  12: [
+    { day: 25, name: 'Christmas Day', description: 'Family gatherings, gift giving, decorated trees and festive meals.' },
+    { day: 31, name: "New Year's Eve", description: 'Countdowns, parties and fireworks to welcome the new year.' },
+  ],
+};
+
+export const HOT_TOPIC_FIXTURES: HotTopic[] = [
+  { topic: 'Everyday AI', reason: 'Generative AI tools are moving from novelty to daily workflows, driving demand for relatable human-and-technology imagery.' },
+  { topic: 'Climate Adaptation', reason: 'Coverage is shifting from climate warnings to practical adaptation: heat-resilient cities, water saving and renewable homes.' },
+  { topic: 'Quiet Luxury & Slow Living', reason: 'Consumers favour understated quality, craftsmanship and calm routines over conspicuous consumption.' },
+  { topic: 'Multigenerational Families', reason: 'Brands want authentic depictions of grandparents, parents and children living and working together.' },
+  { topic: 'Hybrid Work Wellbeing', reason: 'Employers are investing in flexible work and mental health, fuelling searches for balanced home-office scenes.' },
+];
+
+export const CONTENT_IDEA_FIXTURES = [
+  { title: '{subject} Flat Lay', description: 'A top-down arrangement of props and seasonal colours for {subject}, leaving generous copy space on one side.', keywords: ['flat lay', 'top view', 'copy space', 'celebration', 'seasonal', 'background'] },
+  { title: 'Candid {subject} Moments', description: 'Natural, unposed shots of diverse people enjoying {subject} together in warm, soft light.', keywords: ['candid', 'people', 'diversity', 'lifestyle', 'happiness', 'together'] },
+  { title: 'Minimal {subject} Greeting', description: 'A clean, minimal composition suited to greeting cards and social media posts for {subject}.', keywords: ['minimal', 'greeting card', 'social media', 'clean', 'simple', 'design'] },
+  { title: '{subject} Close-up Details', description: 'Macro details of the textures, food and decorations associated with {subject}.', keywords: ['close-up', 'detail', 'texture', 'macro', 'decoration', 'tradition'] },
+  { title: '{subject} Business Campaign', description: 'Commercial scenes showing shops, offices and brands preparing for {subject}.', keywords: ['business', 'marketing', 'campaign', 'retail', 'promotion', 'sale'] },
+];
+
+export const SELLING_CONCEPT_FIXTURES = [
+  { concept: 'Copy-space Banner', description: 'A wide, uncluttered {subject} background with one strong focal point and plenty of negative space for advertisers.', targetAudience: 'Marketing teams and small businesses', keywords: ['banner', 'copy space', 'advertising', 'background', 'header'] },
+  { concept: 'Authentic Family Scene', description: 'Real-looking families of different ages and backgrounds sharing {subject} at home.', targetAudience: 'Lifestyle brands and publishers', keywords: ['family', 'authentic', 'home', 'multigenerational', 'lifestyle'] },
+  { concept: 'Seasonal Pattern', description: 'A seamless, repeatable pattern built from simple {subject} motifs in a limited palette.', targetAudience: 'Print-on-demand and packaging designers', keywords: ['seamless pattern', 'motif', 'packaging', 'wrapping paper', 'print'] },
+];
+
+export const TREND_IDEA_FIXTURES = [
+  { title: '{subject} Through a Human Lens', description: 'Warm, documentary-style scenes that show real people interacting with {subject} in everyday settings.', keywords: ['documentary', 'real people', 'everyday', 'authentic', 'storytelling', 'lifestyle'] },
+  { title: 'Tactile {subject}', description: 'Soft 3D renders and clay-like textures that make {subject} feel touchable and friendly.', keywords: ['3d render', 'clay', 'tactile', 'soft shapes', 'pastel', 'playful'] },
+  { title: '{subject} After Dark', description: 'Moody, neon-lit compositions exploring {subject} at night with strong contrast.', keywords: ['neon', 'night', 'moody', 'contrast', 'cinematic', 'urban'] },
+  { title: 'Sustainable {subject}', description: 'Natural materials, earthy tones and circular-economy cues woven into {subject}.', keywords: ['sustainability', 'eco friendly', 'natural materials', 'earth tones', 'green', 'circular economy'] },
+];
+
+export const TREND_AUDIENCE_TIP_FIXTURE = 'Appeals to millennial and Gen Z buyers looking for authentic, values-driven visuals around {subject}.';
+
+export const UPLOAD_TIP_FIXTURE = 'Upload 4-6 weeks before the event so buyers planning {subject} campaigns can find your content.';
+
+export const METADATA_PLATFORM_FIXTURES = ['Adobe Stock', 'Shutterstock', 'Freepik', 'Vecteezy'];
+
+export const METADATA_TITLE_FIXTURES = ['with copy space', 'modern concept', 'bright and colorful', 'minimal style'];
+
+export const METADATA_KEYWORD_FIXTURES = [
+  'background', 'concept', 'design', 'creative', 'modern', 'colorful', 'bright', 'copy space', 'nobody', 'horizontal',
+  'lifestyle', 'happy', 'celebration', 'season', 'holiday', 'decoration', 'minimal', 'abstract', 'art', 'style',
+  'trend', 'business', 'marketing', 'social media', 'banner', 'template', 'vibrant', 'fresh', 'beautiful', 'idea',
+  'symbol', 'culture', 'event', 'festive', 'greeting',
+];
+
+export const KEYWORD_STRATEGY_FIXTURES = {
+  primaryKeywords: ['{subject}', '{subject} background', '{subject} concept', '{subject} design', '{subject} illustration'],
+  longTailKeywords: ['{subject} with copy space', 'modern {subject} banner', 'minimal {subject} flat lay', '{subject} social media template', 'diverse people enjoying {subject}'],
+  relatedConcepts: ['lifestyle', 'celebration', 'marketing', 'seasonal', 'creativity'],
+};
+
+/** Small gradient PNGs, base64-encoded, used in place of generated images. */
+export const IMAGE_FIXTURES: string[] = [
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAACFElEQVR42tXPB1JTARhF4bsB7L1g76DYO0o66Z20l0qSlzyCa8SCIoqioKJoEGlBECEigjjj/9jFnTkL+A4auv81VNY3VdY3d/3dore2VVvbpq1u11Z3lP9IO8sru0oru0u/pT3q8l51eZ/6a39Rqh8o1g8W6o2Fpcb80qH84uH84pHOn0f1Fo7lFo7nfpyQsvMns/OnsnOnM3NnMt+ls+nZc+nZpnStKVVrTtXOJ2cuJGdaktMtyvRFZeqSMnU5MSldSUxcjU9ci3+7LsXGb8TGb8a+3opKY7ejY3ci1buRamukCmp9a8cXUOvvyQC1/n74M6j1bRsDxPq28Cio9YbQKKj1xtAnUOtNMkCtNwc/glqvD1DrLcERUOutgRFQ622BD6DW6wPU+nb/e1Dr7TJArXf434Fa7/TpA8R6p28Y1HqXDFDr3d5hUOs93iFQ6z2eIVDrvZ63oNb7ZIBa73e/AbU+sDFArA+4B0GtD7oGQa0PuV6DWh/WB5j1YecrUOs7ZIBaH3EOgFofdQyAWh9zvAS1Xh+g1sftL0CtT8gAtV6x94Nar7T3g1qflAFqfcr2HNT6tAxQ6zO2PlDrM9Y+UOuz1meg1udkgFrfaXkKar0+QK3PW3pBrS+Ye0GtL5qfgFqv6gPMetX0GNT6kgxQ68umR6DWa0Z9gFivGR+CWt8lA9T6iqEH1PpuGaDWPzD0/AfuIjrBAbB8kwAAAABJRU5ErkJggg==',
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAACLklEQVR42tXPiVYhAACF4fsQzb7PNPseSipRSqRSlGhRtEqRVqVmfUaVURJCKEKEOWc0b3HP+R/g++EV/PYKfnmFP73CH3ui73uib3v1u/sNO/sNnn2x50C8fdC4dSBx+ySbvqYNX9O6r3ntT8vqTdIVv9Tlb132y5yHMsehfOlQvnjUZj9qr7ZwpLAFFPOBjrlA5+xx58yxcvpYORXsmgqqrEGV5UQ9eaKeOOk2hzTjIc1YqGe0Wrh3JNxrCvcZI9rhiNYQ6R867R88HdCf6vRRnS6qH4jq+6OD2thQX2yoN2boiRs08WENqPVxYzeo9WdGNaj1ZyYVqPVnpi5Q6xMjSlDrE6OdoNYnRjtArU+MKUCtT1YHqPXJ8XZQ65PmNlDrU2Y5qPWpCRmo9amJVlDrzyeloNafW1pArT+3NINaf2GtDjDrL6xNoNZfTElArU9PN4Jan54Wg1qfnmkAtT49Uw9qfWZWBGp9ZlYIan1m7maAWH85LwC1/nK+DtT6S9tXUOuzti+g1mcXPoNan7V/ArU+Z/8Ian1u8QOo9f8HmPW5pfeg1ucd70Ctzzveglqfd74Btf7K+RrU+qvlV6DWX7leglpfcNWCWl9YqQW1vrDyAtT64upzUOuLa89ArS+uPQW1vrj+BNT66/XHoNZfbzwCtf568yGo9aXqALW+5H4Aan3JfR/U+vLWPVDry9t3Qa0vb98Btb7iuQ1qfcVzC9T6yk4NqPV/d2v+AVFryqURvUToAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAACK0lEQVR42tXPh1bTAACF4fsCaZImTZN0xCdEFAeKKKI4UERRLLRltYUyCmWUstpCKRRw77333nucY+Jb3HP+B/h+rFsLWasha6XNKrdb5bC1HLGWIsFSNFjqCC52BotdTgvdwfmeQCEWKMQD+XgglwjkegNzff7ZpH+m32l6wD816M8O+bMp32TKlxn2ZUZ8E2nf+KhvzG7MHB030xNmOmOOZMzhSTOVNVJTxtC0MThjDNjNGv1zRjKnJ/N6X17vLeiJeT2xoMeLeqzojS16e0re7iVv17JTZ1nrWNGiq1p0TYucArVeC9sDzHotfBrUeq39DKj1nrazoNZ7QudArXcGqPWek+dBrfe0XgC13tN6EdR69cQlUOvV4/YAs15tuQxqvdpyBdR69dhVUOvVo9dArVeb7QFmvdJ8HdR65cgNUOuVppug1itNt0CtVw7fBrVeOWQPMOuVxjug1rsb74Ja7z54D9R694H7oNb/H2DWu/c/ALXeve8hqPVywyNQ6+WGx6DWy3udAWK9vOcJqPVy/VNQ6+X6Z6DWy7ufg1ov1dkDzHqp7gWo9dKul6DWSztfgVov1b4GtV6qfQNqvbTDGSDWizVvQa0Xa96BWi9ufw9qvbjtA6j1YrU9wKwXqz+CWu/a+gnUeteWz6DWuzZ/AbXeGaDWuzZ9BbXeVfUN1HpX1XdQ64WNP0CtFzbYA8x6ofInqPVC5S9Q64X1v0GtFyr+gFovVPz9B+tdqi039KzeAAAAAElFTkSuQmCC',
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAIAAAAlC+aJAAACUElEQVR42tXOZVMTAAAG4Pcbdnd3N4000kgjjTTSSEsjmGd7tmd7tmd79vknBgM2xjY2xmAB2xhjTH/H+/yCB//+2tn+2Nl+T7H9mjr5c9rkj+mT32dYv820fp1l/TJ74vOciU9zJz7Os3yYb3m/wPJu4fjbReNvFo+/XmJ+tdT8cpn5xfKx5yvGnq0ce7rK9GS16fEa06O1xofrjA/WG+9vMNzbaLi7yXBn8+jtLaO3to7e3DZyY/vI9R0j13bqr+7SX9mtv7xHf2mv7uI+3QV73XkH7TlH7Vkn7RlnzWkXzSlXzUm34RP7h9vdh9s8hlo9h1q8hpq91U0+6kZfdYPfYP2BwTp/UO8HawNAvVfVBIJ6r6oOAvVeVRUM6v1AZQio9wMVoaDeD5SHgXqvLDsI6r2yNBzUe2VJBKj3iuJIUO8VRVGg3isKo0G97y+IAfW+Pz8W1Pv+vDhQ7+W5h0C9l+fEg3ovz04A9V6WlQjqvSwzCdR7WUYyqPey9BRQ76VpqaDeS1PTQL2XphwG9b4vOR3U+76kDFDv+xIzQb2XJGSBei+Jzwb1XhKXA+p9b2wuqPe9MXmg3vdGHwH1XhyVD+q9OLIA1HtxRCGo96LwIlDvRWHFoN6LQktAve8JKQX1vie4DNT7nqCjoN53B5aDet8dUAHqfbd/Jaj3XX5VoN53+VaDet/lUwPqvdC7FtR7odcxUO+FnnWg3nd61IN63+neAOp9p1sjqPcdrk2g3ne4NIN63+HcAuq9wKkV1HuB43FQ7wUObaDeC+zb/wO+TomqD1FbbAAAAABJRU5ErkJggg==',
+];
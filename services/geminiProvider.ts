@@ -0,0 +1,485 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import type { AIContent, EventSearchResult, GroundingSource, AITrendReport, HotTopic, ImageInput, ImageSettings, KeywordStrategy, MetadataLanguage, StockMetadata } from '../types';
+import { METADATA_LANGUAGES } from '../constants';
+import type { AIProvider } from './aiProvider';
+import { AIError, toAIError } from './aiErrors';
+import { describePlatformRules } from './metadataRules';
+import { buildImagePrompt } from './imagePrompt';
+import { parseJsonResponse, validateResponse, validators } from './responseValidation';
+import type { Validated } from './responseValidation';
+
+// Runs on the server only (see server/aiApi.ts), which supplies the key. The
+// client is created on first use so that a missing key fails per request.
+let apiKey = '';
+let client: GoogleGenAI | null = null;
+
+export const setGeminiApiKey = (key: string): void => {
+    apiKey = key;
+    client = null;
+};
+
+const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+        throw new AIError('auth', 'The server has no GEMINI_API_KEY configured.');
+    }
+    if (!client) {
+        client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// A blocked prompt or answer comes back as a successful response without text,
+// which would otherwise surface as a confusing parse failure.
+const checkNotBlocked = (response: GenerateContentResponse): GenerateContentResponse => {
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AIError('safety');
+    }
+    return response;
+};
+
+const responseText = (response: GenerateContentResponse): string => (checkNotBlocked(response).text ?? '').trim();
+
+const contentIdeaResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    ideas: {
+      type: Type.ARRAY,
+      description: 'A list of 5 creative content ideas.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: {
+            type: Type.STRING,
+            description: 'A short, SEO-friendly title for the content idea.'
+          },
+          description: {
+            type: Type.STRING,
+            description: 'A brief description of the creative concept, including visual styles or subjects.'
+          },
+          keywords: {
+            type: Type.ARRAY,
+            description: 'A list of 5-10 relevant keywords for the idea.',
+            items: {
+              type: Type.STRING
+            }
+          }
+        },
+        required: ['title', 'description', 'keywords']
+      }
+    },
+    uploadTip: {
+      type: Type.STRING,
+      description: 'A concise tip on when to upload this content for maximum visibility, e.g., "Upload 4-6 weeks before the event."'
+    },
+    topSellingConcepts: {
+        type: Type.ARRAY,
+        description: 'A list of 3-4 specific, commercially viable visual concepts that are known to sell well for this type of event.',
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                concept: {
+                    type: Type.STRING,
+                    description: 'A short, catchy name for the selling concept.'
+                },
+                description: {
+                    type: Type.STRING,
+                    description: 'A detailed description of the visual concept, including subject matter, style, and composition that makes it commercially successful.'
+                },
+                targetAudience: {
+                    type: Type.STRING,
+                    description: 'The primary customer segment this concept appeals to (e.g., "Small businesses", "Families with young children").'
+                },
+                keywords: {
+                    type: Type.ARRAY,
+                    description: 'A list of 5-7 highly commercial keywords specific to this concept.',
+                    items: { type: Type.STRING }
+                }
+            },
+            required: ['concept', 'description', 'targetAudience', 'keywords']
+        }
+    }
+  },
+  required: ['ideas', 'uploadTip', 'topSellingConcepts']
+};
+
+const trendReportResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        ideas: {
+            type: Type.ARRAY,
+            description: 'A list of 3-5 creative and trending concepts related to the theme.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: {
+                        type: Type.STRING,
+                        description: 'An engaging, SEO-friendly title for the trend concept.'
+                    },
+                    description: {
+                        type: Type.STRING,
+                        description: 'A detailed description of the visual trend, including styles, subjects, and composition.'
+                    },
+                    keywords: {
+                        type: Type.ARRAY,
+                        description: 'A list of 5-10 highly relevant and trending keywords.',
+                        items: { type: Type.STRING }
+                    }
+                },
+                required: ['title', 'description', 'keywords']
+            }
+        },
+        audienceTip: {
+            type: Type.STRING,
+            description: 'A helpful tip about the target audience for this trend, e.g., "Appeals to Gen Z and eco-conscious consumers."'
+        }
+    },
+    required: ['ideas', 'audienceTip']
+};
+
+const keywordStrategyResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        primaryKeywords: {
+            type: Type.ARRAY,
+            description: "A list of 5-7 core, high-volume keywords directly related to the topic.",
+            items: { type: Type.STRING }
+        },
+        longTailKeywords: {
+            type: Type.ARRAY,
+            description: "A list of 5-7 more specific, multi-word phrases that target niche audiences.",
+            items: { type: Type.STRING }
+        },
+        relatedConcepts: {
+            type: Type.ARRAY,
+            description: "A list of 5-7 conceptually related terms or LSI keywords that add context.",
+            items: { type: Type.STRING }
+        }
+    },
+    required: ['primaryKeywords', 'longTailKeywords', 'relatedConcepts']
+};
+
+const stockMetadataResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        metadata: {
+            type: Type.ARRAY,
+            description: "An array of metadata objects for different stock platforms.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    platform: {
+                        type: Type.STRING,
+                        description: "The name of the stock content platform (e.g., 'Adobe Stock')."
+                    },
+                    title: {
+                        type: Type.STRING,
+                        description: "An SEO-optimized title for the content on this platform."
+                    },
+                    keywords: {
+                        type: Type.ARRAY,
+                        description: "Relevant and high-traffic keywords within the platform's keyword limits, ordered by importance.",
+                        items: { type: Type.STRING }
+                    }
+                },
+                required: ['platform', 'title', 'keywords']
+            }
+        }
+    },
+    required: ['metadata']
+};
+
+// How buyers in each market actually search, so the model writes native
+// metadata rather than translating English keywords word for word.
+const LANGUAGE_GUIDANCE: Record<Exclude<MetadataLanguage, 'en'>, string> = {
+    de: 'Use the compound nouns German buyers type (e.g. "Weihnachtsmarkt", not "Weihnachten Markt") alongside the separate words.',
+    es: 'Use neutral international Spanish understood in both Spain and Latin America, adding regional terms only where buyers commonly search both.',
+    ja: 'Mix kanji, katakana loanwords and hiragana the way Japanese buyers search, without romaji. Titles need no spaces between words.',
+    pt: 'Use Brazilian Portuguese, the largest Portuguese-speaking market, with European spellings only where they differ and are commonly searched.',
+};
+
+const languageInstructions = (language: MetadataLanguage): string => {
+    if (language === 'en') {
+        return '';
+    }
+    const name = METADATA_LANGUAGES.find(l => l.code === language)?.name ?? language;
+    return `
+
+    Write every title and keyword in ${name}, as native ${name}-speaking buyers search for this content on each platform.
+    Do not translate English keywords literally: choose the terms, synonyms and spellings those buyers actually type, even when they differ from the English ones.
+    ${LANGUAGE_GUIDANCE[language]}
+    Never mix in English words unless ${name} buyers commonly search for them in English.`;
+};
+
+const generateStockMetadata = async (
+    topic: string,
+    contentType: string,
+    image?: ImageInput,
+    language: MetadataLanguage = 'en',
+    signal?: AbortSignal
+): Promise<Validated<StockMetadata[]>> => {
+    
+    let promptText: string;
+    const requestContents: { parts: any[] } = { parts: [] };
+
+    const commonInstructions = `
+    Generate optimized metadata for the following platforms: Adobe Stock, Shutterstock, Freepik, and Vecteezy.
+    
+    For each platform:
+    1.  Provide one compelling, commercial, and SEO-friendly title.
+    2.  Provide a list of highly relevant keywords, including primary, long-tail, and conceptual keywords.
+    3.  Order the keywords by importance, with the most critical ones first.
+    4.  Never mention the platform, licensing or file formats, and avoid special characters.
+
+    Stay within each platform's limits:
+${describePlatformRules()}${languageInstructions(language)}`;
+    
+    if (image) {
+        promptText = `You are a world-class SEO expert and metadata strategist for stock content platforms. Analyze the provided image, which is a "${contentType}".`;
+        if (topic) {
+            promptText += ` Use the following user-provided description as an additional hint: "${topic}".`;
+        }
+        promptText += commonInstructions;
+        requestContents.parts.push({ text: promptText });
+        requestContents.parts.push({ inlineData: { data: image.data, mimeType: image.mimeType } });
+    } else {
+        promptText = `You are a world-class SEO expert and metadata strategist for stock content platforms. For the topic "${topic}" and content type "${contentType}", generate optimized metadata.`;
+        promptText += commonInstructions;
+        requestContents.parts.push({ text: promptText });
+    }
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: requestContents,
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: stockMetadataResponseSchema,
+                temperature: 0.6,
+            },
+        });
+
+        const data = JSON.parse(responseText(response));
+        return validateResponse(validators.stockMetadata, data?.metadata, 'stock metadata');
+    } catch (error) {
+        console.error("Error generating stock metadata:", error);
+        throw toAIError(error, "Failed to generate stock metadata. Please try another topic or image.");
+    }
+};
+
+const getGlobalHotTopics = async (signal?: AbortSignal): Promise<Validated<HotTopic[]>> => {
+    const prompt = `As a stock content strategist, identify 5 globally trending topics for visual content (photos, videos, illustrations) right now, based on current news and cultural shifts.
+    For each topic, provide a short description of why it's trending. Use Google Search to find the most up-to-date information.
+    
+    Return the response as a single JSON array inside a markdown code block. Each object in the array should have two keys: "topic" and "reason".`;
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: signal,
+                tools: [{googleSearch: {}}],
+                temperature: 0.7,
+            },
+        });
+
+        const rawText = responseText(response);
+        let data;
+        try {
+            data = parseJsonResponse(rawText);
+        } catch (e) {
+            console.error("Failed to parse raw text as JSON for hot topics:", rawText);
+            throw new AIError('parse', "The AI's response for hot topics was not in the expected JSON format.", { cause: e });
+        }
+
+        // Models sometimes wrap the array in an object despite the prompt.
+        const topics = Array.isArray(data) ? data : data?.topics ?? data?.hotTopics;
+        return validateResponse(validators.hotTopics, topics, 'hot topics');
+    } catch (error) {
+        console.error("Error getting hot topics:", error);
+        throw toAIError(error, "Failed to fetch global hot topics.");
+    }
+};
+
+const generateKeywordStrategy = async (topic: string, signal?: AbortSignal): Promise<Validated<KeywordStrategy>> => {
+    const prompt = `You are an SEO expert specializing in stock content. For the topic "${topic}", generate a comprehensive keyword strategy. Provide:
+    1.  A list of 5-7 primary keywords.
+    2.  A list of 5-7 long-tail keywords.
+    3.  A list of 5-7 related concepts or LSI keywords.`;
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: keywordStrategyResponseSchema,
+                temperature: 0.5,
+            },
+        });
+
+        const data = JSON.parse(responseText(response));
+        return validateResponse(validators.keywordStrategy, data, 'keyword strategy');
+    } catch (error) {
+        console.error("Error generating keyword strategy:", error);
+        throw toAIError(error, "Failed to generate keyword strategy. Please try another topic.");
+    }
+};
+
+const generateInspirationalImage = async (prompt: string, contentType: string, settings: ImageSettings, signal?: AbortSignal): Promise<string> => {
+    const imagePrompt = buildImagePrompt(prompt, contentType, settings);
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash-image',
+            contents: {
+                parts: [{ text: imagePrompt }],
+            },
+            config: {
+                abortSignal: signal,
+                responseModalities: [Modality.IMAGE],
+                temperature: settings.temperature,
+                imageConfig: { aspectRatio: settings.aspectRatio },
+            },
+        });
+
+        for (const part of checkNotBlocked(response).candidates?.[0]?.content?.parts ?? []) {
+            if (part.inlineData) {
+                return part.inlineData.data;
+            }
+        }
+        throw new Error("No image data received from the AI.");
+
+    } catch (error) {
+        console.error("Error generating image:", error);
+        throw toAIError(error, "Failed to generate AI image.");
+    }
+};
+
+const generateTrendingIdeas = async (theme: string, contentType: string, signal?: AbortSignal): Promise<Validated<AITrendReport>> => {
+  const prompt = `You are a creative strategist for a major stock content agency.
+  Analyze the theme "${theme}" for the content type "${contentType}".
+  Generate a trend report that includes 3-5 distinct, actionable, and creative concepts.
+  For each concept, provide a compelling title, a description of the visual style and subject matter, and a list of 5-10 relevant keywords.
+  Also, provide a single, insightful "Audience Tip" about who this trend might appeal to.`;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: trendReportResponseSchema,
+        temperature: 0.8,
+      },
+    });
+
+    const data = JSON.parse(responseText(response));
+    return validateResponse(validators.trendReport, data, 'trend report');
+  } catch (error) {
+    console.error("Error generating trending ideas:", error);
+    throw toAIError(error, "Failed to generate AI trend report. Please try another theme.");
+  }
+};
+
+
+const generateContentIdeas = async (eventName: string, contentType: string, signal?: AbortSignal): Promise<Validated<AIContent>> => {
+  const prompt = `You are an expert creative director and market analyst for stock content platforms like Adobe Stock and Shutterstock.
+  For the event "${eventName}" and content type "${contentType}":
+  1. Generate 5 creative and unique content ideas. For each idea, provide a brief description, a list of 5-10 relevant keywords, and a suggested SEO-friendly title.
+  2. Provide a general "Upload Tip" for this type of event (e.g., when to upload for maximum visibility).
+  3. Provide a list of 3-4 "Top-Selling Concepts". For each concept, provide: a short title ('concept'), a detailed 'description' of the visual elements that make it sell, the 'targetAudience', and 5-7 commercial 'keywords'. These should be specific, commercially viable themes that consistently sell well for this event.`;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: contentIdeaResponseSchema,
+        temperature: 0.7,
+      },
+    });
+
+    const jsonText = responseText(response);
+    const data = JSON.parse(jsonText);
+    return validateResponse(validators.content, data, 'content ideas');
+
+  } catch (error) {
+    console.error("Error generating content ideas:", error);
+    throw toAIError(error, "Failed to generate AI content. Please try again.");
+  }
+};
+
+const findEvents = async (countryName: string, monthName: string, countryCode: string, year: number, signal?: AbortSignal): Promise<Validated<EventSearchResult>> => {
+    const prompt = `You are a helpful assistant for stock content creators. Find a list of major public holidays and notable cultural or seasonal events for ${countryName} occurring in ${monthName} ${year}. 
+    
+    Return the response as a single JSON object inside a markdown code block. The JSON object must have a single key "events", which is an an array of event objects.
+    
+    For each event object, provide its name, a brief description, and the exact date in "YYYY-MM-DD" format. 
+    
+    Only include events that are reasonably well-known and provide good opportunities for stock content.`;
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: signal,
+                tools: [{googleSearch: {}}],
+                temperature: 0.2,
+            },
+        });
+
+        const rawText = responseText(response);
+        let data;
+        try {
+            data = parseJsonResponse(rawText);
+        } catch (e) {
+            console.error("Failed to parse raw text as JSON:", rawText);
+            throw new AIError('parse', "Failed to parse the AI's response. It was not in the expected JSON format.", { cause: e });
+        }
+
+        const rawEvents = Array.isArray(data) ? data : data?.events ?? [];
+        const { value: events, issues } = validateResponse(
+            validators.events,
+            Array.isArray(rawEvents)
+                ? rawEvents.map((event: unknown) => (event && typeof event === 'object' ? { ...event, country: countryCode } : event))
+                : rawEvents,
+            'event list'
+        );
+
+        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+        const sources: GroundingSource[] = groundingChunks
+            .map((chunk: any) => chunk.web && { uri: chunk.web.uri, title: chunk.web.title })
+            .filter((source: any): source is GroundingSource => source && source.uri && source.title)
+            .filter((value, index, self) =>
+                index === self.findIndex((t) => (t.uri === value.uri))
+            );
+
+        return { value: { events, sources }, issues };
+
+    } catch (error) {
+        console.error("Error finding events:", error);
+        throw toAIError(error, "Failed to find events using AI. Please try again.");
+    }
+};
+
+export const geminiProvider: AIProvider = {
+    name: 'gemini',
+    findEvents,
+    generateContentIdeas,
+    generateTrendingIdeas,
+    generateStockMetadata,
+    getGlobalHotTopics,
+    generateKeywordStrategy,
+    generateInspirationalImage,
+};
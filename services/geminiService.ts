@@ -1,445 +1,224 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { AIContent, Event, GroundingSource, AITrendReport, HotTopic, KeywordStrategy, StockMetadata, SellingConcept } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const contentIdeaResponseSchema = {
-  type: Type.OBJECT,
-  properties: {
-    ideas: {
-      type: Type.ARRAY,
-      description: 'A list of 5 creative content ideas.',
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          title: {
-            type: Type.STRING,
-            description: 'A short, SEO-friendly title for the content idea.'
-          },
-          description: {
-            type: Type.STRING,
-            description: 'A brief description of the creative concept, including visual styles or subjects.'
-          },
-          keywords: {
-            type: Type.ARRAY,
-            description: 'A list of 5-10 relevant keywords for the idea.',
-            items: {
-              type: Type.STRING
-            }
-          }
-        },
-        required: ['title', 'description', 'keywords']
-      }
-    },
-    uploadTip: {
-      type: Type.STRING,
-      description: 'A concise tip on when to upload this content for maximum visibility, e.g., "Upload 4-6 weeks before the event."'
-    },
-    topSellingConcepts: {
-        type: Type.ARRAY,
-        description: 'A list of 3-4 specific, commercially viable visual concepts that are known to sell well for this type of event.',
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                concept: {
-                    type: Type.STRING,
-                    description: 'A short, catchy name for the selling concept.'
-                },
-                description: {
-                    type: Type.STRING,
-                    description: 'A detailed description of the visual concept, including subject matter, style, and composition that makes it commercially successful.'
-                },
-                targetAudience: {
-                    type: Type.STRING,
-                    description: 'The primary customer segment this concept appeals to (e.g., "Small businesses", "Families with young children").'
-                },
-                keywords: {
-                    type: Type.ARRAY,
-                    description: 'A list of 5-7 highly commercial keywords specific to this concept.',
-                    items: { type: Type.STRING }
-                }
-            },
-            required: ['concept', 'description', 'targetAudience', 'keywords']
-        }
-    }
-  },
-  required: ['ideas', 'uploadTip', 'topSellingConcepts']
+import type { AIContent, AITrendReport, Country, EventSearchResult, GallerySlot, HotTopic, ImageInput, ImageSettings, KeywordStrategy, MetadataLanguage, MonthEvents, SearchRange, StockMetadata } from '../types';
+import { DEFAULT_METADATA_LANGUAGE, MONTHS } from '../constants';
+import { getProvider } from './aiProvider';
+import { getHolidays, mergeEvents, mergeCountryEvents } from './eventService';
+import { applyPlatformRules } from './metadataRules';
+import { cachedCall } from './aiCache';
+import type { CacheKind, CacheOptions } from './aiCache';
+import { AIError, isCancelled, toAIError, withRetry } from './aiErrors';
+import { createTaskQueue } from './taskQueue';
+import { validateResponse, validators } from './responseValidation';
+import type { Validated, Validator } from './responseValidation';
+import { reportResponseIssues } from './responseNotices';
+
+// Per attempt. Grounded searches and image generation are much slower than
+// plain JSON answers.
+const TIMEOUT_MS: Record<CacheKind, number> = {
+    events: 60_000,
+    hotTopics: 60_000,
+    keywordStrategy: 30_000,
+    trends: 45_000,
+    contentIdeas: 45_000,
+    metadata: 45_000,
+    image: 90_000,
+    gallery: 90_000,
 };
 
-const trendReportResponseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        ideas: {
-            type: Type.ARRAY,
-            description: 'A list of 3-5 creative and trending concepts related to the theme.',
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    title: {
-                        type: Type.STRING,
-                        description: 'An engaging, SEO-friendly title for the trend concept.'
-                    },
-                    description: {
-                        type: Type.STRING,
-                        description: 'A detailed description of the visual trend, including styles, subjects, and composition.'
-                    },
-                    keywords: {
-                        type: Type.ARRAY,
-                        description: 'A list of 5-10 highly relevant and trending keywords.',
-                        items: { type: Type.STRING }
-                    }
-                },
-                required: ['title', 'description', 'keywords']
-            }
-        },
-        audienceTip: {
-            type: Type.STRING,
-            description: 'A helpful tip about the target audience for this trend, e.g., "Appeals to Gen Z and eco-conscious consumers."'
-        }
-    },
-    required: ['ideas', 'audienceTip']
+// Every provider call gets a timeout, retries for transient failures and the
+// cancellation signal of the (possibly shared) cached request.
+const request = <T>(kind: CacheKind, call: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> =>
+    withRetry(call, { timeoutMs: TIMEOUT_MS[kind], signal });
+
+// Responses differ per provider, so the provider is part of every cache key.
+const cached = <T>(kind: CacheKind, args: unknown[], call: (signal: AbortSignal) => Promise<T>, options?: CacheOptions): Promise<T> =>
+    cachedCall(kind, [getProvider().name, ...args], signal => request(kind, call, signal), options);
+
+// Every provider's answer is checked here, whichever backend produced it, and
+// what was repaired or discarded along the way is reported when it arrives.
+const checked = <T>(validator: Validator<T>, label: string) => (response: Validated<unknown>): T => {
+    const { value, issues } = validateResponse(validator, response.value, label);
+    reportResponseIssues(label, [...response.issues, ...issues]);
+    return value;
 };
 
-const keywordStrategyResponseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        primaryKeywords: {
-            type: Type.ARRAY,
-            description: "A list of 5-7 core, high-volume keywords directly related to the topic.",
-            items: { type: Type.STRING }
-        },
-        longTailKeywords: {
-            type: Type.ARRAY,
-            description: "A list of 5-7 more specific, multi-word phrases that target niche audiences.",
-            items: { type: Type.STRING }
-        },
-        relatedConcepts: {
-            type: Type.ARRAY,
-            description: "A list of 5-7 conceptually related terms or LSI keywords that add context.",
-            items: { type: Type.STRING }
-        }
-    },
-    required: ['primaryKeywords', 'longTailKeywords', 'relatedConcepts']
-};
-
-const stockMetadataResponseSchema = {
-    type: Type.OBJECT,
-    properties: {
-        metadata: {
-            type: Type.ARRAY,
-            description: "An array of metadata objects for different stock platforms.",
-            items: {
-                type: Type.OBJECT,
-                properties: {
-                    platform: {
-                        type: Type.STRING,
-                        description: "The name of the stock content platform (e.g., 'Adobe Stock')."
-                    },
-                    title: {
-                        type: Type.STRING,
-                        description: "An SEO-optimized title for the content on this platform."
-                    },
-                    keywords: {
-                        type: Type.ARRAY,
-                        description: "A list of 30-50 relevant and high-traffic keywords, ordered by importance.",
-                        items: { type: Type.STRING }
-                    }
-                },
-                required: ['platform', 'title', 'keywords']
-            }
-        }
-    },
-    required: ['metadata']
-};
-
-export const generateStockMetadata = async (
+// English keeps the cache key it had before other languages were added.
+export const generateStockMetadata = (
     topic: string,
     contentType: string,
-    image?: { data: string; mimeType: string }
-): Promise<StockMetadata[]> => {
-    
-    let promptText: string;
-    const requestContents: { parts: any[] } = { parts: [] };
-
-    const commonInstructions = `
-    Generate optimized metadata for the following platforms: Adobe Stock, Shutterstock, Freepik, and Vecteezy.
-    
-    For each platform:
-    1.  Provide one compelling, commercial, and SEO-friendly title.
-    2.  Provide a list of 30-50 highly relevant keywords, including primary, long-tail, and conceptual keywords.
-    3.  Order the keywords by importance, with the most critical ones first.`;
-    
-    if (image) {
-        promptText = `You are a world-class SEO expert and metadata strategist for stock content platforms. Analyze the provided image, which is a "${contentType}".`;
-        if (topic) {
-            promptText += ` Use the following user-provided description as an additional hint: "${topic}".`;
-        }
-        promptText += commonInstructions;
-        requestContents.parts.push({ text: promptText });
-        requestContents.parts.push({ inlineData: { data: image.data, mimeType: image.mimeType } });
-    } else {
-        promptText = `You are a world-class SEO expert and metadata strategist for stock content platforms. For the topic "${topic}" and content type "${contentType}", generate optimized metadata.`;
-        promptText += commonInstructions;
-        requestContents.parts.push({ text: promptText });
-    }
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: requestContents,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: stockMetadataResponseSchema,
-                temperature: 0.6,
-            },
-        });
-
-        const data = JSON.parse(response.text.trim());
-        if (!data.metadata || !Array.isArray(data.metadata)) {
-            throw new Error("Invalid response structure from AI for stock metadata.");
+    image?: ImageInput,
+    language: MetadataLanguage = DEFAULT_METADATA_LANGUAGE,
+    options?: CacheOptions
+): Promise<StockMetadata[]> =>
+    cached(
+        'metadata',
+        [topic, contentType, image, ...(language === DEFAULT_METADATA_LANGUAGE ? [] : [language])],
+        signal => getProvider().generateStockMetadata(topic, contentType, image, language, signal).then(checked(validators.stockMetadata, 'stock metadata')),
+        options
+    ).then(results => results.map(metadata => applyPlatformRules(metadata, language)));
+
+export const getGlobalHotTopics = (options?: CacheOptions): Promise<HotTopic[]> =>
+    cached('hotTopics', [], signal => getProvider().getGlobalHotTopics(signal).then(checked(validators.hotTopics, 'hot topics')), options);
+
+export const generateKeywordStrategy = (topic: string, options?: CacheOptions): Promise<KeywordStrategy> =>
+    cached('keywordStrategy', [topic], signal => getProvider().generateKeywordStrategy(topic, signal).then(checked(validators.keywordStrategy, 'keyword strategy')), options);
+
+export const generateInspirationalImage = (prompt: string, contentType: string, settings: ImageSettings, options?: CacheOptions): Promise<string> =>
+    cached('image', [prompt, contentType, settings], signal => getProvider().generateInspirationalImage(prompt, contentType, settings, signal), options);
+
+// Gallery images share a prompt but should differ, so each variation has its
+// own cache entry instead of sharing the per-image one.
+export const generateGalleryImage = (
+    query: string,
+    contentType: string,
+    settings: ImageSettings,
+    variation: number,
+    options?: CacheOptions
+): Promise<string> =>
+    cached('gallery', [query, contentType, settings, variation], signal => getProvider().generateInspirationalImage(query, contentType, settings, signal), options);
+
+/**
+ * Generate one gallery image per variation in parallel. Failures are reported
+ * per slot rather than failing the gallery, and `onSlotLoaded` fires as each
+ * image settles.
+ */
+export const generateInspirationGallery = async (
+    query: string,
+    contentType: string,
+    settings: ImageSettings,
+    variations: number[],
+    onSlotLoaded?: (slot: GallerySlot) => void,
+    options?: CacheOptions
+): Promise<GallerySlot[]> =>
+    Promise.all(variations.map(async (variation): Promise<GallerySlot> => {
+        let slot: GallerySlot;
+        try {
+            slot = { variation, status: 'done', image: await generateGalleryImage(query, contentType, settings, variation, options) };
+        } catch (error) {
+            console.error("Error generating inspiration gallery image:", error);
+            slot = { variation, status: 'error', error: toAIError(error, "Failed to generate this image.").message };
         }
-        return data.metadata as StockMetadata[];
-    } catch (error) {
-        console.error("Error generating stock metadata:", error);
-        throw new Error("Failed to generate stock metadata. Please try another topic or image.");
-    }
-};
-
-export const getGlobalHotTopics = async (): Promise<HotTopic[]> => {
-    const prompt = `As a stock content strategist, identify 5 globally trending topics for visual content (photos, videos, illustrations) right now, based on current news and cultural shifts.
-    For each topic, provide a short description of why it's trending. Use Google Search to find the most up-to-date information.
-    
-    Return the response as a single JSON array inside a markdown code block. Each object in the array should have two keys: "topic" and "reason".`;
+        onSlotLoaded?.(slot);
+        return slot;
+    }));
+
+export const generateTrendingIdeas = (theme: string, contentType: string, options?: CacheOptions): Promise<AITrendReport> =>
+    cached('trends', [theme, contentType], signal => getProvider().generateTrendingIdeas(theme, contentType, signal).then(checked(validators.trendReport, 'trend report')), options);
+
+export const generateContentIdeas = (eventName: string, contentType: string, options?: CacheOptions): Promise<AIContent> =>
+    cached('contentIdeas', [eventName, contentType], signal => getProvider().generateContentIdeas(eventName, contentType, signal).then(checked(validators.content, 'content ideas')), options);
+
+// Rule-based holidays are always included with their computed dates; the AI
+// search adds cultural and seasonal events the calendar rules don't know about.
+export const findEvents = async (
+    countryName: string,
+    monthName: string,
+    countryCode: string,
+    year: number,
+    options?: CacheOptions
+): Promise<EventSearchResult> => {
+    const month = MONTHS.find(m => m.name === monthName)?.value;
+    const holidays = month ? getHolidays(countryCode, year, month) : [];
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{googleSearch: {}}],
-                temperature: 0.7,
-            },
-        });
-
-        const rawText = response.text.trim();
-        const jsonMatch = rawText.match(/```(json)?\n([\s\S]*?)\n```/);
-        
-        let data;
-        if (jsonMatch && jsonMatch[2]) {
-            data = JSON.parse(jsonMatch[2]);
-        } else {
-             try {
-                data = JSON.parse(rawText);
-            } catch (e) {
-                console.error("Failed to parse raw text as JSON for hot topics:", rawText);
-                throw new Error("The AI's response for hot topics was not in the expected JSON format.");
-            }
-        }
-
-        if (!Array.isArray(data)) {
-            throw new Error("Invalid response structure from AI for hot topics.");
-        }
-        return data as HotTopic[];
+        const result = await cached(
+            'events',
+            [countryCode, monthName, year],
+            signal => getProvider().findEvents(countryName, monthName, countryCode, year, signal).then(checked(validators.eventSearch, 'event list')),
+            options
+        );
+        return { events: mergeEvents(holidays, result.events, month), sources: result.sources };
     } catch (error) {
-        console.error("Error getting hot topics:", error);
-        if (error instanceof Error && error.message.includes("JSON")) {
+        if (holidays.length === 0 || isCancelled(error)) {
             throw error;
         }
-        throw new Error("Failed to fetch global hot topics. The AI may be busy.");
+        console.warn("AI event search failed, showing calendar holidays only:", error);
+        return { events: holidays, sources: [] };
     }
 };
 
-export const generateKeywordStrategy = async (topic: string): Promise<KeywordStrategy> => {
-    const prompt = `You are an SEO expert specializing in stock content. For the topic "${topic}", generate a comprehensive keyword strategy. Provide:
-    1.  A list of 5-7 primary keywords.
-    2.  A list of 5-7 long-tail keywords.
-    3.  A list of 5-7 related concepts or LSI keywords.`;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: keywordStrategyResponseSchema,
-                temperature: 0.5,
-            },
-        });
-
-        const data = JSON.parse(response.text.trim());
-        if (!data.primaryKeywords || !data.longTailKeywords || !data.relatedConcepts) {
-            throw new Error("Invalid response structure from AI for keyword strategy.");
-        }
-        return data as KeywordStrategy;
-    } catch (error) {
-        console.error("Error generating keyword strategy:", error);
-        throw new Error("Failed to generate keyword strategy. Please try another topic.");
+/** The months covered by a search range, starting from the selected month and year. */
+export const buildMonthRange = (range: SearchRange, month: number, year: number): { month: number; year: number }[] => {
+    if (range === 'month') {
+        return [{ month, year }];
     }
+    const start = range === 'year' ? 0 : month - 1;
+    return Array.from({ length: 12 }, (_, i) => ({
+        month: ((start + i) % 12) + 1,
+        year: range === 'year' ? year : year + Math.floor((start + i) / 12),
+    }));
 };
 
-export const generateInspirationalImage = async (prompt: string, contentType: string): Promise<string> => {
-    const imagePrompt = `Create a visually stunning, high-quality ${contentType.toLowerCase()} that embodies the concept: "${prompt}". The image should be inspiring, marketable for stock platforms, and aesthetically pleasing. Avoid text and logos.`;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [{ text: imagePrompt }],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-                temperature: 0.9,
-            },
-        });
-
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
-        }
-        throw new Error("No image data received from the AI.");
-
-    } catch (error) {
-        console.error("Error generating image:", error);
-        throw new Error("Failed to generate AI image. The model may be unavailable.");
+// Search several countries in parallel and merge shared holidays. Only fails
+// when every country fails; otherwise the failed ones are reported alongside.
+const searchCountries = async (
+    countries: Country[],
+    search: (country: Country) => Promise<EventSearchResult>
+): Promise<EventSearchResult> => {
+    const settled = await Promise.allSettled(countries.map(search));
+    const succeeded = settled.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failedCountries = countries.filter((_, index) => settled[index].status === 'rejected').map(c => c.code);
+
+    if (succeeded.length === 0) {
+        const firstFailure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        throw firstFailure?.reason ?? new Error("Failed to find events using AI. Please try again.");
     }
-};
 
-export const generateInspirationGallery = async (query: string, contentType: string): Promise<string[]> => {
-    // Generate 4 images in parallel for a richer inspiration gallery
-    const imagePromises = Array(4).fill(null).map(() => 
-        generateInspirationalImage(query, contentType)
-    );
+    const sources = succeeded
+        .flatMap(result => result.sources)
+        .filter((value, index, self) => index === self.findIndex(t => t.uri === value.uri));
 
-    try {
-        const results = await Promise.all(imagePromises);
-        return results;
-    } catch (error) {
-        console.error("Error generating inspiration gallery:", error);
-        // If some images fail, we might still want to return the successful ones,
-        // but for simplicity, we'll fail the whole operation if any promise rejects.
-        throw new Error("Failed to generate the full inspiration gallery.");
-    }
+    return {
+        events: mergeCountryEvents(succeeded.map(result => result.events)),
+        sources,
+        failedCountries: failedCountries.length > 0 ? failedCountries : undefined,
+    };
 };
 
-
-export const generateTrendingIdeas = async (theme: string, contentType: string): Promise<AITrendReport> => {
-  const prompt = `You are a creative strategist for a major stock content agency.
-  Analyze the theme "${theme}" for the content type "${contentType}".
-  Generate a trend report that includes 3-5 distinct, actionable, and creative concepts.
-  For each concept, provide a compelling title, a description of the visual style and subject matter, and a list of 5-10 relevant keywords.
-  Also, provide a single, insightful "Audience Tip" about who this trend might appeal to.`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: trendReportResponseSchema,
-        temperature: 0.8,
-      },
-    });
-
-    const data = JSON.parse(response.text.trim());
-    if (!data.ideas || !data.audienceTip) {
-        throw new Error("Invalid response structure from AI for trends.");
-    }
-    return data as AITrendReport;
-  } catch (error) {
-    console.error("Error generating trending ideas:", error);
-    throw new Error("Failed to generate AI trend report. Please try another theme.");
-  }
-};
-
-
-export const generateContentIdeas = async (eventName: string, contentType: string): Promise<AIContent> => {
-  const prompt = `You are an expert creative director and market analyst for stock content platforms like Adobe Stock and Shutterstock.
-  For the event "${eventName}" and content type "${contentType}":
-  1. Generate 5 creative and unique content ideas. For each idea, provide a brief description, a list of 5-10 relevant keywords, and a suggested SEO-friendly title.
-  2. Provide a general "Upload Tip" for this type of event (e.g., when to upload for maximum visibility).
-  3. Provide a list of 3-4 "Top-Selling Concepts". For each concept, provide: a short title ('concept'), a detailed 'description' of the visual elements that make it sell, the 'targetAudience', and 5-7 commercial 'keywords'. These should be specific, commercially viable themes that consistently sell well for this event.`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: contentIdeaResponseSchema,
-        temperature: 0.7,
-      },
-    });
-
-    const jsonText = response.text.trim();
-    const data = JSON.parse(jsonText);
-    
-    if (!data.ideas || !data.uploadTip || !data.topSellingConcepts) {
-        throw new Error("Invalid response structure from AI.");
-    }
-
-    return data as AIContent;
-
-  } catch (error) {
-    console.error("Error generating content ideas:", error);
-    throw new Error("Failed to generate AI content. Please check your API key and try again.");
-  }
-};
-
-export const findEvents = async (countryName: string, monthName: string, countryCode: string, year: number): Promise<{ events: Event[], sources: GroundingSource[] }> => {
-    const prompt = `You are a helpful assistant for stock content creators. Find a list of major public holidays and notable cultural or seasonal events for ${countryName} occurring in ${monthName} ${year}. 
-    
-    Return the response as a single JSON object inside a markdown code block. The JSON object must have a single key "events", which is an an array of event objects.
-    
-    For each event object, provide its name, a brief description, and the exact date in "YYYY-MM-DD" format. 
-    
-    Only include events that are reasonably well-known and provide good opportunities for stock content.`;
-
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                tools: [{googleSearch: {}}],
-                temperature: 0.2,
-            },
-        });
-
-        const rawText = response.text.trim();
-        const jsonMatch = rawText.match(/```(json)?\n([\s\S]*?)\n```/);
-        
-        let data;
-        if (jsonMatch && jsonMatch[2]) {
-            data = JSON.parse(jsonMatch[2]);
-        } else {
-            try {
-                data = JSON.parse(rawText);
-            } catch (e) {
-                console.error("Failed to parse raw text as JSON:", rawText);
-                throw new Error("Failed to parse the AI's response. It was not in the expected JSON format.");
-            }
+export const findEventsForCountries = (
+    countries: Country[],
+    monthName: string,
+    year: number,
+    options?: CacheOptions
+): Promise<EventSearchResult> =>
+    searchCountries(countries, country => findEvents(country.name, monthName, country.code, year, options));
+
+// Grounded searches are slow and rate limited, so only a few months load at once.
+const RANGE_CONCURRENCY = 3;
+
+export const findEventsForRange = (
+    countries: Country[],
+    months: { month: number; year: number }[],
+    onMonthLoaded?: (result: MonthEvents) => void,
+    options?: CacheOptions
+): Promise<MonthEvents[]> => {
+    const signal = options?.signal;
+    const queue = createTaskQueue(RANGE_CONCURRENCY);
+    // As in the batch queue, cancelling drops the months that have not started.
+    signal?.addEventListener('abort', queue.clear, { once: true });
+
+    const loadMonth = async (month: number, year: number): Promise<MonthEvents> => {
+        let result: MonthEvents;
+        try {
+            const monthName = MONTHS.find(m => m.value === month)?.name || '';
+            const found = await searchCountries(countries, country => findEvents(country.name, monthName, country.code, year, options));
+            result = { month, year, ...found };
+        } catch (error) {
+            result = {
+                month,
+                year,
+                events: [],
+                sources: [],
+                error: error instanceof Error ? error.message : 'Failed to load events for this month.',
+            };
         }
-
-        const events: Event[] = (data.events || []).map((event: any) => ({
-            ...event,
-            country: countryCode,
-        }));
-
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        const sources: GroundingSource[] = groundingChunks
-            .map((chunk: any) => chunk.web && { uri: chunk.web.uri, title: chunk.web.title })
-            .filter((source: any): source is GroundingSource => source && source.uri && source.title)
-            .filter((value, index, self) =>
-                index === self.findIndex((t) => (t.uri === value.uri))
-            );
-
-        return { events, sources };
-
-    } catch (error) {
-        console.error("Error finding events:", error);
-        if (error instanceof SyntaxError) {
-             throw new Error("Failed to parse the AI's response. It was not in the expected JSON format.");
-        }
-        throw new Error("Failed to find events using AI. Please try again.");
-    }
-};
\ No newline at end of file
+        onMonthLoaded?.(result);
+        return result;
+    };
+
+    return Promise.all(months.map(({ month, year }) => new Promise<MonthEvents>(resolve => {
+        // A dropped month settles as cancelled, so the range as a whole still finishes.
+        const drop = () => resolve({ month, year, events: [], sources: [], error: new AIError('cancelled').message });
+        signal?.addEventListener('abort', drop, { once: true });
+        queue.add(() => loadMonth(month, year).then(resolve).finally(() => signal?.removeEventListener('abort', drop)));
+    })));
+};
@@ -0,0 +1,9 @@
+// FNV-1a, enough to key large values such as base64 images without storing them.
+export const hashString = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+};
@@ -0,0 +1,501 @@
+import { utcDate, addDays, easterSunday, nthWeekdayOfMonth } from './calendarMath';
+
+// Weekday numbers as returned by Date#getUTCDay.
+const SUN = 0, MON = 1, TUE = 2, WED = 3, THU = 4, FRI = 5, SAT = 6;
+
+const IST = 5.5;
+
+export type HolidayRule =
+    /** The same calendar day every year. */
+    | { kind: 'fixed'; month: number; day: number }
+    /** The nth weekday of a month; a negative `n` counts from the end of the month. */
+    | { kind: 'nthWeekday'; month: number; weekday: number; n: number }
+    /** The first given weekday on or after a calendar day. */
+    | { kind: 'weekdayOnOrAfter'; month: number; day: number; weekday: number }
+    /** Days relative to Western or Orthodox Easter Sunday. */
+    | { kind: 'easter'; offset: number; orthodox?: boolean }
+    /** A day of the tabular Islamic calendar. */
+    | { kind: 'islamic'; month: number; day: number }
+    /** A day of the Chinese (or, at UTC+9, Korean) lunisolar calendar. */
+    | { kind: 'chinese'; month: number; day: number; utcOffset?: number }
+    /** The first new or full moon on or after a calendar day, plus an optional offset in days. */
+    | { kind: 'moon'; phase: 'new' | 'full'; month: number; day: number; utcOffset: number; offset?: number }
+    /** Anything the rules above cannot express. */
+    | { kind: 'custom'; date: (year: number) => Date };
+
+export interface HolidayDefinition {
+    name: string;
+    description: string;
+    rule: HolidayRule;
+}
+
+const fixed = (month: number, day: number): HolidayRule => ({ kind: 'fixed', month, day });
+const nth = (n: number, weekday: number, month: number): HolidayRule => ({ kind: 'nthWeekday', month, weekday, n });
+const onOrAfter = (weekday: number, month: number, day: number): HolidayRule => ({ kind: 'weekdayOnOrAfter', month, day, weekday });
+const easter = (offset: number): HolidayRule => ({ kind: 'easter', offset });
+const orthodoxEaster = (offset: number): HolidayRule => ({ kind: 'easter', offset, orthodox: true });
+const islamic = (month: number, day: number): HolidayRule => ({ kind: 'islamic', month, day });
+const chinese = (month: number, day: number): HolidayRule => ({ kind: 'chinese', month, day });
+const korean = (month: number, day: number): HolidayRule => ({ kind: 'chinese', month, day, utcOffset: 9 });
+
+// Japanese equinox holidays, per the National Astronomical Observatory's
+// approximation (valid 1980-2099).
+const japaneseEquinox = (base: number) => (year: number): Date =>
+    utcDate(year, base > 22 ? 9 : 3, Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4)));
+
+// Qingming falls on the day of the "pure brightness" solar term (21st century).
+const qingming = (year: number): Date => {
+    const y = year % 100;
+    return utcDate(year, 4, Math.floor(y * 0.2422 + 4.81) - Math.floor(y / 4));
+};
+
+// Fête des Mères is the last Sunday of May, moved to the first Sunday of June when it clashes with Pentecost.
+const frenchMothersDay = (year: number): Date => {
+    const lastSundayOfMay = nthWeekdayOfMonth(year, 5, SUN, -1);
+    const pentecost = addDays(easterSunday(year), 49);
+    return lastSundayOfMay.getTime() === pentecost.getTime() ? addDays(lastSundayOfMay, 7) : lastSundayOfMay;
+};
+
+// Koningsdag moves to Saturday the 26th when the 27th is a Sunday.
+const kingsDay = (year: number): Date => {
+    const date = utcDate(year, 4, 27);
+    return date.getUTCDay() === SUN ? utcDate(year, 4, 26) : date;
+};
+
+const NEW_YEARS_DAY: HolidayDefinition = { name: "New Year's Day", description: 'The first day of the year, celebrated with fireworks, resolutions and fresh starts.', rule: fixed(1, 1) };
+const NEW_YEARS_EVE: HolidayDefinition = { name: "New Year's Eve", description: 'Countdowns, parties and fireworks to welcome the new year.', rule: fixed(12, 31) };
+const VALENTINES_DAY: HolidayDefinition = { name: "Valentine's Day", description: 'A celebration of love and romance with flowers, cards and gifts.', rule: fixed(2, 14) };
+const CHRISTMAS_EVE: HolidayDefinition = { name: 'Christmas Eve', description: 'The evening before Christmas, with family gatherings and festive dinners.', rule: fixed(12, 24) };
+const CHRISTMAS_DAY: HolidayDefinition = { name: 'Christmas Day', description: 'Family gatherings, gift giving, decorated trees and festive meals.', rule: fixed(12, 25) };
+const BOXING_DAY: HolidayDefinition = { name: 'Boxing Day', description: 'The day after Christmas, known for sports fixtures and big retail sales.', rule: fixed(12, 26) };
+const HALLOWEEN: HolidayDefinition = { name: 'Halloween', description: 'Costumes, carved pumpkins, trick-or-treating and spooky decorations.', rule: fixed(10, 31) };
+const GOOD_FRIDAY: HolidayDefinition = { name: 'Good Friday', description: 'The Friday before Easter, commemorating the crucifixion of Jesus.', rule: easter(-2) };
+const EASTER_SUNDAY: HolidayDefinition = { name: 'Easter Sunday', description: 'Celebrating the resurrection of Jesus, with egg hunts, spring flowers and family meals.', rule: easter(0) };
+const EASTER_MONDAY: HolidayDefinition = { name: 'Easter Monday', description: 'The day after Easter Sunday, a public holiday for family outings.', rule: easter(1) };
+const ASCENSION_DAY: HolidayDefinition = { name: 'Ascension Day', description: 'A Christian feast forty days after Easter.', rule: easter(39) };
+const WHIT_MONDAY: HolidayDefinition = { name: 'Whit Monday', description: 'The Monday after Pentecost, a spring public holiday.', rule: easter(50) };
+const LABOUR_DAY: HolidayDefinition = { name: 'Labour Day', description: "International Workers' Day, honouring workers with rallies and a day off.", rule: fixed(5, 1) };
+const ALL_SAINTS_DAY: HolidayDefinition = { name: "All Saints' Day", description: 'A day to remember saints and departed loved ones, often with cemetery visits and flowers.', rule: fixed(11, 1) };
+const ASSUMPTION_DAY: HolidayDefinition = { name: 'Assumption Day', description: 'A Catholic feast in mid-August and the peak of the summer holidays.', rule: fixed(8, 15) };
+const EPIPHANY: HolidayDefinition = { name: 'Epiphany', description: "Twelfth Night and the Three Kings' Day, closing the Christmas season.", rule: fixed(1, 6) };
+const IMMACULATE_CONCEPTION: HolidayDefinition = { name: 'Immaculate Conception', description: 'A Catholic feast that opens the Christmas season in many countries.', rule: fixed(12, 8) };
+const MOTHERS_DAY_MAY: HolidayDefinition = { name: "Mother's Day", description: 'Honouring mothers with flowers, cards, breakfasts and family time.', rule: nth(2, SUN, 5) };
+const FATHERS_DAY_JUNE: HolidayDefinition = { name: "Father's Day", description: 'Celebrating fathers with gifts, cards and family activities.', rule: nth(3, SUN, 6) };
+const EID_AL_FITR: HolidayDefinition = { name: 'Eid al-Fitr', description: 'The festival marking the end of Ramadan, with prayers, feasts, new clothes and gifts.', rule: islamic(10, 1) };
+const EID_AL_ADHA: HolidayDefinition = { name: 'Eid al-Adha', description: 'The Festival of Sacrifice, celebrated with prayers, shared meals and charity.', rule: islamic(12, 10) };
+const RAMADAN_START: HolidayDefinition = { name: 'Start of Ramadan', description: 'The beginning of the holy month of fasting, reflection and community iftars.', rule: islamic(9, 1) };
+const ISLAMIC_NEW_YEAR: HolidayDefinition = { name: 'Islamic New Year', description: 'The first day of Muharram and the start of the Hijri year.', rule: islamic(1, 1) };
+const MAWLID: HolidayDefinition = { name: 'Mawlid an-Nabi', description: 'The birthday of the Prophet Muhammad, marked with prayers, processions and gatherings.', rule: islamic(3, 12) };
+const CHINESE_NEW_YEAR: HolidayDefinition = { name: 'Chinese New Year', description: 'The Lunar New Year, with red decorations, lanterns, family reunions and fireworks.', rule: chinese(1, 1) };
+
+/** Rule-based holidays for every country in `COUNTRIES`, keyed by country code. */
+export const HOLIDAYS_BY_COUNTRY: Record<string, HolidayDefinition[]> = {
+    US: [
+        NEW_YEARS_DAY,
+        { name: 'Martin Luther King Jr. Day', description: 'Honouring the civil rights leader with service projects and reflection.', rule: nth(3, MON, 1) },
+        VALENTINES_DAY,
+        { name: "Presidents' Day", description: "Honouring US presidents; a popular weekend for retail sales.", rule: nth(3, MON, 2) },
+        { name: "St. Patrick's Day", description: 'Green outfits, shamrocks and parades celebrating Irish heritage.', rule: fixed(3, 17) },
+        EASTER_SUNDAY,
+        MOTHERS_DAY_MAY,
+        { name: 'Memorial Day', description: 'Honouring fallen service members; the unofficial start of summer.', rule: nth(-1, MON, 5) },
+        FATHERS_DAY_JUNE,
+        { name: 'Juneteenth', description: 'Commemorating the end of slavery in the United States.', rule: fixed(6, 19) },
+        { name: 'Independence Day', description: 'The Fourth of July, with fireworks, flags, barbecues and parades.', rule: fixed(7, 4) },
+        { name: 'Labor Day', description: 'Honouring workers; the unofficial end of summer and back-to-school season.', rule: nth(1, MON, 9) },
+        HALLOWEEN,
+        { name: 'Veterans Day', description: 'Honouring military veterans with ceremonies and parades.', rule: fixed(11, 11) },
+        { name: 'Thanksgiving', description: 'Family feasts, turkey dinners and giving thanks for the harvest.', rule: nth(4, THU, 11) },
+        { name: 'Black Friday', description: 'The biggest shopping day of the year and the start of holiday sales.', rule: onOrAfter(FRI, 11, 23) },
+        CHRISTMAS_EVE,
+        CHRISTMAS_DAY,
+        NEW_YEARS_EVE,
+    ],
+    GB: [
+        NEW_YEARS_DAY,
+        VALENTINES_DAY,
+        { name: 'Mothering Sunday', description: 'The UK Mother\'s Day, three weeks before Easter Sunday.', rule: easter(-21) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        EASTER_MONDAY,
+        { name: 'Early May Bank Holiday', description: 'A spring long weekend for outings and May Day celebrations.', rule: nth(1, MON, 5) },
+        { name: 'Spring Bank Holiday', description: 'A late-May long weekend, popular for travel and garden parties.', rule: nth(-1, MON, 5) },
+        FATHERS_DAY_JUNE,
+        { name: 'Summer Bank Holiday', description: 'The last long weekend of summer, with festivals and carnivals.', rule: nth(-1, MON, 8) },
+        HALLOWEEN,
+        { name: 'Bonfire Night', description: 'Guy Fawkes Night, with bonfires, fireworks and sparklers.', rule: fixed(11, 5) },
+        { name: 'Remembrance Sunday', description: 'Honouring the war dead with poppies and two minutes of silence.', rule: nth(2, SUN, 11) },
+        CHRISTMAS_DAY,
+        BOXING_DAY,
+    ],
+    CA: [
+        NEW_YEARS_DAY,
+        VALENTINES_DAY,
+        { name: 'Family Day', description: 'A February long weekend for family time in most provinces.', rule: nth(3, MON, 2) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        MOTHERS_DAY_MAY,
+        { name: 'Victoria Day', description: 'The unofficial start of summer, with fireworks and cottage trips.', rule: onOrAfter(MON, 5, 18) },
+        FATHERS_DAY_JUNE,
+        { name: 'Canada Day', description: 'National celebrations with red-and-white flags, concerts and fireworks.', rule: fixed(7, 1) },
+        { name: 'Civic Holiday', description: 'A summer long weekend in most provinces.', rule: nth(1, MON, 8) },
+        { name: 'Labour Day', description: 'Honouring workers; marks the end of summer and back to school.', rule: nth(1, MON, 9) },
+        { name: 'Thanksgiving', description: 'Canadian Thanksgiving, with harvest feasts and autumn colours.', rule: nth(2, MON, 10) },
+        HALLOWEEN,
+        { name: 'Remembrance Day', description: 'Honouring veterans with poppies and ceremonies.', rule: fixed(11, 11) },
+        CHRISTMAS_DAY,
+        BOXING_DAY,
+    ],
+    AU: [
+        NEW_YEARS_DAY,
+        { name: 'Australia Day', description: 'National day with barbecues, beach outings and citizenship ceremonies.', rule: fixed(1, 26) },
+        GOOD_FRIDAY,
+        EASTER_MONDAY,
+        { name: 'Anzac Day', description: 'Dawn services honouring Australian and New Zealand service members.', rule: fixed(4, 25) },
+        MOTHERS_DAY_MAY,
+        { name: "King's Birthday", description: 'A June long weekend in most states.', rule: nth(2, MON, 6) },
+        { name: "Father's Day", description: 'Australian Father\'s Day, celebrated in early spring.', rule: nth(1, SUN, 9) },
+        { name: 'Melbourne Cup', description: 'The race that stops a nation, with fashion, fascinators and parties.', rule: nth(1, TUE, 11) },
+        CHRISTMAS_DAY,
+        BOXING_DAY,
+    ],
+    DE: [
+        NEW_YEARS_DAY,
+        { name: 'Rose Monday', description: 'Rosenmontag, the height of carnival with parades in Cologne, Düsseldorf and Mainz.', rule: easter(-48) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        EASTER_MONDAY,
+        LABOUR_DAY,
+        MOTHERS_DAY_MAY,
+        ASCENSION_DAY,
+        WHIT_MONDAY,
+        { name: 'Oktoberfest', description: "Munich's world-famous beer festival opens with traditional costumes and brass bands.", rule: onOrAfter(SAT, 9, 16) },
+        { name: 'German Unity Day', description: 'Celebrating the reunification of Germany in 1990.', rule: fixed(10, 3) },
+        { name: "St. Martin's Day", description: 'Children carry lanterns through the streets in evening processions.', rule: fixed(11, 11) },
+        { name: 'First Sunday of Advent', description: 'The start of the Christmas season and the opening of Christmas markets.', rule: onOrAfter(SUN, 11, 27) },
+        { name: 'St. Nicholas Day', description: 'Children find sweets and small gifts in their boots.', rule: fixed(12, 6) },
+        CHRISTMAS_EVE,
+        CHRISTMAS_DAY,
+        { name: 'Second Day of Christmas', description: 'A second Christmas holiday for family visits.', rule: fixed(12, 26) },
+        NEW_YEARS_EVE,
+    ],
+    FR: [
+        NEW_YEARS_DAY,
+        EPIPHANY,
+        { name: 'Candlemas', description: 'La Chandeleur, when families make crêpes.', rule: fixed(2, 2) },
+        EASTER_MONDAY,
+        LABOUR_DAY,
+        { name: 'Victory in Europe Day', description: 'Commemorating the end of the Second World War in Europe.', rule: fixed(5, 8) },
+        ASCENSION_DAY,
+        WHIT_MONDAY,
+        { name: "Mother's Day", description: 'Fête des Mères, honouring mothers with flowers and family meals.', rule: { kind: 'custom', date: frenchMothersDay } },
+        { name: 'Fête de la Musique', description: 'Free concerts in streets and squares on the summer solstice.', rule: fixed(6, 21) },
+        { name: 'Bastille Day', description: 'The French National Day, with military parades and fireworks.', rule: fixed(7, 14) },
+        ASSUMPTION_DAY,
+        ALL_SAINTS_DAY,
+        { name: 'Armistice Day', description: 'Commemorating the end of the First World War.', rule: fixed(11, 11) },
+        { name: 'Beaujolais Nouveau Day', description: 'The release of the new vintage, celebrated in bistros worldwide.', rule: nth(3, THU, 11) },
+        CHRISTMAS_DAY,
+    ],
+    ES: [
+        NEW_YEARS_DAY,
+        { name: 'Three Kings Day', description: 'Día de Reyes, when children receive gifts and families share roscón.', rule: fixed(1, 6) },
+        { name: 'Maundy Thursday', description: 'Holy Week processions fill the streets across Spain.', rule: easter(-3) },
+        GOOD_FRIDAY,
+        LABOUR_DAY,
+        { name: "Mother's Day", description: 'Día de la Madre, honouring mothers in Spain.', rule: nth(1, SUN, 5) },
+        { name: "St. John's Eve", description: 'Noche de San Juan, with bonfires on beaches to welcome summer.', rule: fixed(6, 23) },
+        { name: 'La Tomatina', description: 'The famous tomato fight in Buñol.', rule: nth(-1, WED, 8) },
+        ASSUMPTION_DAY,
+        { name: 'National Day of Spain', description: 'Fiesta Nacional, with a military parade in Madrid.', rule: fixed(10, 12) },
+        ALL_SAINTS_DAY,
+        { name: 'Constitution Day', description: 'Celebrating the Spanish Constitution of 1978.', rule: fixed(12, 6) },
+        IMMACULATE_CONCEPTION,
+        CHRISTMAS_DAY,
+    ],
+    IT: [
+        NEW_YEARS_DAY,
+        EPIPHANY,
+        { name: 'Carnival', description: "Martedì Grasso, the climax of carnival with Venice's masks and parades.", rule: easter(-47) },
+        EASTER_SUNDAY,
+        { name: 'Easter Monday', description: 'Pasquetta, traditionally spent on picnics and countryside trips.', rule: easter(1) },
+        { name: 'Liberation Day', description: "Commemorating Italy's liberation at the end of the Second World War.", rule: fixed(4, 25) },
+        LABOUR_DAY,
+        MOTHERS_DAY_MAY,
+        { name: 'Republic Day', description: 'Festa della Repubblica, with the Frecce Tricolori over Rome.', rule: fixed(6, 2) },
+        { name: 'Ferragosto', description: 'The peak of the Italian summer holidays, with beach trips and feasts.', rule: fixed(8, 15) },
+        ALL_SAINTS_DAY,
+        IMMACULATE_CONCEPTION,
+        CHRISTMAS_DAY,
+        { name: "St. Stephen's Day", description: 'Santo Stefano, a second day of Christmas celebrations.', rule: fixed(12, 26) },
+    ],
+    JP: [
+        { name: 'Shōgatsu', description: 'Japanese New Year, with shrine visits, kadomatsu and osechi cuisine.', rule: fixed(1, 1) },
+        { name: 'Coming of Age Day', description: 'Celebrating young adults turning 20, dressed in kimono and suits.', rule: nth(2, MON, 1) },
+        { name: 'National Foundation Day', description: 'Commemorating the founding of Japan.', rule: fixed(2, 11) },
+        VALENTINES_DAY,
+        { name: 'White Day', description: 'A month after Valentine\'s Day, return gifts are given.', rule: fixed(3, 14) },
+        { name: 'Vernal Equinox Day', description: 'A spring holiday for visiting family graves and welcoming the season.', rule: { kind: 'custom', date: japaneseEquinox(20.8431) } },
+        { name: 'Shōwa Day', description: 'The start of Golden Week, Japan\'s busiest holiday period.', rule: fixed(4, 29) },
+        { name: 'Constitution Memorial Day', description: 'A Golden Week holiday commemorating the 1947 constitution.', rule: fixed(5, 3) },
+        { name: "Children's Day", description: 'Carp streamers (koinobori) fly to celebrate children\'s happiness.', rule: fixed(5, 5) },
+        { name: 'Tanabata', description: 'The star festival, with wishes written on paper strips tied to bamboo.', rule: fixed(7, 7) },
+        { name: 'Marine Day', description: 'Celebrating the ocean at the start of the summer season.', rule: nth(3, MON, 7) },
+        { name: 'Mountain Day', description: 'A holiday to appreciate Japan\'s mountains.', rule: fixed(8, 11) },
+        { name: 'Obon', description: 'Honouring ancestral spirits with lanterns, bon odori dances and family reunions.', rule: fixed(8, 13) },
+        { name: 'Respect for the Aged Day', description: 'Honouring elderly citizens.', rule: nth(3, MON, 9) },
+        { name: 'Autumnal Equinox Day', description: 'An autumn holiday for visiting family graves.', rule: { kind: 'custom', date: japaneseEquinox(23.2488) } },
+        { name: 'Sports Day', description: 'Sports festivals held at schools and communities across Japan.', rule: nth(2, MON, 10) },
+        { name: 'Culture Day', description: 'Promoting culture, the arts and academic endeavour.', rule: fixed(11, 3) },
+        { name: 'Shichi-Go-San', description: 'Children aged three, five and seven visit shrines in traditional dress.', rule: fixed(11, 15) },
+        { name: 'Labour Thanksgiving Day', description: 'Giving thanks for work and production.', rule: fixed(11, 23) },
+        CHRISTMAS_EVE,
+        { name: 'Ōmisoka', description: "New Year's Eve, with toshikoshi soba and temple bells at midnight.", rule: fixed(12, 31) },
+    ],
+    KR: [
+        NEW_YEARS_DAY,
+        { name: 'Seollal', description: 'Korean Lunar New Year, with hanbok, ancestral rites and tteokguk.', rule: korean(1, 1) },
+        { name: 'Independence Movement Day', description: 'Commemorating the March 1st Movement of 1919.', rule: fixed(3, 1) },
+        { name: "Children's Day", description: 'A day of outings and gifts for children.', rule: fixed(5, 5) },
+        { name: "Buddha's Birthday", description: 'Temples are decorated with colourful lotus lanterns.', rule: korean(4, 8) },
+        { name: "Parents' Day", description: 'Children honour their parents with red carnations.', rule: fixed(5, 8) },
+        { name: 'Memorial Day', description: 'Honouring those who died serving the nation.', rule: fixed(6, 6) },
+        { name: 'Liberation Day', description: 'Gwangbokjeol, celebrating liberation from Japanese rule in 1945.', rule: fixed(8, 15) },
+        { name: 'Chuseok', description: 'The Korean harvest festival, with family gatherings, songpyeon and ancestral rites.', rule: korean(8, 15) },
+        { name: 'National Foundation Day', description: 'Gaecheonjeol, commemorating the founding of the first Korean state.', rule: fixed(10, 3) },
+        { name: 'Hangul Day', description: 'Celebrating the creation of the Korean alphabet.', rule: fixed(10, 9) },
+        { name: 'Pepero Day', description: 'Friends and couples exchange Pepero stick snacks.', rule: fixed(11, 11) },
+        CHRISTMAS_DAY,
+    ],
+    CN: [
+        NEW_YEARS_DAY,
+        { ...CHINESE_NEW_YEAR, name: 'Spring Festival' },
+        { name: 'Lantern Festival', description: 'The end of New Year celebrations, with lanterns, riddles and tangyuan.', rule: chinese(1, 15) },
+        { name: 'Qingming Festival', description: 'Tomb-sweeping day for honouring ancestors and spring outings.', rule: { kind: 'custom', date: qingming } },
+        LABOUR_DAY,
+        { name: 'Dragon Boat Festival', description: 'Dragon boat races and zongzi rice dumplings.', rule: chinese(5, 5) },
+        { name: 'Qixi Festival', description: 'The Chinese Valentine\'s Day, based on the legend of the cowherd and the weaver girl.', rule: chinese(7, 7) },
+        { name: 'Mid-Autumn Festival', description: 'Mooncakes, lanterns and family reunions under the full moon.', rule: chinese(8, 15) },
+        { name: 'National Day', description: 'Golden Week begins, with flags, celebrations and travel.', rule: fixed(10, 1) },
+        { name: "Singles' Day", description: 'Double 11, the world\'s largest online shopping festival.', rule: fixed(11, 11) },
+    ],
+    BR: [
+        NEW_YEARS_DAY,
+        { name: 'Carnival', description: 'Samba parades, costumes and street parties across Brazil.', rule: easter(-47) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        { name: 'Tiradentes Day', description: 'Honouring the hero of Brazilian independence.', rule: fixed(4, 21) },
+        LABOUR_DAY,
+        MOTHERS_DAY_MAY,
+        { name: "Valentine's Day", description: 'Dia dos Namorados, Brazil\'s day for couples.', rule: fixed(6, 12) },
+        { name: 'Festa Junina', description: "St. John's festivities with bonfires, quadrilha dances and country costumes.", rule: fixed(6, 24) },
+        { name: 'Corpus Christi', description: 'Streets decorated with colourful sawdust carpets.', rule: easter(60) },
+        { name: "Father's Day", description: 'Dia dos Pais, celebrated in August in Brazil.', rule: nth(2, SUN, 8) },
+        { name: 'Independence Day', description: 'Celebrating independence from Portugal with parades.', rule: fixed(9, 7) },
+        { name: "Children's Day", description: 'Also Our Lady of Aparecida, patron saint of Brazil.', rule: fixed(10, 12) },
+        { name: 'All Souls\' Day', description: 'Finados, when families visit the graves of loved ones.', rule: fixed(11, 2) },
+        { name: 'Black Consciousness Day', description: 'Celebrating Afro-Brazilian culture and history.', rule: fixed(11, 20) },
+        CHRISTMAS_DAY,
+    ],
+    MX: [
+        NEW_YEARS_DAY,
+        { name: 'Three Kings Day', description: 'Día de Reyes, shared with rosca de reyes and gifts for children.', rule: fixed(1, 6) },
+        { name: 'Constitution Day', description: 'Commemorating the 1917 Mexican constitution.', rule: nth(1, MON, 2) },
+        { name: "Benito Juárez's Birthday", description: 'Honouring the former president and national hero.', rule: nth(3, MON, 3) },
+        GOOD_FRIDAY,
+        { name: "Children's Day", description: 'Día del Niño, with games, parties and gifts.', rule: fixed(4, 30) },
+        LABOUR_DAY,
+        { name: 'Cinco de Mayo', description: 'Commemorating the Battle of Puebla with parades and celebrations.', rule: fixed(5, 5) },
+        { name: "Mother's Day", description: 'Día de las Madres, one of Mexico\'s most celebrated days.', rule: fixed(5, 10) },
+        FATHERS_DAY_JUNE,
+        { name: 'Independence Day', description: 'El Grito and celebrations of independence with flags and fireworks.', rule: fixed(9, 16) },
+        { name: 'Day of the Dead', description: 'Día de Muertos, with altars, marigolds, sugar skulls and Catrina makeup.', rule: fixed(11, 2) },
+        { name: 'Revolution Day', description: 'Commemorating the start of the Mexican Revolution.', rule: nth(3, MON, 11) },
+        { name: 'Day of the Virgin of Guadalupe', description: 'Pilgrimages and celebrations honouring the patron saint of Mexico.', rule: fixed(12, 12) },
+        CHRISTMAS_DAY,
+    ],
+    AR: [
+        NEW_YEARS_DAY,
+        { name: 'Carnival', description: 'Carnival Monday and Tuesday, with murgas and parades.', rule: easter(-48) },
+        { name: 'Day of Remembrance for Truth and Justice', description: 'Commemorating the victims of the last military dictatorship.', rule: fixed(3, 24) },
+        { name: 'Malvinas Day', description: 'Honouring veterans and the fallen of the Falklands War.', rule: fixed(4, 2) },
+        GOOD_FRIDAY,
+        LABOUR_DAY,
+        { name: 'May Revolution Day', description: 'Commemorating the 1810 revolution with locro and patriotic events.', rule: fixed(5, 25) },
+        FATHERS_DAY_JUNE,
+        { name: 'Flag Day', description: 'Honouring Manuel Belgrano, creator of the Argentine flag.', rule: fixed(6, 20) },
+        { name: 'Independence Day', description: 'Celebrating the 1816 declaration of independence.', rule: fixed(7, 9) },
+        { name: "Children's Day", description: 'Día de las Infancias, with gifts and family outings.', rule: nth(3, SUN, 8) },
+        { name: "Mother's Day", description: 'Día de la Madre, celebrated in October in Argentina.', rule: nth(3, SUN, 10) },
+        IMMACULATE_CONCEPTION,
+        CHRISTMAS_DAY,
+    ],
+    IN: [
+        NEW_YEARS_DAY,
+        { name: 'Makar Sankranti', description: 'The harvest festival, with kite flying and sesame sweets.', rule: fixed(1, 14) },
+        { name: 'Republic Day', description: 'Parades and tricolour celebrations of the Indian constitution.', rule: fixed(1, 26) },
+        { name: 'Holi', description: 'The festival of colours, with coloured powder, water and spring celebrations.', rule: { kind: 'moon', phase: 'full', month: 2, day: 28, utcOffset: IST } },
+        EID_AL_FITR,
+        EID_AL_ADHA,
+        { name: 'Independence Day', description: 'Flag hoisting, kites and patriotic celebrations.', rule: fixed(8, 15) },
+        { name: 'Raksha Bandhan', description: 'Sisters tie rakhi threads on their brothers\' wrists.', rule: { kind: 'moon', phase: 'full', month: 8, day: 3, utcOffset: IST } },
+        { name: 'Gandhi Jayanti', description: "Honouring Mahatma Gandhi's birthday.", rule: fixed(10, 2) },
+        { name: 'Dussehra', description: 'Celebrating the victory of good over evil with Ravana effigies and fairs.', rule: { kind: 'moon', phase: 'new', month: 9, day: 17, utcOffset: IST, offset: 10 } },
+        { name: 'Diwali', description: 'The festival of lights, with diyas, rangoli, sweets and fireworks.', rule: { kind: 'moon', phase: 'new', month: 10, day: 18, utcOffset: IST, offset: -1 } },
+        CHRISTMAS_DAY,
+    ],
+    ID: [
+        NEW_YEARS_DAY,
+        { name: 'Chinese New Year', description: 'Imlek, celebrated with lion dances and red lanterns.', rule: chinese(1, 1) },
+        { name: "Isra and Mi'raj", description: "Commemorating the Prophet's night journey.", rule: islamic(7, 27) },
+        { name: 'Kartini Day', description: 'Honouring women\'s emancipation pioneer R.A. Kartini, often in kebaya.', rule: fixed(4, 21) },
+        GOOD_FRIDAY,
+        { ...EID_AL_FITR, name: 'Eid al-Fitr (Lebaran)', description: 'The end of Ramadan and the mudik homecoming, with ketupat and family visits.' },
+        LABOUR_DAY,
+        { name: 'Vesak', description: 'Buddhist celebrations with lantern releases at Borobudur.', rule: { kind: 'moon', phase: 'full', month: 5, day: 6, utcOffset: 7 } },
+        ASCENSION_DAY,
+        { name: 'Pancasila Day', description: 'Celebrating the state ideology of Indonesia.', rule: fixed(6, 1) },
+        EID_AL_ADHA,
+        ISLAMIC_NEW_YEAR,
+        { name: 'Independence Day', description: 'Red-and-white flags, parades and traditional games.', rule: fixed(8, 17) },
+        MAWLID,
+        CHRISTMAS_DAY,
+    ],
+    PK: [
+        { name: 'Kashmir Solidarity Day', description: 'A day of solidarity with the people of Kashmir.', rule: fixed(2, 5) },
+        { name: 'Pakistan Day', description: 'Commemorating the Lahore Resolution with parades.', rule: fixed(3, 23) },
+        RAMADAN_START,
+        EID_AL_FITR,
+        LABOUR_DAY,
+        EID_AL_ADHA,
+        { name: 'Ashura', description: 'The tenth of Muharram, observed with processions and mourning.', rule: islamic(1, 10) },
+        { name: 'Independence Day', description: 'Green-and-white flags, fireworks and national celebrations.', rule: fixed(8, 14) },
+        { ...MAWLID, name: 'Eid Milad-un-Nabi' },
+        { name: 'Iqbal Day', description: 'Honouring the poet-philosopher Allama Iqbal.', rule: fixed(11, 9) },
+        { name: 'Quaid-e-Azam Day', description: "The birthday of Pakistan's founder, also celebrated as Christmas.", rule: fixed(12, 25) },
+    ],
+    ZA: [
+        NEW_YEARS_DAY,
+        { name: 'Human Rights Day', description: 'Commemorating the Sharpeville massacre and human rights.', rule: fixed(3, 21) },
+        GOOD_FRIDAY,
+        { name: 'Family Day', description: 'The Monday after Easter, a day for family.', rule: easter(1) },
+        { name: 'Freedom Day', description: "Celebrating South Africa's first democratic elections in 1994.", rule: fixed(4, 27) },
+        { name: "Workers' Day", description: 'Honouring workers and the labour movement.', rule: fixed(5, 1) },
+        MOTHERS_DAY_MAY,
+        { name: 'Youth Day', description: 'Commemorating the 1976 Soweto uprising.', rule: fixed(6, 16) },
+        FATHERS_DAY_JUNE,
+        { name: 'Mandela Day', description: "67 minutes of community service on Nelson Mandela's birthday.", rule: fixed(7, 18) },
+        { name: "National Women's Day", description: "Commemorating the 1956 women's march.", rule: fixed(8, 9) },
+        { name: 'Heritage Day', description: 'Celebrating cultural diversity, also known as National Braai Day.', rule: fixed(9, 24) },
+        { name: 'Day of Reconciliation', description: 'Promoting reconciliation and national unity.', rule: fixed(12, 16) },
+        CHRISTMAS_DAY,
+        { name: 'Day of Goodwill', description: 'The day after Christmas.', rule: fixed(12, 26) },
+    ],
+    EG: [
+        { name: 'Coptic Christmas', description: 'Orthodox Christmas celebrated by Egypt\'s Coptic community.', rule: fixed(1, 7) },
+        { name: 'Revolution Day', description: 'Commemorating the January 25 revolution and Police Day.', rule: fixed(1, 25) },
+        { name: "Mother's Day", description: 'Egyptian Mother\'s Day on the first day of spring.', rule: fixed(3, 21) },
+        RAMADAN_START,
+        { name: 'Sham El-Nessim', description: 'The ancient spring festival, with picnics and coloured eggs.', rule: orthodoxEaster(1) },
+        { name: 'Sinai Liberation Day', description: "Commemorating the return of Sinai.", rule: fixed(4, 25) },
+        LABOUR_DAY,
+        EID_AL_FITR,
+        EID_AL_ADHA,
+        ISLAMIC_NEW_YEAR,
+        { name: 'June 30 Revolution', description: 'Commemorating the 2013 protests.', rule: fixed(6, 30) },
+        { name: 'Revolution Day (July 23)', description: 'Commemorating the 1952 revolution.', rule: fixed(7, 23) },
+        MAWLID,
+        { name: 'Armed Forces Day', description: 'Commemorating the 1973 crossing of the Suez Canal.', rule: fixed(10, 6) },
+    ],
+    NG: [
+        NEW_YEARS_DAY,
+        GOOD_FRIDAY,
+        EASTER_MONDAY,
+        { name: "Workers' Day", description: 'Honouring workers with rallies and a day off.', rule: fixed(5, 1) },
+        { name: "Children's Day", description: 'School celebrations, parades and outings for children.', rule: fixed(5, 27) },
+        { name: 'Democracy Day', description: 'Celebrating the return to democratic rule.', rule: fixed(6, 12) },
+        EID_AL_FITR,
+        EID_AL_ADHA,
+        { name: 'Independence Day', description: 'Green-white-green celebrations of independence from Britain.', rule: fixed(10, 1) },
+        MAWLID,
+        CHRISTMAS_DAY,
+        BOXING_DAY,
+    ],
+    RU: [
+        NEW_YEARS_DAY,
+        { name: 'Orthodox Christmas', description: 'Russian Orthodox Christmas, with church services and family meals.', rule: fixed(1, 7) },
+        { name: 'Defender of the Fatherland Day', description: "Honouring servicemen; widely celebrated as men's day.", rule: fixed(2, 23) },
+        { name: 'Maslenitsa', description: 'Pancake week ends with Forgiveness Sunday and a straw effigy burning.', rule: orthodoxEaster(-49) },
+        { name: "International Women's Day", description: 'Flowers, gifts and celebrations for women.', rule: fixed(3, 8) },
+        { name: 'Orthodox Easter', description: 'Kulich cakes, painted eggs and midnight church services.', rule: orthodoxEaster(0) },
+        { name: 'Spring and Labour Day', description: 'A spring holiday and the start of dacha season.', rule: fixed(5, 1) },
+        { name: 'Victory Day', description: 'Commemorating victory in the Second World War with parades.', rule: fixed(5, 9) },
+        { name: 'Russia Day', description: 'National day with concerts and fireworks.', rule: fixed(6, 12) },
+        { name: 'Knowledge Day', description: 'The first day of school, with flowers for teachers.', rule: fixed(9, 1) },
+        { name: 'Unity Day', description: 'National Unity Day.', rule: fixed(11, 4) },
+        { name: "Mother's Day", description: 'Russian Mother\'s Day.', rule: nth(-1, SUN, 11) },
+        NEW_YEARS_EVE,
+    ],
+    TR: [
+        NEW_YEARS_DAY,
+        { name: "National Sovereignty and Children's Day", description: 'Children take symbolic seats in parliament; festivals nationwide.', rule: fixed(4, 23) },
+        { name: 'Labour and Solidarity Day', description: 'Honouring workers.', rule: fixed(5, 1) },
+        MOTHERS_DAY_MAY,
+        { name: 'Youth and Sports Day', description: 'Commemorating Atatürk with youth and sports events.', rule: fixed(5, 19) },
+        { ...EID_AL_FITR, name: 'Ramazan Bayramı', description: 'The end of Ramadan, with sweets, family visits and gifts for children.' },
+        { ...EID_AL_ADHA, name: 'Kurban Bayramı', description: 'The Feast of Sacrifice, with shared meals and charity.' },
+        { name: 'Democracy and National Unity Day', description: 'Commemorating the events of 15 July 2016.', rule: fixed(7, 15) },
+        { name: 'Victory Day', description: 'Commemorating the 1922 Battle of Dumlupınar.', rule: fixed(8, 30) },
+        { name: 'Republic Day', description: 'Celebrating the 1923 founding of the Republic with flags and fireworks.', rule: fixed(10, 29) },
+    ],
+    NL: [
+        NEW_YEARS_DAY,
+        VALENTINES_DAY,
+        { name: 'Carnival', description: 'Carnival in the southern provinces, with costumes and parades.', rule: easter(-49) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        EASTER_MONDAY,
+        { name: "King's Day", description: 'Koningsdag: orange clothing, street markets and festivals.', rule: { kind: 'custom', date: kingsDay } },
+        { name: 'Remembrance of the Dead', description: 'Two minutes of silence for war victims.', rule: fixed(5, 4) },
+        { name: 'Liberation Day', description: 'Celebrating the end of the German occupation with festivals.', rule: fixed(5, 5) },
+        MOTHERS_DAY_MAY,
+        ASCENSION_DAY,
+        WHIT_MONDAY,
+        { name: "Prince's Day", description: "Prinsjesdag, the King's speech opening the parliamentary year.", rule: nth(3, TUE, 9) },
+        { name: 'Sinterklaas', description: 'St. Nicholas Eve, with gifts, poems and pepernoten.', rule: fixed(12, 5) },
+        CHRISTMAS_DAY,
+        { name: 'Second Day of Christmas', description: 'A second Christmas holiday for family visits.', rule: fixed(12, 26) },
+    ],
+    SE: [
+        NEW_YEARS_DAY,
+        EPIPHANY,
+        { name: 'Semla Day', description: 'Fettisdagen, when Swedes eat cream-filled semla buns.', rule: easter(-47) },
+        GOOD_FRIDAY,
+        EASTER_SUNDAY,
+        EASTER_MONDAY,
+        { name: 'Walpurgis Night', description: 'Valborg bonfires and songs to welcome spring.', rule: fixed(4, 30) },
+        { name: 'May Day', description: 'International Workers\' Day.', rule: fixed(5, 1) },
+        ASCENSION_DAY,
+        { name: 'National Day of Sweden', description: 'Blue-and-yellow flags and celebrations.', rule: fixed(6, 6) },
+        { name: 'Midsummer Eve', description: 'Maypole dancing, flower crowns, herring and strawberries.', rule: onOrAfter(FRI, 6, 19) },
+        { name: 'Cinnamon Bun Day', description: 'Kanelbullens dag, celebrating the cinnamon bun.', rule: fixed(10, 4) },
+        { name: "All Saints' Day", description: 'Candles are lit on graves across Sweden.', rule: onOrAfter(SAT, 10, 31) },
+        { name: "St. Lucia's Day", description: 'Processions of white-robed singers with candle crowns.', rule: fixed(12, 13) },
+        CHRISTMAS_EVE,
+        CHRISTMAS_DAY,
+        BOXING_DAY,
+    ],
+    CH: [
+        NEW_YEARS_DAY,
+        { name: "Berchtold's Day", description: 'A second New Year holiday in many cantons.', rule: fixed(1, 2) },
+        { name: 'Basel Carnival', description: 'Basler Fasnacht begins with the Morgestraich at 4 a.m.', rule: easter(-41) },
+        GOOD_FRIDAY,
+        EASTER_MONDAY,
+        { name: 'Sechseläuten', description: "Zurich's spring festival, burning the Böögg snowman.", rule: nth(3, MON, 4) },
+        ASCENSION_DAY,
+        WHIT_MONDAY,
+        { name: 'Swiss National Day', description: 'Bonfires, lanterns and fireworks on 1 August.', rule: fixed(8, 1) },
+        CHRISTMAS_DAY,
+        { name: "St. Stephen's Day", description: 'A second day of Christmas celebrations.', rule: fixed(12, 26) },
+    ],
+};
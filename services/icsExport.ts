@@ -0,0 +1,134 @@
+import type { Event, GroundingSource } from '../types';
+import { COUNTRIES } from '../constants';
+import { eventCountries } from './eventService';
+import { earliestDeadlines } from './plannerService';
+
+// iCalendar (RFC 5545) serialisation of events and their upload deadlines.
+
+export interface IcsExportOptions {
+    /** Grounding sources to link from every event's description. */
+    sources?: GroundingSource[];
+    /** Add an all-day reminder entry on each event's strictest upload-by date. */
+    includeUploadDeadlines?: boolean;
+    calendarName?: string;
+}
+
+const PRODUCT_ID = '-//AI Content Engine//Event Finder//EN';
+const UID_DOMAIN = 'ai-content-engine.local';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// TEXT values escape backslashes, semicolons, commas and newlines (RFC 5545 §3.3.11).
+const escapeText = (value: string): string =>
+    value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting
+// multi-byte characters (RFC 5545 §3.1).
+const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+        current += char;
+        currentOctets += octets;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const toDateValue = (isoDate: string): string => isoDate.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (isoDate: string): string => {
+    const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+};
+
+const toTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const isValidDate = (isoDate: string): boolean =>
+    /^\d{4}-\d{2}-\d{2}/.test(isoDate) && !isNaN(new Date(`${isoDate.slice(0, 10)}T00:00:00Z`).getTime());
+
+const uidFor = (event: Event, suffix: string): string =>
+    `${[...eventCountries(event), event.name, event.date, suffix].join('-').toLowerCase().replace(/[^a-z0-9-]+/g, '-')}@${UID_DOMAIN}`;
+
+const countryNames = (event: Event): string =>
+    COUNTRIES.filter(c => eventCountries(event).includes(c.code)).map(c => c.name).join(', ') || eventCountries(event).join(', ');
+
+const allDayEvent = (fields: { uid: string; date: string; summary: string; description: string; location?: string; categories: string; stamp: string; alarm?: string }): string[] => [
+    'BEGIN:VEVENT',
+    `UID:${fields.uid}`,
+    `DTSTAMP:${fields.stamp}`,
+    `DTSTART;VALUE=DATE:${toDateValue(fields.date)}`,
+    `DTEND;VALUE=DATE:${toDateValue(nextDay(fields.date))}`,
+    `SUMMARY:${escapeText(fields.summary)}`,
+    `DESCRIPTION:${escapeText(fields.description)}`,
+    ...(fields.location ? [`LOCATION:${escapeText(fields.location)}`] : []),
+    `CATEGORIES:${fields.categories}`,
+    'TRANSP:TRANSPARENT',
+    ...(fields.alarm
+        ? ['BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(fields.alarm)}`, 'TRIGGER:-P1D', 'END:VALARM']
+        : []),
+    'END:VEVENT',
+];
+
+/** Build an .ics document with one all-day entry per event. Events without a valid date are skipped. */
+export const buildIcsCalendar = (events: Event[], options: IcsExportOptions = {}): string => {
+    const stamp = toTimestamp(new Date());
+    const sourceLines = (options.sources ?? []).map(source => `${source.title || source.uri}: ${source.uri}`);
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+    ];
+
+    for (const event of events.filter(e => isValidDate(e.date))) {
+        const location = countryNames(event);
+        const description = [
+            event.description,
+            `Countries: ${location}`,
+            ...(sourceLines.length > 0 ? ['', 'Sources:', ...sourceLines] : []),
+        ].join('\n');
+        lines.push(...allDayEvent({
+            uid: uidFor(event, 'event'),
+            date: event.date,
+            summary: event.name,
+            description,
+            location,
+            categories: 'EVENT',
+            stamp,
+        }));
+
+        if (options.includeUploadDeadlines && event.schedule) {
+            const uploadBy = earliestDeadlines(event.schedule).upload;
+            const perPlatform = event.schedule.platforms.map(p => `${p.platform}: shoot by ${p.shootBy}, edit by ${p.editBy}, upload by ${p.uploadBy}`);
+            lines.push(...allDayEvent({
+                uid: uidFor(event, 'upload-deadline'),
+                date: uploadBy,
+                summary: `Upload deadline: ${event.name}`,
+                description: [`${event.schedule.contentType} content for ${event.name} (${event.date}) must be uploaded today.`, '', ...perPlatform].join('\n'),
+                categories: 'DEADLINE',
+                stamp,
+                alarm: `Upload deadline tomorrow for ${event.name}`,
+            }));
+        }
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
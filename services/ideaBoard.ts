@@ -0,0 +1,125 @@
+import type { ContentIdea, ContentType, HotTopic, IdeaCollection, IdeaKind, SavedIdea, SellingConcept, TrendingIdea } from '../types';
+import { createLocalStore } from './localStore';
+import { hashString } from './hash';
+
+// Ideas from every tab can be saved to one board. Each kind is flattened into
+// the same shape so the board can sort, group and annotate them together.
+
+export const savedIdeasStore = createLocalStore<SavedIdea[]>('aice.savedIdeas', []);
+export const ideaCollectionsStore = createLocalStore<IdeaCollection[]>('aice.ideaCollections', []);
+
+export const IDEA_KIND_LABELS: Record<IdeaKind, string> = {
+    contentIdea: 'Event idea',
+    sellingConcept: 'Selling concept',
+    trendingIdea: 'Trend idea',
+    hotTopic: 'Hot topic',
+};
+
+/** What a card hands to `saveIdea`; board-only fields are filled in on save. */
+export type IdeaDraft = Pick<SavedIdea, 'kind' | 'title' | 'description' | 'keywords' | 'origin'> &
+    Partial<Pick<SavedIdea, 'targetAudience' | 'contentType' | 'targetDate' | 'eventDate'>>;
+
+// The same idea saved twice from the same place maps to one board entry.
+export const savedIdeaId = (draft: IdeaDraft): string => `idea-${hashString(`${draft.kind}|${draft.origin}|${draft.title}`)}`;
+
+export const contentIdeaDraft = (idea: ContentIdea, eventName: string, eventDate: string, contentType: ContentType): IdeaDraft => ({
+    kind: 'contentIdea',
+    title: idea.title,
+    description: idea.description,
+    keywords: idea.keywords,
+    origin: eventName,
+    contentType,
+    targetDate: eventDate.slice(0, 10),
+    eventDate: eventDate.slice(0, 10),
+});
+
+export const sellingConceptDraft = (concept: SellingConcept, eventName: string, eventDate: string, contentType: ContentType): IdeaDraft => ({
+    kind: 'sellingConcept',
+    title: concept.concept,
+    description: concept.description,
+    keywords: concept.keywords,
+    targetAudience: concept.targetAudience,
+    origin: eventName,
+    contentType,
+    targetDate: eventDate.slice(0, 10),
+    eventDate: eventDate.slice(0, 10),
+});
+
+export const trendingIdeaDraft = (idea: TrendingIdea, theme: string, contentType: ContentType): IdeaDraft => ({
+    kind: 'trendingIdea',
+    title: idea.title,
+    description: idea.description,
+    keywords: idea.keywords,
+    origin: theme,
+    contentType,
+});
+
+export const hotTopicDraft = (topic: HotTopic): IdeaDraft => ({
+    kind: 'hotTopic',
+    title: topic.topic,
+    description: topic.reason,
+    keywords: [],
+    origin: 'Market Pulse',
+});
+
+export const saveIdea = (draft: IdeaDraft): void => {
+    const id = savedIdeaId(draft);
+    savedIdeasStore.set(previous => [
+        ...previous.filter(idea => idea.id !== id),
+        { collectionId: null, notes: '', targetDate: null, ...draft, id, savedAt: new Date().toISOString() },
+    ]);
+};
+
+export const removeSavedIdea = (id: string): void => {
+    savedIdeasStore.set(previous => previous.filter(idea => idea.id !== id));
+};
+
+export const updateSavedIdea = (id: string, patch: Partial<Pick<SavedIdea, 'collectionId' | 'notes' | 'targetDate'>>): void => {
+    savedIdeasStore.set(previous => previous.map(idea => (idea.id === id ? { ...idea, ...patch } : idea)));
+};
+
+/** Save the idea, or remove it when it is already on the board. */
+export const toggleSavedIdea = (draft: IdeaDraft): void => {
+    const id = savedIdeaId(draft);
+    if (savedIdeasStore.get().some(idea => idea.id === id)) {
+        removeSavedIdea(id);
+    } else {
+        saveIdea(draft);
+    }
+};
+
+export const createIdeaCollection = (name: string): IdeaCollection => {
+    const collection: IdeaCollection = {
+        id: `collection-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+    };
+    ideaCollectionsStore.set(previous => [...previous, collection]);
+    return collection;
+};
+
+export const renameIdeaCollection = (id: string, name: string): void => {
+    ideaCollectionsStore.set(previous => previous.map(c => (c.id === id ? { ...c, name: name.trim() } : c)));
+};
+
+/** Delete the collection; its ideas stay on the board, ungrouped. */
+export const deleteIdeaCollection = (id: string): void => {
+    ideaCollectionsStore.set(previous => previous.filter(c => c.id !== id));
+    savedIdeasStore.set(previous => previous.map(idea => (idea.collectionId === id ? { ...idea, collectionId: null } : idea)));
+};
+
+/** Ideas with a target date first, soonest first; the rest newest first. */
+export const sortIdeas = (ideas: SavedIdea[]): SavedIdea[] =>
+    [...ideas].sort((a, b) => {
+        if (a.targetDate && b.targetDate) {
+            return a.targetDate.localeCompare(b.targetDate);
+        }
+        if (a.targetDate || b.targetDate) {
+            return a.targetDate ? -1 : 1;
+        }
+        return b.savedAt.localeCompare(a.savedAt);
+    });
+
+/** The topic to prefill in the metadata generator for this idea. */
+export const metadataTopicFor = (idea: SavedIdea): string =>
+    idea.kind === 'hotTopic' ? idea.title : `${idea.title}: ${idea.description}`;
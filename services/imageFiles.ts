@@ -0,0 +1,33 @@
+import type { ImageInput } from '../types';
+
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Read a file as base64 without the `data:` URL prefix. */
+export const fileToBase64 = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => {
+            const result = reader.result as string;
+            resolve(result.split(',')[1]);
+        };
+        reader.onerror = () => reject(reader.error);
+    });
+
+export const fileToImageInput = async (file: File): Promise<ImageInput> => ({
+    data: await fileToBase64(file),
+    mimeType: file.type,
+});
+
+/** Why a file can't be sent for analysis, or null when it can. */
+export const checkImageFile = (file: File): string | null => {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+        return 'Only PNG, JPG and WEBP images are supported.';
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+        return 'Image size must be less than 4MB.';
+    }
+    return null;
+};
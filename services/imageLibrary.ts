@@ -0,0 +1,142 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import type { ContentType, LibraryImage, LibraryImageSource } from '../types';
+import { openDatabase, withStore } from './indexedDb';
+import { hashString } from './hash';
+import { base64ToBlob, downloadFile, slugify } from './download';
+
+// Every generated image is kept in IndexedDB along with what produced it. The
+// list is mirrored in memory so components can render it synchronously; it is
+// read from the database the first time anything uses the library.
+
+export interface ImageLibraryState {
+    images: LibraryImage[];
+    isLoading: boolean;
+    /** Set when images can only be kept for this session. */
+    persistenceError: string | null;
+}
+
+const DB_NAME = 'aice-library';
+const STORE = 'images';
+
+const listeners = new Set<() => void>();
+let state: ImageLibraryState = { images: [], isLoading: true, persistenceError: null };
+
+const setState = (patch: Partial<ImageLibraryState>): void => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+};
+
+const newestFirst = (images: LibraryImage[]): LibraryImage[] =>
+    [...images].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+const openLibrary = () =>
+    openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    });
+
+const unavailable = (error: unknown): void => {
+    if (state.persistenceError) {
+        return;
+    }
+    console.warn('Image library is not persisted:', error);
+    setState({ persistenceError: 'Images are kept for this session only, because this browser does not allow local storage.' });
+};
+
+let loading: Promise<void> | null = null;
+
+const load = (): Promise<void> => {
+    loading ??= openLibrary()
+        .then(db => withStore<LibraryImage[]>(db, STORE, 'readonly', store => store.getAll()))
+        .then(
+            // Keep anything saved while the database was still loading.
+            stored => setState({ images: newestFirst([...state.images, ...stored.filter(image => !state.images.some(i => i.id === image.id))]) }),
+            unavailable
+        )
+        .finally(() => setState({ isLoading: false }));
+    return loading;
+};
+
+const persist = (run: (store: IDBObjectStore) => IDBRequest): void => {
+    openLibrary()
+        .then(db => withStore(db, STORE, 'readwrite', run))
+        .catch(unavailable);
+};
+
+const normalizeTags = (tags: string[]): string[] =>
+    Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export interface NewLibraryImage {
+    data: string;
+    prompt: string;
+    contentType: ContentType;
+    source: LibraryImageSource;
+}
+
+/**
+ * Add a generated image to the library. The id is derived from the image
+ * data, so showing a cached image again doesn't create a duplicate.
+ */
+export const saveLibraryImage = async (input: NewLibraryImage): Promise<LibraryImage> => {
+    await load();
+    const id = `img-${hashString(input.data)}-${input.data.length.toString(36)}`;
+    const existing = state.images.find(image => image.id === id);
+    if (existing) {
+        return existing;
+    }
+    const image: LibraryImage = { ...input, id, tags: [], createdAt: new Date().toISOString() };
+    setState({ images: [image, ...state.images] });
+    persist(store => store.put(image));
+    return image;
+};
+
+export const setLibraryImageTags = (id: string, tags: string[]): void => {
+    const image = state.images.find(i => i.id === id);
+    if (!image) {
+        return;
+    }
+    const updated = { ...image, tags: normalizeTags(tags) };
+    setState({ images: state.images.map(i => (i.id === id ? updated : i)) });
+    persist(store => store.put(updated));
+};
+
+export const deleteLibraryImage = (id: string): void => {
+    setState({ images: state.images.filter(image => image.id !== id) });
+    persist(store => store.delete(id));
+};
+
+/** Save an image under a name built from its prompt, with the extension its data calls for. */
+export const downloadLibraryImage = (image: LibraryImage): void => {
+    // Models return PNG or JPEG; the base64 prefix tells them apart.
+    const isPng = image.data.startsWith('iVBOR');
+    const mimeType = isPng ? 'image/png' : 'image/jpeg';
+    downloadFile(base64ToBlob(image.data, mimeType), `${slugify(image.prompt.slice(0, 60))}.${isPng ? 'png' : 'jpg'}`, mimeType);
+};
+
+/** Every image in the library, once it has loaded. */
+export const listLibraryImages = async (): Promise<LibraryImage[]> => {
+    await load();
+    return state.images;
+};
+
+/** Add images from an imported workspace, skipping any already in the library. Returns how many were added. */
+export const importLibraryImages = async (images: LibraryImage[]): Promise<number> => {
+    await load();
+    const added = images.filter(image => !state.images.some(i => i.id === image.id));
+    setState({ images: newestFirst([...state.images, ...added]) });
+    added.forEach(image => persist(store => store.put(image)));
+    return added.length;
+};
+
+const getState = (): ImageLibraryState => state;
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const useImageLibrary = (): ImageLibraryState => {
+    useEffect(() => {
+        load();
+    }, []);
+    return useSyncExternalStore(subscribe, getState);
+};
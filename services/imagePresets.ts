@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import type { ContentType, ImageSettings, ImageStylePreset } from '../types';
+import { createLocalStore, useLocalStore } from './localStore';
+import { normalizeImageSettings } from './imagePrompt';
+
+// The current image settings and any saved presets are kept per content type,
+// since a good vector style makes little sense for a photo.
+
+export const imageSettingsStore = createLocalStore<Partial<Record<ContentType, ImageSettings>>>('aice.imageSettings', {});
+export const imagePresetsStore = createLocalStore<ImageStylePreset[]>('aice.imagePresets', []);
+
+export const getImageSettings = (contentType: ContentType): ImageSettings =>
+    normalizeImageSettings(imageSettingsStore.get()[contentType], contentType);
+
+export const useImageSettings = (contentType: ContentType): ImageSettings => {
+    const stored = useLocalStore(imageSettingsStore)[contentType];
+    return useMemo(() => normalizeImageSettings(stored, contentType), [stored, contentType]);
+};
+
+export const updateImageSettings = (contentType: ContentType, patch: Partial<ImageSettings>): void => {
+    imageSettingsStore.set(all => ({ ...all, [contentType]: { ...normalizeImageSettings(all[contentType], contentType), ...patch } }));
+};
+
+export const resetImageSettings = (contentType: ContentType): void => {
+    imageSettingsStore.set(({ [contentType]: _removed, ...rest }) => rest);
+};
+
+export const useImagePresets = (contentType: ContentType): ImageStylePreset[] =>
+    useLocalStore(imagePresetsStore).filter(preset => preset.contentType === contentType);
+
+/** Save the settings under `name`, replacing a preset of the same name for this content type. */
+export const saveImagePreset = (name: string, contentType: ContentType, settings: ImageSettings): void => {
+    const trimmed = name.trim();
+    imagePresetsStore.set(presets => [
+        ...presets.filter(p => !(p.contentType === contentType && p.name.toLowerCase() === trimmed.toLowerCase())),
+        { id: `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name: trimmed, contentType, settings },
+    ]);
+};
+
+export const deleteImagePreset = (id: string): void => {
+    imagePresetsStore.set(presets => presets.filter(preset => preset.id !== id));
+};
+
+export const applyImagePreset = (preset: ImageStylePreset): void => {
+    updateImageSettings(preset.contentType, normalizeImageSettings(preset.settings, preset.contentType));
+};
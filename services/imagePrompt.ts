@@ -0,0 +1,88 @@
+import type { ImageAspectRatio, ImageSettings, SubjectDiversity } from '../types';
+import { ContentType } from '../types';
+
+// Builds the image generation prompt from structured settings. Shared by the
+// settings panel, which previews the prompt, and the Gemini provider, which
+// sends it, so what is shown is exactly what the model receives.
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:2', '2:3', '4:3', '3:4', '16:9', '9:16', '21:9'];
+
+export const IMAGE_STYLE_SUGGESTIONS = [
+    'photorealistic', 'cinematic', 'editorial', 'minimalist', 'flat vector illustration', 'isometric',
+    'digital painting', 'watercolor', '3D render', 'line art',
+];
+
+export const IMAGE_LIGHTING_SUGGESTIONS = [
+    'natural daylight', 'golden hour', 'soft studio lighting', 'bright high-key', 'dramatic low-key', 'overcast', 'neon',
+];
+
+export const SUBJECT_DIVERSITY: Record<SubjectDiversity, { label: string; instruction: string }> = {
+    default: { label: 'No preference', instruction: '' },
+    diverse: { label: 'Diverse people', instruction: 'If people appear, show a natural mix of ages, ethnicities, genders and body types.' },
+    noPeople: { label: 'No people', instruction: 'Do not show any people.' },
+};
+
+export const MIN_IMAGE_TEMPERATURE = 0;
+export const MAX_IMAGE_TEMPERATURE = 2;
+
+const DEFAULT_STYLES: Record<ContentType, string> = {
+    [ContentType.PHOTO]: 'photorealistic',
+    [ContentType.VECTOR]: 'flat vector illustration',
+    [ContentType.VIDEO]: 'cinematic',
+    [ContentType.ILLUSTRATION]: 'digital painting',
+};
+
+export const defaultImageSettings = (contentType: string): ImageSettings => ({
+    style: DEFAULT_STYLES[contentType as ContentType] ?? '',
+    aspectRatio: '1:1',
+    lighting: '',
+    avoid: '',
+    diversity: 'default',
+    temperature: 0.9,
+    notes: '',
+});
+
+const textField = (value: unknown, fallback: string): string => (typeof value === 'string' ? value.slice(0, 500) : fallback);
+
+/** Fill in defaults for missing or invalid fields, e.g. from storage or a request body. */
+export const normalizeImageSettings = (value: unknown, contentType: string): ImageSettings => {
+    const defaults = defaultImageSettings(contentType);
+    const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ImageSettings, unknown>>;
+    const temperature = typeof input.temperature === 'number' && Number.isFinite(input.temperature) ? input.temperature : defaults.temperature;
+    return {
+        style: textField(input.style, defaults.style),
+        aspectRatio: IMAGE_ASPECT_RATIOS.includes(input.aspectRatio as ImageAspectRatio) ? (input.aspectRatio as ImageAspectRatio) : defaults.aspectRatio,
+        lighting: textField(input.lighting, defaults.lighting),
+        avoid: textField(input.avoid, defaults.avoid),
+        diversity: typeof input.diversity === 'string' && Object.hasOwn(SUBJECT_DIVERSITY, input.diversity) ? (input.diversity as SubjectDiversity) : defaults.diversity,
+        temperature: Math.min(MAX_IMAGE_TEMPERATURE, Math.max(MIN_IMAGE_TEMPERATURE, temperature)),
+        notes: textField(input.notes, defaults.notes),
+    };
+};
+
+const ORIENTATION: Record<ImageAspectRatio, string> = {
+    '1:1': 'square',
+    '3:2': 'landscape',
+    '2:3': 'portrait',
+    '4:3': 'landscape',
+    '3:4': 'portrait',
+    '16:9': 'widescreen landscape',
+    '9:16': 'vertical portrait',
+    '21:9': 'panoramic',
+};
+
+export const buildImagePrompt = (concept: string, contentType: string, settings: ImageSettings): string => {
+    const style = settings.style.trim();
+    const lighting = settings.lighting.trim();
+    const avoid = ['text', 'logos', 'watermarks', ...settings.avoid.split(',').map(item => item.trim()).filter(Boolean)];
+    return [
+        `Create a visually stunning, high-quality ${contentType.toLowerCase()} that embodies the concept: "${concept.trim()}".`,
+        'The image should be inspiring, marketable for stock platforms, and aesthetically pleasing.',
+        style && `Style: ${style}.`,
+        lighting && `Lighting: ${lighting}.`,
+        `Compose it as a ${ORIENTATION[settings.aspectRatio]} ${settings.aspectRatio} image.`,
+        SUBJECT_DIVERSITY[settings.diversity].instruction,
+        settings.notes.trim(),
+        `Avoid ${avoid.join(', ')}.`,
+    ].filter(Boolean).join(' ');
+};
@@ -0,0 +1,44 @@
+// Thin promise wrappers around IndexedDB. Callers should treat a rejected
+// `openDatabase` as "no persistence" (private browsing, old browsers, tests)
+// and carry on in memory.
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+    let connection = connections.get(name);
+    if (!connection) {
+        connection = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available.'));
+                return;
+            }
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error(`Database "${name}" is open in another tab with an older version.`));
+        });
+        // Allow a later call to retry instead of caching the failure forever.
+        connection.catch(() => connections.delete(name));
+        connections.set(name, connection);
+    }
+    return connection;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** Run one request against a store in its own transaction. */
+export const withStore = async <T>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
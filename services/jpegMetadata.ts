@@ -0,0 +1,202 @@
+import type { StockMetadata } from '../types';
+
+// Writes title and keywords into a JPEG the way stock portals read them on
+// upload: an XMP packet (dc:title, dc:description, dc:subject) in APP1 and
+// IPTC-IIM records in the Photoshop APP13 block. Pixel data is copied as-is.
+
+const SOI = 0xd8;
+const SOS = 0xda;
+const EOI = 0xd9;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const APP13 = 0xed;
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE_ID = 0x0404;
+// MD5 of the IPTC block; a stale one makes Photoshop distrust the new records.
+const IPTC_DIGEST_RESOURCE_ID = 0x0425;
+const MAX_SEGMENT_PAYLOAD = 65533;
+
+// IPTC-IIM field limits, in bytes.
+const IPTC_OBJECT_NAME_MAX = 64;
+const IPTC_KEYWORD_MAX = 64;
+const IPTC_CAPTION_MAX = 2000;
+
+interface Segment {
+    marker: number;
+    payload: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, prefix: string): boolean => {
+    const expected = encoder.encode(prefix);
+    return expected.every((byte, i) => bytes[i] === byte);
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+const uint16 = (value: number): Uint8Array => new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+
+const uint32 = (value: number): Uint8Array =>
+    new Uint8Array([(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+
+// Truncate to a byte budget without splitting a multi-byte UTF-8 character.
+const utf8Truncated = (value: string, maxBytes: number): Uint8Array => {
+    const bytes = encoder.encode(value);
+    if (bytes.length <= maxBytes) {
+        return bytes;
+    }
+    let end = maxBytes;
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+        end--;
+    }
+    return bytes.slice(0, end);
+};
+
+/** Split a JPEG into the segments before the scan data and everything from SOS onwards. */
+const readSegments = (jpeg: Uint8Array): { segments: Segment[]; scan: Uint8Array } => {
+    if (jpeg[0] !== 0xff || jpeg[1] !== SOI) {
+        throw new Error('Only JPEG files can have metadata embedded.');
+    }
+    const segments: Segment[] = [];
+    let offset = 2;
+    while (offset + 4 <= jpeg.length) {
+        if (jpeg[offset] !== 0xff) {
+            throw new Error('The JPEG file appears to be corrupt.');
+        }
+        const marker = jpeg[offset + 1];
+        if (marker === 0xff) {
+            offset++; // fill byte
+            continue;
+        }
+        if (marker === SOS || marker === EOI) {
+            return { segments, scan: jpeg.subarray(offset) };
+        }
+        const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+        segments.push({ marker, payload: jpeg.subarray(offset + 4, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    throw new Error('The JPEG file appears to be corrupt.');
+};
+
+const writeSegment = ({ marker, payload }: Segment): Uint8Array => {
+    if (payload.length > MAX_SEGMENT_PAYLOAD) {
+        throw new Error('The metadata is too large to embed in a single JPEG segment.');
+    }
+    return concat([new Uint8Array([0xff, marker]), uint16(payload.length + 2), payload]);
+};
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmpPacket = (title: string, keywords: string[]): string => {
+    const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+    const subjects = keywords.map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('');
+    return [
+        '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">',
+        `<dc:title>${alt(title)}</dc:title>`,
+        `<dc:description>${alt(title)}</dc:description>`,
+        `<dc:subject><rdf:Bag>${subjects}</rdf:Bag></dc:subject>`,
+        `<photoshop:Headline>${escapeXml(title)}</photoshop:Headline>`,
+        '</rdf:Description>',
+        '</rdf:RDF>',
+        '</x:xmpmeta>',
+        '<?xpacket end="w"?>',
+    ].join('\n');
+};
+
+const iptcDataset = (record: number, dataset: number, data: Uint8Array): Uint8Array =>
+    concat([new Uint8Array([0x1c, record, dataset]), uint16(data.length), data]);
+
+const buildIptc = (title: string, keywords: string[]): Uint8Array =>
+    concat([
+        // 1:90 coded character set: ESC % G declares UTF-8.
+        iptcDataset(1, 90, new Uint8Array([0x1b, 0x25, 0x47])),
+        iptcDataset(2, 0, uint16(4)),
+        iptcDataset(2, 5, utf8Truncated(title, IPTC_OBJECT_NAME_MAX)),
+        iptcDataset(2, 120, utf8Truncated(title, IPTC_CAPTION_MAX)),
+        ...keywords.map(keyword => iptcDataset(2, 25, utf8Truncated(keyword, IPTC_KEYWORD_MAX))),
+    ]);
+
+// An Image Resource Block: signature, id, empty Pascal name, size, data padded to even length.
+const imageResource = (id: number, data: Uint8Array): Uint8Array =>
+    concat([
+        encoder.encode('8BIM'),
+        uint16(id),
+        new Uint8Array([0, 0]),
+        uint32(data.length),
+        data,
+        new Uint8Array(data.length % 2),
+    ]);
+
+/** Image resources from an existing Photoshop APP13 block, except the IPTC ones we replace. */
+const otherImageResources = (payload: Uint8Array): Uint8Array[] => {
+    const kept: Uint8Array[] = [];
+    let offset = PHOTOSHOP_HEADER.length;
+    while (offset + 12 <= payload.length && startsWith(payload.subarray(offset), '8BIM')) {
+        const id = (payload[offset + 4] << 8) | payload[offset + 5];
+        const nameLength = payload[offset + 6];
+        const nameSize = nameLength + 1 + ((nameLength + 1) % 2);
+        const sizeOffset = offset + 6 + nameSize;
+        const size = ((payload[sizeOffset] << 24) | (payload[sizeOffset + 1] << 16) | (payload[sizeOffset + 2] << 8) | payload[sizeOffset + 3]) >>> 0;
+        const end = sizeOffset + 4 + size + (size % 2);
+        if (id !== IPTC_RESOURCE_ID && id !== IPTC_DIGEST_RESOURCE_ID) {
+            kept.push(payload.subarray(offset, Math.min(end, payload.length)));
+        }
+        offset = end;
+    }
+    return kept;
+};
+
+/**
+ * Return a copy of the JPEG with its XMP and IPTC title and keywords replaced.
+ * Other metadata, such as EXIF and non-IPTC Photoshop resources, is kept.
+ */
+export const embedJpegMetadata = (jpeg: Uint8Array, title: string, keywords: string[]): Uint8Array => {
+    const { segments, scan } = readSegments(jpeg);
+
+    const isXmp = (s: Segment) => s.marker === APP1 && startsWith(s.payload, XMP_HEADER);
+    const isPhotoshop = (s: Segment) => s.marker === APP13 && startsWith(s.payload, PHOTOSHOP_HEADER);
+    const existingPhotoshop = segments.find(isPhotoshop);
+    const kept = segments.filter(s => !isXmp(s) && !isPhotoshop(s));
+
+    const xmp: Segment = { marker: APP1, payload: concat([encoder.encode(XMP_HEADER), encoder.encode(buildXmpPacket(title, keywords))]) };
+    const photoshop: Segment = {
+        marker: APP13,
+        payload: concat([
+            encoder.encode(PHOTOSHOP_HEADER),
+            ...(existingPhotoshop ? otherImageResources(existingPhotoshop.payload) : []),
+            imageResource(IPTC_RESOURCE_ID, buildIptc(title, keywords)),
+        ]),
+    };
+
+    // Readers expect JFIF and EXIF first, so insert after any leading APP0/APP1 segments.
+    let insertAt = 0;
+    while (insertAt < kept.length && (kept[insertAt].marker === APP0 || kept[insertAt].marker === APP1)) {
+        insertAt++;
+    }
+    const ordered = [...kept.slice(0, insertAt), xmp, photoshop, ...kept.slice(insertAt)];
+
+    return concat([new Uint8Array([0xff, SOI]), ...ordered.map(writeSegment), scan]);
+};
+
+export const isJpeg = (file: File): boolean => file.type === 'image/jpeg';
+
+/** Read a JPEG file and embed one platform's title and keywords into it. */
+export const tagJpegFile = async (file: File, metadata: StockMetadata): Promise<Uint8Array> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return embedJpegMetadata(bytes, metadata.title, metadata.keywords);
+};
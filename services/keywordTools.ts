@@ -0,0 +1,122 @@
+import type { MetadataLanguage } from '../types';
+import { isSpacedLanguage } from './metadataRules';
+
+// Helpers for editing keyword lists by hand: reordering, merging, and the
+// scores and warnings shown next to each keyword before export.
+
+/** Keywords at these positions carry the most weight on portals that rank by order. */
+export const TOP_KEYWORD_COUNT = 10;
+
+export interface KeywordScore {
+    /** 0-100: how much of the keyword the title and topic mention. */
+    relevance: number;
+    /** 0-100: longer, multi-word and less generic keywords score higher. */
+    specificity: number;
+}
+
+// Words that describe almost any asset and so narrow a search very little.
+const GENERIC_WORDS = new Set([
+    'abstract', 'art', 'background', 'beautiful', 'colorful', 'concept', 'creative', 'design', 'element', 'graphic',
+    'illustration', 'image', 'modern', 'nice', 'object', 'photo', 'picture', 'simple', 'style', 'vector',
+]);
+
+export const normalizeKeyword = (keyword: string): string => keyword.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const wordsOf = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/** English singular of a word; other words are returned unchanged. */
+export const singularOf = (word: string): string => {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 4 && /(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+    return word;
+};
+
+// Plurals only apply to English; elsewhere the phrase is compared as written.
+const singularPhrase = (keyword: string, language: MetadataLanguage): string =>
+    language === 'en' ? normalizeKeyword(keyword).split(' ').map(singularOf).join(' ') : normalizeKeyword(keyword);
+
+export const scoreKeyword = (keyword: string, context: string, language: MetadataLanguage = 'en'): KeywordScore => {
+    const phrase = normalizeKeyword(keyword);
+    if (!isSpacedLanguage(language)) {
+        return {
+            relevance: context.toLowerCase().includes(phrase) ? 100 : 0,
+            specificity: Math.min(100, Math.max(10, phrase.length * 20)),
+        };
+    }
+    const words = wordsOf(phrase);
+    if (words.length === 0) {
+        return { relevance: 0, specificity: 0 };
+    }
+    const contextWords = new Set(wordsOf(context).map(singularOf));
+    const matched = words.filter(word => contextWords.has(singularOf(word))).length;
+    const averageLength = words.reduce((sum, word) => sum + word.length, 0) / words.length;
+    const genericWords = words.filter(word => GENERIC_WORDS.has(word)).length;
+    const specificity = genericWords === words.length
+        ? 10
+        : 20 * Math.min(words.length, 3) + Math.min(30, Math.max(0, (averageLength - 3) * 6)) - 15 * genericWords;
+    return {
+        relevance: Math.round((matched / words.length) * 100),
+        specificity: Math.round(Math.min(100, Math.max(5, specificity))),
+    };
+};
+
+/** Problems with each keyword, by position: duplicates, singular/plural pairs and overflow past the limit. */
+export const keywordWarnings = (keywords: string[], maxKeywords: number, language: MetadataLanguage = 'en'): string[][] => {
+    const firstExact = new Map<string, number>();
+    const firstSingular = new Map<string, number>();
+    return keywords.map((keyword, index) => {
+        const warnings: string[] = [];
+        const exact = normalizeKeyword(keyword);
+        const singular = singularPhrase(keyword, language);
+        const duplicateOf = firstExact.get(exact);
+        const pairedWith = firstSingular.get(singular);
+        if (duplicateOf !== undefined) {
+            warnings.push(`Duplicate of #${duplicateOf + 1}.`);
+        } else if (pairedWith !== undefined) {
+            warnings.push(`Singular or plural of "${keywords[pairedWith]}" (#${pairedWith + 1}); portals usually match both.`);
+        }
+        if (index >= maxKeywords) {
+            warnings.push(`Past the ${maxKeywords}-keyword limit, so it is left out of exports.`);
+        }
+        if (!firstExact.has(exact)) firstExact.set(exact, index);
+        if (!firstSingular.has(singular)) firstSingular.set(singular, index);
+        return warnings;
+    });
+};
+
+export const moveKeyword = (keywords: string[], from: number, to: number): string[] => {
+    const next = [...keywords];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return next;
+};
+
+/** Append keywords that are not in the list yet, in order. Comma-separated entries are split. */
+export const addKeywords = (keywords: string[], additions: string[]): string[] => {
+    const seen = new Set(keywords.map(normalizeKeyword));
+    const added: string[] = [];
+    for (const addition of additions.flatMap(entry => entry.split(','))) {
+        const keyword = normalizeKeyword(addition);
+        if (keyword && !seen.has(keyword)) {
+            seen.add(keyword);
+            added.push(keyword);
+        }
+    }
+    return [...keywords, ...added];
+};
+
+/**
+ * Replace a group of synonyms with the one to keep, placed where the
+ * highest-ranked of them was so the merge does not demote the concept.
+ */
+export const mergeSynonyms = (keywords: string[], keep: string, synonyms: string[]): string[] => {
+    const group = new Set([keep, ...synonyms].map(normalizeKeyword));
+    const position = keywords.findIndex(keyword => group.has(normalizeKeyword(keyword)));
+    if (position === -1) {
+        return keywords;
+    }
+    const rest = keywords.filter(keyword => !group.has(normalizeKeyword(keyword)));
+    const before = keywords.slice(0, position).filter(keyword => !group.has(normalizeKeyword(keyword))).length;
+    return [...rest.slice(0, before), keep, ...rest.slice(before)];
+};
@@ -0,0 +1,61 @@
+import { useSyncExternalStore } from 'react';
+
+/**
+ * A small observable value persisted to localStorage. Components read it with
+ * `useLocalStore`, so every tab sees updates made anywhere else in the app.
+ */
+export interface LocalStore<T> {
+    get(): T;
+    set(value: T | ((previous: T) => T)): void;
+    subscribe(listener: () => void): () => void;
+}
+
+export const createLocalStore = <T>(key: string, initialValue: T): LocalStore<T> => {
+    const listeners = new Set<() => void>();
+    let value: T = initialValue;
+
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored !== null) {
+            value = JSON.parse(stored) as T;
+        }
+    } catch (error) {
+        console.error(`Failed to read "${key}" from local storage:`, error);
+    }
+
+    return {
+        get: () => value,
+        set: (next) => {
+            value = typeof next === 'function' ? (next as (previous: T) => T)(value) : next;
+            try {
+                localStorage.setItem(key, JSON.stringify(value));
+            } catch (error) {
+                console.error(`Failed to write "${key}" to local storage:`, error);
+            }
+            listeners.forEach(listener => listener());
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+};
+
+/** The same observable value kept in memory only, for state that should not outlive the page. */
+export const createMemoryStore = <T>(initialValue: T): LocalStore<T> => {
+    const listeners = new Set<() => void>();
+    let value: T = initialValue;
+    return {
+        get: () => value,
+        set: (next) => {
+            value = typeof next === 'function' ? (next as (previous: T) => T)(value) : next;
+            listeners.forEach(listener => listener());
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+};
+
+export const useLocalStore = <T>(store: LocalStore<T>): T => useSyncExternalStore(store.subscribe, store.get);
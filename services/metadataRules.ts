@@ -0,0 +1,232 @@
+import type { MetadataIssue, MetadataLanguage, StockMetadata } from '../types';
+
+export interface PlatformRules {
+    titleMaxLength: number;
+    titleMinWords: number;
+    minKeywords: number;
+    maxKeywords: number;
+    /** Longer phrases are rejected or ignored by the portal's keyword field. */
+    keywordMaxWords: number;
+    /** Matched as whole words, case-insensitively, in titles and keywords. */
+    bannedWords: string[];
+    forbiddenChars: RegExp;
+    /** Move keywords that appear in the title to the front, as the portal ranks the first ones highest. */
+    titleKeywordsFirst: boolean;
+}
+
+// Spam, licensing and file-format terms that every portal rejects in metadata.
+const SHARED_BANNED_WORDS = [
+    'stock photo', 'stock image', 'royalty free', 'royalty-free', 'copyright', 'watermark', 'download',
+    'jpg', 'jpeg', 'png', 'eps', 'hd', '4k', 'ai generated',
+];
+
+// Limits from each portal's contributor guidelines, rounded down where they vary by file type.
+export const PLATFORM_RULES: Record<string, PlatformRules> = {
+    'Adobe Stock': {
+        titleMaxLength: 200,
+        titleMinWords: 5,
+        minKeywords: 15,
+        maxKeywords: 49,
+        keywordMaxWords: 3,
+        bannedWords: [...SHARED_BANNED_WORDS, 'adobe stock', 'adobe'],
+        forbiddenChars: /[<>{}[\]|\\^~"#@*;]/g,
+        titleKeywordsFirst: true,
+    },
+    'Shutterstock': {
+        titleMaxLength: 200,
+        titleMinWords: 5,
+        minKeywords: 7,
+        maxKeywords: 50,
+        keywordMaxWords: 3,
+        bannedWords: [...SHARED_BANNED_WORDS, 'shutterstock'],
+        forbiddenChars: /[<>{}[\]|\\^~"#@*;]/g,
+        titleKeywordsFirst: false,
+    },
+    'Freepik': {
+        titleMaxLength: 100,
+        titleMinWords: 3,
+        minKeywords: 5,
+        maxKeywords: 50,
+        keywordMaxWords: 2,
+        bannedWords: [...SHARED_BANNED_WORDS, 'freepik', 'premium'],
+        forbiddenChars: /[<>{}[\]|\\^~"#@*;:!?]/g,
+        titleKeywordsFirst: true,
+    },
+    'Vecteezy': {
+        titleMaxLength: 200,
+        titleMinWords: 3,
+        minKeywords: 5,
+        maxKeywords: 49,
+        keywordMaxWords: 3,
+        bannedWords: [...SHARED_BANNED_WORDS, 'vecteezy'],
+        forbiddenChars: /[<>{}[\]|\\^~"#@*;]/g,
+        titleKeywordsFirst: false,
+    },
+};
+
+// Fallback for platforms the model invents or that we have no guidelines for yet.
+const DEFAULT_RULES: PlatformRules = {
+    titleMaxLength: 200,
+    titleMinWords: 3,
+    minKeywords: 5,
+    maxKeywords: 50,
+    keywordMaxWords: 3,
+    bannedWords: SHARED_BANNED_WORDS,
+    forbiddenChars: /[<>{}[\]|\\^~"#@*;]/g,
+    titleKeywordsFirst: false,
+};
+
+export const rulesFor = (platform: string): PlatformRules =>
+    Object.hasOwn(PLATFORM_RULES, platform) ? PLATFORM_RULES[platform] : DEFAULT_RULES;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const bannedPattern = (words: string[]): RegExp =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])(${words.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'giu');
+
+// Written without spaces between words, so word counts and word matching do not apply.
+const UNSPACED_LANGUAGES: MetadataLanguage[] = ['ja'];
+
+export const isSpacedLanguage = (language: MetadataLanguage): boolean => !UNSPACED_LANGUAGES.includes(language);
+
+const collapseSpaces = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const wordCount = (value: string): number => value.split(' ').filter(Boolean).length;
+
+// Cut at the last word boundary that fits, and drop a trailing separator left behind.
+const truncateAtWord = (value: string, maxLength: number): string => {
+    if (value.length <= maxLength) {
+        return value;
+    }
+    const cut = value.slice(0, maxLength + 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > 0 ? cut.slice(0, lastSpace) : value.slice(0, maxLength)).replace(/[\s,.\-–:]+$/, '');
+};
+
+const fixTitle = (title: string, rules: PlatformRules, spaced: boolean, issues: MetadataIssue[]): string => {
+    let fixed = collapseSpaces(title.replace(rules.forbiddenChars, ' '));
+    if (fixed !== collapseSpaces(title)) {
+        issues.push({ field: 'title', message: 'Removed characters the platform does not allow.', fixed: true });
+    }
+
+    const banned = bannedPattern(rules.bannedWords);
+    const found = Array.from(new Set((fixed.match(banned) ?? []).map(match => match.trim().toLowerCase())));
+    if (found.length > 0) {
+        fixed = collapseSpaces(fixed.replace(banned, '$1')).replace(/^[\s,.\-–:]+|[\s,\-–:]+$/g, '');
+        issues.push({ field: 'title', message: `Removed banned ${found.length === 1 ? 'word' : 'words'}: ${found.join(', ')}.`, fixed: true });
+    }
+
+    if (fixed.length > rules.titleMaxLength) {
+        fixed = truncateAtWord(fixed, rules.titleMaxLength);
+        issues.push({ field: 'title', message: `Shortened to the ${rules.titleMaxLength}-character limit.`, fixed: true });
+    }
+
+    if (spaced && wordCount(fixed) < rules.titleMinWords) {
+        issues.push({ field: 'title', message: `Title should have at least ${rules.titleMinWords} words.`, fixed: false });
+    }
+    return fixed;
+};
+
+const fixKeywords = (
+    keywords: string[],
+    title: string,
+    rules: PlatformRules,
+    spaced: boolean,
+    preserveOrder: boolean,
+    issues: MetadataIssue[]
+): string[] => {
+    const banned = bannedPattern(rules.bannedWords);
+    const seen = new Set<string>();
+    const removedBanned = new Set<string>();
+    const tooLong: string[] = [];
+    let cleanedChars = false;
+    let duplicates = 0;
+
+    // The model sometimes packs several comma-separated keywords into one entry.
+    const entries = keywords.flatMap(keyword => keyword.split(','));
+    const cleaned: string[] = [];
+    for (const raw of entries) {
+        const keyword = collapseSpaces(raw.replace(rules.forbiddenChars, ' ')).toLowerCase();
+        if (keyword !== collapseSpaces(raw).toLowerCase()) {
+            cleanedChars = true;
+        }
+        if (!keyword) {
+            continue;
+        }
+        banned.lastIndex = 0;
+        if (banned.test(keyword)) {
+            removedBanned.add(keyword);
+            continue;
+        }
+        if (wordCount(keyword) > rules.keywordMaxWords) {
+            tooLong.push(keyword);
+            continue;
+        }
+        if (seen.has(keyword)) {
+            duplicates++;
+            continue;
+        }
+        seen.add(keyword);
+        cleaned.push(keyword);
+    }
+
+    if (cleanedChars) {
+        issues.push({ field: 'keywords', message: 'Removed characters the platform does not allow.', fixed: true });
+    }
+    if (duplicates > 0) {
+        issues.push({ field: 'keywords', message: `Removed ${duplicates} duplicate ${duplicates === 1 ? 'keyword' : 'keywords'}.`, fixed: true });
+    }
+    if (removedBanned.size > 0) {
+        issues.push({ field: 'keywords', message: `Removed banned keywords: ${Array.from(removedBanned).join(', ')}.`, fixed: true });
+    }
+    if (tooLong.length > 0) {
+        issues.push({ field: 'keywords', message: `Removed phrases longer than ${rules.keywordMaxWords} words: ${tooLong.join(', ')}.`, fixed: true });
+    }
+
+    let ordered = cleaned;
+    if (rules.titleKeywordsFirst && !preserveOrder) {
+        const titleWords = new Set(title.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+        const inTitle = (keyword: string) =>
+            spaced ? keyword.split(' ').every(word => titleWords.has(word)) : title.toLowerCase().includes(keyword);
+        ordered = [...cleaned.filter(inTitle), ...cleaned.filter(keyword => !inTitle(keyword))];
+        if (ordered.some((keyword, index) => keyword !== cleaned[index])) {
+            issues.push({ field: 'keywords', message: 'Moved keywords used in the title to the front.', fixed: true });
+        }
+    }
+
+    if (ordered.length > rules.maxKeywords) {
+        issues.push({ field: 'keywords', message: `Dropped ${ordered.length - rules.maxKeywords} keywords over the ${rules.maxKeywords}-keyword limit.`, fixed: true });
+        ordered = ordered.slice(0, rules.maxKeywords);
+    }
+    if (ordered.length < rules.minKeywords) {
+        issues.push({ field: 'keywords', message: `Add at least ${rules.minKeywords - ordered.length} more keywords (minimum ${rules.minKeywords}).`, fixed: false });
+    }
+    return ordered;
+};
+
+export interface PlatformRuleOptions {
+    /** Keep the keyword order as given, for lists a user has arranged by hand. */
+    preserveOrder?: boolean;
+}
+
+/** Validate metadata against its platform's rules, fixing what can be fixed and reporting every change. */
+export const applyPlatformRules = (
+    metadata: StockMetadata,
+    language: MetadataLanguage = 'en',
+    { preserveOrder = false }: PlatformRuleOptions = {}
+): StockMetadata => {
+    const rules = rulesFor(metadata.platform);
+    const spaced = isSpacedLanguage(language);
+    const issues: MetadataIssue[] = [];
+    const title = fixTitle(metadata.title ?? '', rules, spaced, issues);
+    const keywords = fixKeywords(metadata.keywords ?? [], title, rules, spaced, preserveOrder, issues);
+    return { ...metadata, title, keywords, issues };
+};
+
+/** One line per platform, for prompting the model with the limits it will be checked against. */
+export const describePlatformRules = (): string =>
+    Object.entries(PLATFORM_RULES)
+        .map(([platform, rules]) =>
+            `- ${platform}: title of ${rules.titleMinWords}+ words and at most ${rules.titleMaxLength} characters; ${rules.minKeywords}-${rules.maxKeywords} keywords of at most ${rules.keywordMaxWords} words each.`
+        )
+        .join('\n');
@@ -0,0 +1,91 @@
+import type { PipelineStage, PlatformReview, SavedIdea, StockMetadata } from '../types';
+import { ContentType } from '../types';
+import { daysUntil } from './calendarMath';
+import { savedIdeasStore } from './ideaBoard';
+import { PLATFORM_REVIEW_DAYS, buildProductionSchedule, earliestDeadlines } from './plannerService';
+
+// Saved ideas double as production cards. Each moves through the stages below;
+// once uploaded, every platform reviews it separately, and a card whose
+// reviews are all in counts as reviewed.
+
+export const PIPELINE_STAGES: PipelineStage[] = ['idea', 'shoot', 'edit', 'keyword', 'uploaded'];
+
+export const PIPELINE_STAGE_LABELS: Record<PipelineStage, string> = {
+    idea: 'Idea',
+    shoot: 'Shoot',
+    edit: 'Edit',
+    keyword: 'Keyword',
+    uploaded: 'Uploaded',
+};
+
+/** The board column, which adds 'reviewed' for uploads every platform has decided on. */
+export type PipelineColumn = PipelineStage | 'reviewed';
+
+export const ideaStage = (idea: SavedIdea): PipelineStage => idea.stage ?? 'idea';
+
+export const isReviewed = (idea: SavedIdea): boolean => {
+    const reviews = Object.values(idea.reviews ?? {});
+    return ideaStage(idea) === 'uploaded' && reviews.length > 0 && reviews.every(review => review !== 'pending');
+};
+
+export const pipelineColumn = (idea: SavedIdea): PipelineColumn => (isReviewed(idea) ? 'reviewed' : ideaStage(idea));
+
+// Platforms the idea has metadata for, or every platform when it has none yet.
+const uploadPlatforms = (idea: SavedIdea): string[] =>
+    idea.metadata?.length ? idea.metadata.map(m => m.platform) : Object.keys(PLATFORM_REVIEW_DAYS);
+
+export const moveIdeaToStage = (id: string, stage: PipelineStage): void => {
+    savedIdeasStore.set(previous => previous.map(idea => {
+        if (idea.id !== id) {
+            return idea;
+        }
+        // Reviews start when the card is uploaded and are kept if it is moved back and forth.
+        const reviews = stage === 'uploaded' && !idea.reviews
+            ? Object.fromEntries(uploadPlatforms(idea).map(platform => [platform, 'pending' as PlatformReview]))
+            : idea.reviews;
+        return { ...idea, stage, reviews };
+    }));
+};
+
+export const setPlatformReview = (id: string, platform: string, review: PlatformReview): void => {
+    savedIdeasStore.set(previous => previous.map(idea =>
+        idea.id === id ? { ...idea, reviews: { ...idea.reviews, [platform]: review } } : idea
+    ));
+};
+
+/** Link metadata generated for an idea to its card, replacing any generated before. */
+export const attachIdeaMetadata = (id: string, metadata: StockMetadata[]): void => {
+    savedIdeasStore.set(previous => previous.map(idea => (idea.id === id ? { ...idea, metadata } : idea)));
+};
+
+export interface StageDeadline {
+    label: string;
+    date: string;
+    /** Negative when the deadline has passed. */
+    daysLeft: number;
+}
+
+/**
+ * The deadline the card's current stage must meet, worked back from the event
+ * date (or the target date when the idea has no event). Reviewed cards have none.
+ */
+export const stageDeadline = (idea: SavedIdea, today: Date = new Date()): StageDeadline | null => {
+    const date = idea.eventDate ?? idea.targetDate;
+    if (!date || isReviewed(idea)) {
+        return null;
+    }
+    const schedule = buildProductionSchedule(date, idea.contentType ?? ContentType.PHOTO);
+    if (!schedule) {
+        return null;
+    }
+    const deadlines = earliestDeadlines(schedule);
+    const byStage: Record<PipelineStage, { label: string; date: string }> = {
+        idea: { label: 'Shoot by', date: deadlines.shoot },
+        shoot: { label: 'Shoot by', date: deadlines.shoot },
+        edit: { label: 'Edit by', date: deadlines.edit },
+        keyword: { label: 'Upload by', date: deadlines.upload },
+        uploaded: { label: 'Live by', date: schedule.liveBy },
+    };
+    const deadline = byStage[ideaStage(idea)];
+    return { ...deadline, daysLeft: daysUntil(deadline.date, today) };
+};
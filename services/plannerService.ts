@@ -0,0 +1,132 @@
+import type { Event, PlatformDeadline, ProductionMilestone, ProductionSchedule, SavedEvent } from '../types';
+import { ContentType } from '../types';
+import { addDays, toISODate } from './calendarMath';
+import { eventCountries } from './eventService';
+import { createLocalStore } from './localStore';
+
+// Buyers license seasonal content well ahead of the date itself, so content
+// should be live on every platform this many days before the event.
+export const BUYER_LEAD_DAYS = 42;
+
+// Typical review-to-publish time per platform, padded for seasonal backlogs.
+export const PLATFORM_REVIEW_DAYS: Record<string, number> = {
+    'Adobe Stock': 5,
+    'Shutterstock': 3,
+    'Freepik': 7,
+    'Vecteezy': 5,
+};
+
+// Working days needed after the shoot for editing, and for titling and keywording before upload.
+const PRODUCTION_DAYS: Record<ContentType, { edit: number; keyword: number }> = {
+    [ContentType.PHOTO]: { edit: 4, keyword: 1 },
+    [ContentType.VECTOR]: { edit: 5, keyword: 1 },
+    [ContentType.VIDEO]: { edit: 10, keyword: 2 },
+    [ContentType.ILLUSTRATION]: { edit: 7, keyword: 1 },
+};
+
+const parseISODate = (date: string): Date | null => {
+    const parsed = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+    return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/** Work back from the event date to per-platform shoot, edit and upload deadlines. */
+export const buildProductionSchedule = (eventDate: string, contentType: ContentType): ProductionSchedule | undefined => {
+    const date = parseISODate(eventDate);
+    if (!date) {
+        return undefined;
+    }
+    const liveBy = addDays(date, -BUYER_LEAD_DAYS);
+    const production = PRODUCTION_DAYS[contentType];
+    const platforms: PlatformDeadline[] = Object.entries(PLATFORM_REVIEW_DAYS).map(([platform, reviewBufferDays]) => {
+        const uploadBy = addDays(liveBy, -reviewBufferDays);
+        const editBy = addDays(uploadBy, -production.keyword);
+        const shootBy = addDays(editBy, -production.edit);
+        return {
+            platform,
+            reviewBufferDays,
+            shootBy: toISODate(shootBy),
+            editBy: toISODate(editBy),
+            uploadBy: toISODate(uploadBy),
+        };
+    });
+    return { contentType, liveBy: toISODate(liveBy), platforms };
+};
+
+export const withSchedule = (event: Event, contentType: ContentType): Event => ({
+    ...event,
+    schedule: buildProductionSchedule(event.date, contentType),
+});
+
+/** The strictest deadline of each milestone across all platforms. */
+export const earliestDeadlines = (schedule: ProductionSchedule): Record<ProductionMilestone, string> => {
+    const earliest = (key: 'shootBy' | 'editBy' | 'uploadBy') =>
+        schedule.platforms.map(p => p[key]).sort()[0];
+    return { shoot: earliest('shootBy'), edit: earliest('editBy'), upload: earliest('uploadBy') };
+};
+
+export const savedEventsStore = createLocalStore<SavedEvent[]>('aice.savedEvents', []);
+
+export const savedEventId = (event: Event): string => `${eventCountries(event).join('+')}|${event.name}|${event.date}`;
+
+export const isEventSaved = (event: Event): boolean =>
+    savedEventsStore.get().some(saved => saved.id === savedEventId(event));
+
+export const saveEvent = (event: Event, contentType: ContentType): void => {
+    const id = savedEventId(event);
+    savedEventsStore.set(previous => [
+        ...previous.filter(saved => saved.id !== id),
+        { id, event: withSchedule(event, contentType), contentType, savedAt: new Date().toISOString() },
+    ]);
+};
+
+export const removeSavedEvent = (id: string): void => {
+    savedEventsStore.set(previous => previous.filter(saved => saved.id !== id));
+};
+
+export interface Deadline {
+    savedEventId: string;
+    event: Event;
+    platform: string;
+    milestone: ProductionMilestone;
+    date: string;
+    /** Negative when the deadline has passed. */
+    daysLeft: number;
+}
+
+const MILESTONE_KEYS: Record<ProductionMilestone, 'shootBy' | 'editBy' | 'uploadBy'> = {
+    shoot: 'shootBy',
+    edit: 'editBy',
+    upload: 'uploadBy',
+};
+
+const daysBetween = (from: Date, to: Date): number => Math.round((to.getTime() - from.getTime()) / 86400000);
+
+/**
+ * Every production deadline for saved events that have not happened yet,
+ * most urgent first. Overdue deadlines stay listed until the event is over.
+ */
+export const listUpcomingDeadlines = (savedEvents: SavedEvent[], today: Date = new Date()): Deadline[] => {
+    const todayUTC = new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()));
+    const deadlines: Deadline[] = [];
+    for (const saved of savedEvents) {
+        const eventDate = parseISODate(saved.event.date);
+        if (!eventDate || eventDate < todayUTC) {
+            continue;
+        }
+        const schedule = saved.event.schedule ?? buildProductionSchedule(saved.event.date, saved.contentType);
+        for (const platform of schedule?.platforms ?? []) {
+            for (const milestone of Object.keys(MILESTONE_KEYS) as ProductionMilestone[]) {
+                const date = platform[MILESTONE_KEYS[milestone]];
+                deadlines.push({
+                    savedEventId: saved.id,
+                    event: saved.event,
+                    platform: platform.platform,
+                    milestone,
+                    date,
+                    daysLeft: daysBetween(todayUTC, parseISODate(date)!),
+                });
+            }
+        }
+    }
+    return deadlines.sort((a, b) => a.daysLeft - b.daysLeft || a.event.date.localeCompare(b.event.date));
+};
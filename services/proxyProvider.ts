@@ -0,0 +1,83 @@
+import type { AIContent, AITrendReport, EventSearchResult, HotTopic, ImageInput, ImageSettings, KeywordStrategy, MetadataLanguage, StockMetadata } from '../types';
+import type { AIProvider } from './aiProvider';
+import { AIError, isAIErrorKind, toAIError } from './aiErrors';
+import { checkValue, validators } from './responseValidation';
+import type { Validated } from './responseValidation';
+
+// Gemini, reached through the app's own server (server/aiApi.ts) so the API
+// key never reaches the browser. Errors arrive already classified. Only the
+// envelope is checked here; geminiService validates every provider's answer.
+
+const API_BASE = '/api/ai';
+
+const errorFromResponse = (status: number, body: unknown): AIError => {
+    const error = (body as { error?: { kind?: unknown; message?: unknown; retryAfterMs?: unknown } } | null)?.error;
+    if (error && isAIErrorKind(error.kind) && typeof error.message === 'string') {
+        return new AIError(error.kind, error.message, {
+            retryAfterMs: typeof error.retryAfterMs === 'number' ? error.retryAfterMs : undefined,
+        });
+    }
+    if (status === 404) {
+        return new AIError('unavailable', 'The AI server was not found. Start the app with `npm run dev` or `npm start`.');
+    }
+    return toAIError(Object.assign(new Error(`The AI server responded with status ${status}.`), { status }));
+};
+
+const malformed = () => new AIError('parse', 'The AI server sent a response in an unexpected format.');
+
+const call = async (method: Exclude<keyof AIProvider, 'name'>, args: unknown[], signal?: AbortSignal): Promise<unknown> => {
+    let response: Response;
+    let body: unknown;
+    try {
+        response = await fetch(`${API_BASE}/${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ args }),
+            signal,
+        });
+        body = await response.json().catch(() => null);
+    } catch (error) {
+        throw toAIError(error);
+    }
+    if (!response.ok) {
+        throw errorFromResponse(response.status, body);
+    }
+    if (!body || typeof body !== 'object' || !('result' in body)) {
+        throw malformed();
+    }
+    return body.result;
+};
+
+// The value is typed by the method but still unchecked; the issues are the server's own findings.
+const callChecked = async <T>(method: Exclude<keyof AIProvider, 'name'>, args: unknown[], signal?: AbortSignal): Promise<Validated<T>> => {
+    const result = await call(method, args, signal);
+    if (!result || typeof result !== 'object' || !('value' in result)) {
+        throw malformed();
+    }
+    const issues = 'issues' in result ? checkValue(validators.issues, result.issues).value : null;
+    return { value: result.value as T, issues: issues ?? [] };
+};
+
+const callImage = async (args: unknown[], signal?: AbortSignal): Promise<string> => {
+    const result = await call('generateInspirationalImage', args, signal);
+    if (typeof result !== 'string' || !result) {
+        throw malformed();
+    }
+    return result;
+};
+
+export const proxyProvider: AIProvider = {
+    name: 'gemini',
+    findEvents: (countryName: string, monthName: string, countryCode: string, year: number, signal?: AbortSignal) =>
+        callChecked<EventSearchResult>('findEvents', [countryName, monthName, countryCode, year], signal),
+    generateContentIdeas: (eventName: string, contentType: string, signal?: AbortSignal) =>
+        callChecked<AIContent>('generateContentIdeas', [eventName, contentType], signal),
+    generateTrendingIdeas: (theme: string, contentType: string, signal?: AbortSignal) =>
+        callChecked<AITrendReport>('generateTrendingIdeas', [theme, contentType], signal),
+    generateStockMetadata: (topic: string, contentType: string, image?: ImageInput, language?: MetadataLanguage, signal?: AbortSignal) =>
+        callChecked<StockMetadata[]>('generateStockMetadata', [topic, contentType, image ?? null, language ?? null], signal),
+    getGlobalHotTopics: (signal?: AbortSignal) => callChecked<HotTopic[]>('getGlobalHotTopics', [], signal),
+    generateKeywordStrategy: (topic: string, signal?: AbortSignal) => callChecked<KeywordStrategy>('generateKeywordStrategy', [topic], signal),
+    generateInspirationalImage: (prompt: string, contentType: string, settings: ImageSettings, signal?: AbortSignal) =>
+        callImage([prompt, contentType, settings], signal),
+};
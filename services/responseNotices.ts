@@ -0,0 +1,32 @@
+import { createMemoryStore } from './localStore';
+import type { ValidationIssue } from './responseValidation';
+
+// AI responses that had to be repaired or trimmed before use. Each fresh
+// response with issues adds a notice; cached responses were reported when
+// they were first fetched.
+
+export interface ResponseNotice {
+    id: number;
+    /** What was requested, e.g. "trend report". */
+    label: string;
+    issues: ValidationIssue[];
+}
+
+// Older notices are dropped so a long session does not pile them up.
+const MAX_NOTICES = 5;
+
+let nextId = 1;
+
+export const responseNoticesStore = createMemoryStore<ResponseNotice[]>([]);
+
+export const reportResponseIssues = (label: string, issues: ValidationIssue[]): void => {
+    if (issues.length === 0) {
+        return;
+    }
+    const notice = { id: nextId++, label, issues };
+    responseNoticesStore.set(current => [...current, notice].slice(-MAX_NOTICES));
+};
+
+export const dismissResponseNotice = (id: number): void => {
+    responseNoticesStore.set(current => current.filter(notice => notice.id !== id));
+};
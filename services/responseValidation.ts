@@ -0,0 +1,330 @@
+import type { AIContent, AITrendReport, ContentIdea, Event, EventSearchResult, GroundingSource, HotTopic, KeywordStrategy, SellingConcept, StockMetadata, TrendingIdea } from '../types';
+import { AIError } from './aiErrors';
+
+// Runtime checks for model output. Each validator mirrors an interface in
+// types.ts; `shape` requires a validator for every key of the interface, so
+// adding a field to a type without validating it fails to compile. Invalid
+// list items are dropped, repairable fields are repaired, and every change is
+// recorded so callers can report what the model got wrong. The same building
+// blocks check imported workspace files (services/workspace.ts).
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+/** A checked response, with what was repaired or discarded to get it. */
+export interface Validated<T> {
+    value: T;
+    issues: ValidationIssue[];
+}
+
+/** For responses that need no checking, such as fixtures. */
+export const noIssues = <T>(value: T): Validated<T> => ({ value, issues: [] });
+
+const INVALID = Symbol('invalid');
+type Checked<T> = T | typeof INVALID;
+
+export type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => Checked<T>;
+
+const describe = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'string' ? `"${value.slice(0, 40)}"` : typeof value;
+
+export const text = (options: { fallback?: string } = {}): Validator<string> => (value, path, issues) => {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        issues.push({ path, message: `converted ${typeof value} to text` });
+        return String(value);
+    }
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    // An explicit fallback value, e.g. an empty description, is accepted as given.
+    if (trimmed || (typeof value === 'string' && trimmed === options.fallback)) {
+        return trimmed;
+    }
+    if (options.fallback !== undefined) {
+        issues.push({ path, message: `missing, used "${options.fallback}"` });
+        return options.fallback;
+    }
+    issues.push({ path, message: `expected text, got ${describe(value)}` });
+    return INVALID;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** A `YYYY-MM-DD` date; timestamps and other parseable formats are rewritten. */
+export const isoDate = (): Validator<string> => (value, path, issues) => {
+    if (typeof value !== 'string') {
+        issues.push({ path, message: `expected a date, got ${describe(value)}` });
+        return INVALID;
+    }
+    const trimmed = value.trim();
+    const exact = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (exact && !isNaN(Date.parse(`${trimmed}T00:00:00Z`))) {
+        return trimmed;
+    }
+    const prefixed = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s]|$)/);
+    const parsed = prefixed ? null : new Date(trimmed);
+    const repaired = prefixed
+        ? `${prefixed[1]}-${pad(Number(prefixed[2]))}-${pad(Number(prefixed[3]))}`
+        : parsed && !isNaN(parsed.getTime())
+            ? `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`
+            : null;
+    if (!repaired || isNaN(Date.parse(`${repaired}T00:00:00Z`))) {
+        issues.push({ path, message: `unrecognised date "${trimmed}"` });
+        return INVALID;
+    }
+    issues.push({ path, message: `rewrote date "${trimmed}" as ${repaired}` });
+    return repaired;
+};
+
+/** A list of non-empty strings. A comma-separated string is split; a missing list becomes empty. */
+export const textList = (): Validator<string[]> => (value, path, issues) => {
+    let items: unknown[];
+    if (Array.isArray(value)) {
+        items = value;
+    } else if (typeof value === 'string') {
+        issues.push({ path, message: 'split comma-separated text into a list' });
+        items = value.split(',');
+    } else {
+        issues.push({ path, message: `expected a list, got ${describe(value)}; used an empty list` });
+        return [];
+    }
+    const strings = items.flatMap(item => (typeof item === 'string' || typeof item === 'number') ? [String(item).trim()] : []);
+    const kept = strings.filter(Boolean);
+    if (kept.length < items.length) {
+        issues.push({ path, message: `dropped ${items.length - kept.length} empty or non-text entries` });
+    }
+    return kept;
+};
+
+/**
+ * A list whose invalid items are dropped; the list itself is invalid if fewer
+ * than `min` survive. An optional list (no `min`) that is missing becomes empty.
+ */
+export const listOf = <T>(item: Validator<T>, options: { min?: number } = {}): Validator<T[]> => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        if (!options.min) {
+            issues.push({ path, message: `expected a list, got ${describe(value)}; used an empty list` });
+            return [];
+        }
+        issues.push({ path, message: `expected a list, got ${describe(value)}` });
+        return INVALID;
+    }
+    const kept: T[] = [];
+    value.forEach((entry, index) => {
+        const checked = item(entry, `${path}[${index}]`, issues);
+        if (checked === INVALID) {
+            issues.push({ path: `${path}[${index}]`, message: 'dropped invalid item' });
+        } else {
+            kept.push(checked);
+        }
+    });
+    if (kept.length < (options.min ?? 0)) {
+        issues.push({ path, message: `only ${kept.length} valid items, need at least ${options.min}` });
+        return INVALID;
+    }
+    return kept;
+};
+
+/** One of a fixed set of strings, matched exactly. */
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (value, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+        return value as T;
+    }
+    issues.push({ path, message: `expected one of ${values.join(', ')}, got ${describe(value)}` });
+    return INVALID;
+};
+
+export const finiteNumber = (options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> => (value, path, issues) => {
+    const { min = -Infinity, max = Infinity, integer = false } = options;
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))) {
+        return value;
+    }
+    issues.push({ path, message: `expected ${integer ? 'a whole number' : 'a number'}${Number.isFinite(min) ? ` from ${min}` : ''}${Number.isFinite(max) ? ` to ${max}` : ''}, got ${describe(value)}` });
+    return INVALID;
+};
+
+export const bool = (options: { fallback?: boolean } = {}): Validator<boolean> => (value, path, issues) => {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (options.fallback !== undefined && value === undefined) {
+        issues.push({ path, message: `missing, used ${options.fallback}` });
+        return options.fallback;
+    }
+    issues.push({ path, message: `expected true or false, got ${describe(value)}` });
+    return INVALID;
+};
+
+/** Any value other than undefined, passed through unchecked. */
+export const anyValue = (): Validator<unknown> => (value, path, issues) => {
+    if (value === undefined) {
+        issues.push({ path, message: 'missing value' });
+        return INVALID;
+    }
+    return value;
+};
+
+/** A field that may be left out; when present it must pass `item`. */
+export const optional = <T>(item: Validator<T>): Validator<T | undefined> => (value, path, issues) =>
+    value === undefined ? undefined : item(value, path, issues);
+
+/** A field that may be null; a missing one is read as null. */
+export const nullable = <T>(item: Validator<T>): Validator<T | null> => (value, path, issues) =>
+    value === undefined || value === null ? null : item(value, path, issues);
+
+/** An object used as a map; entries whose value is invalid are dropped. */
+export const recordOf = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` });
+        return INVALID;
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+        const checked = item(entry, `${path}.${key}`, issues);
+        if (checked === INVALID) {
+            issues.push({ path: `${path}.${key}`, message: 'dropped invalid entry' });
+        } else {
+            result[key] = checked;
+        }
+    }
+    return result;
+};
+
+/** Run a validator outside a response; `value` is null when nothing usable is left. */
+export const checkValue = <T>(validator: Validator<T>, data: unknown): { value: T | null; issues: ValidationIssue[] } => {
+    const issues: ValidationIssue[] = [];
+    const checked = validator(data, '', issues);
+    return { value: checked === INVALID ? null : checked, issues };
+};
+
+/** For fields the model must never supply; anything it sends is discarded. */
+const absent = <T>(): Validator<T | undefined> => (value, path, issues) => {
+    if (value !== undefined) {
+        issues.push({ path, message: 'ignored unexpected field' });
+    }
+    return undefined;
+};
+
+export type Fields<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+export const shape = <T>(fields: Fields<T>): Validator<T> => (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` });
+        return INVALID;
+    }
+    const record = value as Record<string, unknown>;
+    const result: Partial<T> = {};
+    let valid = true;
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+        const checked = fields[key](record[key], path ? `${path}.${key}` : key, issues);
+        if (checked === INVALID) {
+            valid = false;
+        } else if (checked !== undefined) {
+            result[key] = checked;
+        }
+    }
+    return valid ? (result as T) : INVALID;
+};
+
+const eventValidator = shape<Event>({
+    name: text(),
+    description: text({ fallback: '' }),
+    date: isoDate(),
+    country: text(),
+    source: absent(),
+    countries: absent(),
+    schedule: absent(),
+});
+
+const contentIdeaValidator = shape<ContentIdea>({
+    title: text(),
+    description: text({ fallback: '' }),
+    keywords: textList(),
+});
+
+const sellingConceptValidator = shape<SellingConcept>({
+    concept: text(),
+    description: text({ fallback: '' }),
+    targetAudience: text({ fallback: '' }),
+    keywords: textList(),
+});
+
+const trendingIdeaValidator = shape<TrendingIdea>({
+    title: text(),
+    description: text({ fallback: '' }),
+    keywords: textList(),
+});
+
+const eventsValidator = listOf(eventValidator);
+
+export const validators = {
+    events: eventsValidator,
+    eventSearch: shape<EventSearchResult>({
+        events: eventsValidator,
+        sources: listOf(shape<GroundingSource>({ uri: text(), title: text({ fallback: '' }) })),
+        failedCountries: absent(),
+    }),
+    hotTopics: listOf(shape<HotTopic>({ topic: text(), reason: text({ fallback: '' }) }), { min: 1 }),
+    keywordStrategy: shape<KeywordStrategy>({
+        primaryKeywords: textList(),
+        longTailKeywords: textList(),
+        relatedConcepts: textList(),
+    }),
+    content: shape<AIContent>({
+        ideas: listOf(contentIdeaValidator, { min: 1 }),
+        uploadTip: text({ fallback: '' }),
+        topSellingConcepts: listOf(sellingConceptValidator),
+    }),
+    trendReport: shape<AITrendReport>({
+        ideas: listOf(trendingIdeaValidator, { min: 1 }),
+        audienceTip: text({ fallback: '' }),
+    }),
+    stockMetadata: listOf(
+        shape<StockMetadata>({
+            platform: text(),
+            title: text(),
+            keywords: textList(),
+            issues: absent(),
+        }),
+        { min: 1 }
+    ),
+    image: text(),
+    issues: listOf(shape<ValidationIssue>({ path: text({ fallback: '' }), message: text() })),
+};
+
+/**
+ * Check a parsed response, returning the repaired value and every problem
+ * found on the way. A response with nothing usable left throws.
+ */
+export const validateResponse = <T>(validator: Validator<T>, data: unknown, label: string): Validated<T> => {
+    const { value, issues } = checkValue(validator, data);
+    if (value === null) {
+        throw new AIError('parse', `The AI response for ${label} was missing required information.`);
+    }
+    return { value, issues };
+};
+
+/**
+ * Pull JSON out of a free-text response: a fenced code block if there is one,
+ * otherwise the outermost object or array in the text.
+ */
+export const parseJsonResponse = (rawText: string): unknown => {
+    const fenced = rawText.match(/```[a-zA-Z]*\s*\n?([\s\S]*?)```/);
+    const candidates = [fenced?.[1], rawText];
+    const start = rawText.search(/[[{]/);
+    const end = Math.max(rawText.lastIndexOf('}'), rawText.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+        candidates.push(rawText.slice(start, end + 1));
+    }
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        try {
+            return JSON.parse(candidate.trim());
+        } catch {
+            // Try the next candidate.
+        }
+    }
+    throw new SyntaxError('No JSON found in the AI response.');
+};
@@ -0,0 +1,84 @@
+import type { SaleRecord, SalesReport } from '../types';
+import { CONTENT_THEMES, OTHER_THEME } from '../constants';
+
+// Rankings over imported sales. Every keyword of an asset is credited with the
+// asset's full earnings, since a buyer may have found it through any of them.
+
+export interface SalesRanking {
+    label: string;
+    earnings: number;
+    downloads: number;
+    /** Distinct assets that contributed. */
+    assets: number;
+}
+
+/** Records from every report, or from one platform's reports. */
+export const salesRecordsFor = (reports: SalesReport[], platform: string | null): SaleRecord[] =>
+    reports.filter(report => platform === null || report.platform === platform).flatMap(report => report.records);
+
+const words = (text: string): string => ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+
+/** The theme whose words the title and keywords mention most, or "Other". */
+export const themeFor = (title: string, keywords: string[]): string => {
+    const text = words(`${title} ${keywords.join(' ')}`);
+    let best = { name: OTHER_THEME, matches: 0 };
+    for (const theme of CONTENT_THEMES) {
+        const matches = theme.words.filter(word => text.includes(` ${word} `)).length;
+        if (matches > best.matches) {
+            best = { name: theme.name, matches };
+        }
+    }
+    return best.name;
+};
+
+const rankBy = (records: SaleRecord[], labelsOf: (record: SaleRecord) => string[]): SalesRanking[] => {
+    const groups = new Map<string, { earnings: number; downloads: number; assets: Set<string> }>();
+    for (const record of records) {
+        for (const label of labelsOf(record)) {
+            const group = groups.get(label) ?? { earnings: 0, downloads: 0, assets: new Set<string>() };
+            group.earnings += record.earnings;
+            group.downloads += record.downloads;
+            group.assets.add(record.assetId);
+            groups.set(label, group);
+        }
+    }
+    return Array.from(groups, ([label, group]) => ({
+        label,
+        earnings: Math.round(group.earnings * 100) / 100,
+        downloads: group.downloads,
+        assets: group.assets.size,
+    })).sort((a, b) => b.earnings - a.earnings || b.downloads - a.downloads);
+};
+
+export const rankKeywords = (records: SaleRecord[]): SalesRanking[] => rankBy(records, record => record.keywords);
+
+export const rankThemes = (records: SaleRecord[]): SalesRanking[] =>
+    rankBy(records, record => [themeFor(record.title, record.keywords)]);
+
+/** Months by earnings; records from undated reports are left out. */
+export const rankMonths = (records: SaleRecord[]): SalesRanking[] =>
+    rankBy(records, record => (record.month ? [record.month] : []));
+
+export const salesTotals = (records: SaleRecord[]): Omit<SalesRanking, 'label'> => {
+    const [total] = rankBy(records, () => ['total']);
+    return total ? { earnings: total.earnings, downloads: total.downloads, assets: total.assets } : { earnings: 0, downloads: 0, assets: 0 };
+};
+
+/**
+ * Real sales for each suggested keyword. A phrase matches assets tagged with
+ * it, or with every one of its words, so "home office desk" still finds
+ * assets tagged "home office" and "desk".
+ */
+export const keywordPerformance = (keywords: string[], records: SaleRecord[]): SalesRanking[] =>
+    keywords.map(keyword => {
+        const phrase = keyword.trim().toLowerCase();
+        const phraseWords = phrase.split(/\s+/);
+        const matching = records.filter(record => {
+            if (record.keywords.includes(phrase)) {
+                return true;
+            }
+            const tagged = words(record.keywords.join(' '));
+            return phraseWords.every(word => tagged.includes(` ${word} `));
+        });
+        return { ...(rankBy(matching, () => [keyword])[0] ?? { earnings: 0, downloads: 0, assets: 0 }), label: keyword };
+    });
@@ -0,0 +1,255 @@
+import type { SaleRecord, SalesReport } from '../types';
+import { ContentType } from '../types';
+import { createLocalStore } from './localStore';
+import { PLATFORM_RULES } from './metadataRules';
+
+// Contributor dashboards export sales in different layouts, so columns are
+// found by header name rather than position. Rows are summed per asset and
+// month, which keeps months of sales small enough for local storage.
+
+export const salesReportsStore = createLocalStore<SalesReport[]>('aice.salesReports', []);
+
+type Column = 'date' | 'assetId' | 'title' | 'keywords' | 'downloads' | 'earnings' | 'contentType';
+
+// Header names used by the portals' exports, after lowercasing and dropping punctuation.
+const COLUMN_ALIASES: Record<Column, string[]> = {
+    date: ['date', 'sale date', 'download date', 'sold date', 'period', 'month', 'transaction date'],
+    assetId: ['asset id', 'content id', 'image id', 'media id', 'file id', 'item id', 'asset number', 'id', 'asset'],
+    title: ['title', 'asset title', 'description', 'name', 'file name', 'filename', 'original filename'],
+    keywords: ['keywords', 'tags', 'keyword'],
+    downloads: ['downloads', 'number of downloads', 'sales', 'licenses', 'quantity', 'count', 'number of sales'],
+    earnings: ['earnings', 'your earnings', 'revenue', 'royalty', 'royalties', 'amount', 'commission', 'net earnings', 'earnings usd', 'total earnings'],
+    contentType: ['media type', 'content type', 'asset type', 'type', 'file type'],
+};
+
+const normalizeHeader = (header: string): string =>
+    header.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** RFC 4180 parsing with either comma, semicolon or tab delimiters, picked from the header line. */
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^﻿/, '');
+    const headerLine = source.slice(0, source.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim()));
+};
+
+export type DecimalSeparator = '.' | ',';
+
+// What one amount says about its decimal separator, if anything. "1,234" and
+// "1.234" could be either, so they say nothing on their own.
+const separatorOf = (text: string): DecimalSeparator | null => {
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+        return lastComma > lastDot ? ',' : '.';
+    }
+    const last = Math.max(lastComma, lastDot);
+    if (last === -1) {
+        return null;
+    }
+    const separator = text[last] as DecimalSeparator;
+    // A group separator is never doubled, never follows a lone zero and always groups three digits.
+    const repeated = text.indexOf(separator) !== last;
+    if (repeated) {
+        return separator === ',' ? '.' : ',';
+    }
+    return /^-?0[.,]/.test(text) || text.length - last - 1 !== 3 ? separator : null;
+};
+
+/**
+ * The decimal separator a column of amounts uses, decided by its first
+ * unambiguous value, or null when every value could be read either way.
+ */
+export const detectDecimalSeparator = (values: string[]): DecimalSeparator | null => {
+    for (const value of values) {
+        const separator = separatorOf(value.replace(/[^\d.,-]/g, ''));
+        if (separator) {
+            return separator;
+        }
+    }
+    return null;
+};
+
+/**
+ * "$1,234.56", "1.234,56 €" and "0,38" all become numbers; anything else is 0.
+ * Without a known separator, a value that could be either, like "1,234", is
+ * read as thousands.
+ */
+export const parseAmount = (value: string, decimalSeparator?: DecimalSeparator | null): number => {
+    let text = value.replace(/[^\d.,-]/g, '');
+    const separator = decimalSeparator ?? separatorOf(text) ?? '.';
+    text = separator === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+    const amount = parseFloat(text);
+    return Number.isFinite(amount) ? amount : 0;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** The `YYYY-MM` a sale date falls in. Slashed dates are read as US month/day, dotted ones as day.month. */
+export const parseSaleMonth = (value: string): string | null => {
+    const text = value.trim();
+    let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[T\s]|$)/);
+    if (match) {
+        return `${match[1]}-${pad(Number(match[2]))}`;
+    }
+    match = text.match(/^(\d{1,2})\/\d{1,2}\/(\d{4})/);
+    if (match) {
+        return `${match[2]}-${pad(Number(match[1]))}`;
+    }
+    match = text.match(/^\d{1,2}\.(\d{1,2})\.(\d{4})/);
+    if (match) {
+        return `${match[2]}-${pad(Number(match[1]))}`;
+    }
+    const parsed = new Date(text);
+    return text && !isNaN(parsed.getTime()) ? `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}` : null;
+};
+
+const contentTypeFrom = (value: string): ContentType | undefined => {
+    const text = value.toLowerCase();
+    if (/video|footage|clip/.test(text)) return ContentType.VIDEO;
+    if (/vector|eps|svg/.test(text)) return ContentType.VECTOR;
+    if (/illustration/.test(text)) return ContentType.ILLUSTRATION;
+    if (/photo|image|jpe?g/.test(text)) return ContentType.PHOTO;
+    return undefined;
+};
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'background', 'by', 'for', 'from', 'in', 'into', 'is', 'of', 'on', 'or',
+    'the', 'with', 'to', 'jpg', 'jpeg', 'png', 'eps', 'mp4', 'mov',
+]);
+
+// Without a keyword column, the distinct words of the title stand in for keywords.
+const keywordsFromTitle = (title: string): string[] =>
+    Array.from(new Set(title.toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '').split(/[^\p{L}\p{N}]+/u)))
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+
+const splitKeywords = (value: string): string[] =>
+    Array.from(new Set(value.split(/[,;|]/).map(keyword => keyword.trim().toLowerCase()).filter(Boolean)));
+
+const findColumns = (headers: string[]): Partial<Record<Column, number>> => {
+    const normalized = headers.map(normalizeHeader);
+    const columns: Partial<Record<Column, number>> = {};
+    for (const column of Object.keys(COLUMN_ALIASES) as Column[]) {
+        // Prefer an exact alias match, then a header that starts with one.
+        const aliases = COLUMN_ALIASES[column];
+        let index = normalized.findIndex(header => aliases.includes(header));
+        if (index === -1) {
+            index = normalized.findIndex(header => aliases.some(alias => header.startsWith(`${alias} `)));
+        }
+        if (index !== -1 && !Object.values(columns).includes(index)) {
+            columns[column] = index;
+        }
+    }
+    return columns;
+};
+
+/** Guess the platform from the file name, e.g. "shutterstock_earnings_2024.csv". */
+export const detectPlatform = (fileName: string): string | null => {
+    const name = fileName.toLowerCase().replace(/[^a-z]/g, '');
+    return Object.keys(PLATFORM_RULES).find(platform => name.includes(platform.toLowerCase().replace(/[^a-z]/g, ''))) ?? null;
+};
+
+/** Parse a sales CSV into one record per asset and month. Throws when required columns are missing. */
+export const parseSalesCsv = (text: string): { records: SaleRecord[]; keywordsFromTitles: boolean; skippedRows: number } => {
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers || rows.length === 0) {
+        throw new Error('The file has no sales rows.');
+    }
+    const columns = findColumns(headers);
+    if (columns.earnings === undefined) {
+        throw new Error(`No earnings column was found. Expected a column named like "Earnings", "Revenue" or "Royalty"; found ${headers.join(', ')}.`);
+    }
+    if (columns.assetId === undefined && columns.title === undefined) {
+        throw new Error('No asset column was found. Expected a column such as "Asset ID", "Content ID" or "Title".');
+    }
+
+    const cell = (row: string[], column: Column) => (columns[column] === undefined ? '' : (row[columns[column]!] ?? '').trim());
+    // Decided once per column, so "0,380" and "1,250" in one report are read the same way.
+    const earningsSeparator = detectDecimalSeparator(rows.map(row => cell(row, 'earnings')));
+    const downloadsSeparator = detectDecimalSeparator(rows.map(row => cell(row, 'downloads')));
+    const byAssetAndMonth = new Map<string, SaleRecord>();
+    let skippedRows = 0;
+    for (const row of rows) {
+        const assetId = cell(row, 'assetId') || cell(row, 'title');
+        const earningsText = cell(row, 'earnings');
+        if (!assetId || !earningsText) {
+            skippedRows++;
+            continue;
+        }
+        const title = cell(row, 'title');
+        const month = parseSaleMonth(cell(row, 'date'));
+        const downloadsText = cell(row, 'downloads');
+        const key = `${assetId}|${month}`;
+        const record = byAssetAndMonth.get(key) ?? {
+            assetId,
+            title,
+            keywords: columns.keywords === undefined ? keywordsFromTitle(title) : splitKeywords(cell(row, 'keywords')),
+            month,
+            downloads: 0,
+            earnings: 0,
+            contentType: contentTypeFrom(cell(row, 'contentType')),
+        };
+        // Reports without a count column list one download per row.
+        record.downloads += downloadsText ? parseAmount(downloadsText, downloadsSeparator) : 1;
+        record.earnings += parseAmount(earningsText, earningsSeparator);
+        byAssetAndMonth.set(key, record);
+    }
+    const records = Array.from(byAssetAndMonth.values()).map(record => ({ ...record, earnings: Math.round(record.earnings * 100) / 100 }));
+    return { records, keywordsFromTitles: columns.keywords === undefined, skippedRows };
+};
+
+export const importSalesReport = async (file: File, platform: string): Promise<{ report: SalesReport; skippedRows: number }> => {
+    const { records, keywordsFromTitles, skippedRows } = parseSalesCsv(await file.text());
+    const report: SalesReport = {
+        id: `sales-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        fileName: file.name,
+        platform,
+        importedAt: new Date().toISOString(),
+        keywordsFromTitles,
+        records,
+    };
+    salesReportsStore.set(previous => [...previous, report]);
+    return { report, skippedRows };
+};
+
+export const removeSalesReport = (id: string): void => {
+    salesReportsStore.set(previous => previous.filter(report => report.id !== id));
+};
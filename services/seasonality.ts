@@ -0,0 +1,134 @@
+import type { ContentType, Event, SaleRecord, SavedIdea } from '../types';
+import { CONTENT_THEMES, CONTENT_TYPES, OTHER_THEME } from '../constants';
+import { daysUntil } from './calendarMath';
+import { eventCountries } from './eventService';
+import { savedEventId } from './plannerService';
+import { themeFor } from './salesAnalytics';
+
+// The heatmap has a row per content type or theme and a column per calendar
+// month, pooling every year so recurring seasons line up. Gaps look ahead
+// instead: a column stands for its next occurrence, and a cell is a gap when
+// events in that month reach enough markets but no saved idea is dated in it.
+
+export type SeasonalityDimension = 'contentType' | 'theme';
+
+/** An event with the content type it was searched or saved for. */
+export interface SeasonalEvent {
+    event: Event;
+    contentType: ContentType;
+}
+
+export interface SeasonalityCell {
+    /** Distinct events in this month across all years. */
+    events: number;
+    /** Markets those events reach; an event shared by three countries counts three times. */
+    markets: number;
+    earnings: number;
+    downloads: number;
+    /** Saved ideas dated in this month. */
+    ideas: number;
+    /** Events in the month's next occurrence, when none of the saved ideas cover it. */
+    gapEvents: Event[];
+}
+
+export interface SeasonalityRow {
+    label: string;
+    /** Twelve cells, January first. */
+    cells: SeasonalityCell[];
+}
+
+/** Markets the upcoming events of a month must reach before an empty pipeline counts as a gap. */
+export const GAP_MIN_MARKETS = 2;
+
+const isoMonth = (date: string | null | undefined): string | null => (date && /^\d{4}-\d{2}/.test(date) ? date.slice(0, 7) : null);
+
+const monthIndex = (month: string): number => Number(month.slice(5, 7)) - 1;
+
+/** The `YYYY-MM` of each calendar month's next occurrence, counting the current month as upcoming. */
+export const upcomingMonths = (today: Date = new Date()): string[] =>
+    Array.from({ length: 12 }, (_, i) => {
+        const year = today.getFullYear() + (i < today.getMonth() ? 1 : 0);
+        return `${year}-${String(i + 1).padStart(2, '0')}`;
+    });
+
+const rowLabels = (dimension: SeasonalityDimension): string[] =>
+    dimension === 'contentType' ? [...CONTENT_TYPES] : [...CONTENT_THEMES.map(theme => theme.name), OTHER_THEME];
+
+const emptyCell = (): SeasonalityCell => ({ events: 0, markets: 0, earnings: 0, downloads: 0, ideas: 0, gapEvents: [] });
+
+/** The same event found by several searches, or saved and on screen, counts once. */
+export const uniqueEvents = (events: SeasonalEvent[]): SeasonalEvent[] => {
+    const seen = new Set<string>();
+    return events.filter(({ event, contentType }) => {
+        const id = `${contentType}|${savedEventId(event)}`;
+        if (seen.has(id)) {
+            return false;
+        }
+        seen.add(id);
+        return true;
+    });
+};
+
+export const buildSeasonality = (
+    dimension: SeasonalityDimension,
+    events: SeasonalEvent[],
+    ideas: SavedIdea[],
+    sales: SaleRecord[],
+    today: Date = new Date()
+): SeasonalityRow[] => {
+    const rows = new Map(rowLabels(dimension).map(label => [label, Array.from({ length: 12 }, emptyCell)]));
+    const cellFor = (label: string | undefined, month: string | null) =>
+        label !== undefined && month ? rows.get(label)?.[monthIndex(month)] : undefined;
+
+    const eventRow = ({ event, contentType }: SeasonalEvent) =>
+        dimension === 'contentType' ? contentType : themeFor(`${event.name} ${event.description}`, []);
+    // Ideas without a content type (hot topics) have no content type row.
+    const ideaRow = (idea: SavedIdea) =>
+        dimension === 'contentType' ? idea.contentType : themeFor(`${idea.title} ${idea.description}`, idea.keywords);
+    const saleRow = (record: SaleRecord) =>
+        dimension === 'contentType' ? record.contentType : themeFor(record.title, record.keywords);
+
+    const ideaMonths = new Set<string>();
+    for (const idea of ideas) {
+        const month = isoMonth(idea.eventDate ?? idea.targetDate);
+        const cell = cellFor(ideaRow(idea), month);
+        if (cell) {
+            cell.ideas++;
+            ideaMonths.add(`${ideaRow(idea)}|${month}`);
+        }
+    }
+
+    for (const record of sales) {
+        const cell = cellFor(saleRow(record), record.month);
+        if (cell) {
+            cell.earnings += record.earnings;
+            cell.downloads += record.downloads;
+        }
+    }
+
+    const upcoming = upcomingMonths(today);
+    for (const seasonal of events) {
+        const row = eventRow(seasonal);
+        const month = isoMonth(seasonal.event.date);
+        const cell = cellFor(row, month);
+        if (!cell || !month) {
+            continue;
+        }
+        cell.events++;
+        cell.markets += eventCountries(seasonal.event).length;
+        if (upcoming[monthIndex(month)] === month && daysUntil(seasonal.event.date, today) >= 0 && !ideaMonths.has(`${row}|${month}`)) {
+            cell.gapEvents.push(seasonal.event);
+        }
+    }
+
+    // Only months whose upcoming events together reach enough markets stay flagged.
+    for (const cells of rows.values()) {
+        for (const cell of cells) {
+            if (cell.gapEvents.reduce((sum, event) => sum + eventCountries(event).length, 0) < GAP_MIN_MARKETS) {
+                cell.gapEvents = [];
+            }
+            cell.earnings = Math.round(cell.earnings * 100) / 100;
+        }
+    }
+    return Array.from(rows, ([label, cells]) => ({ label, cells }));
+};
@@ -0,0 +1,35 @@
+export interface TaskQueue {
+    add: (task: () => Promise<unknown>) => void;
+    /** Drop tasks that have not started yet; running tasks finish normally. */
+    clear: () => void;
+}
+
+/** Run queued tasks in order with at most `concurrency` in flight at once. */
+export const createTaskQueue = (concurrency: number): TaskQueue => {
+    const pending: (() => Promise<unknown>)[] = [];
+    let running = 0;
+
+    const pump = () => {
+        while (running < concurrency && pending.length > 0) {
+            const task = pending.shift()!;
+            running++;
+            // Tasks report their own failures; the queue only needs to keep going.
+            task()
+                .catch(() => undefined)
+                .finally(() => {
+                    running--;
+                    pump();
+                });
+        }
+    };
+
+    return {
+        add: (task) => {
+            pending.push(task);
+            pump();
+        },
+        clear: () => {
+            pending.length = 0;
+        },
+    };
+};
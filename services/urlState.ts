@@ -0,0 +1,97 @@
+import type { ContentType, MetadataSearch, SearchFilters, SearchRange, TrendSearch } from '../types';
+import { CONTENT_TYPES, COUNTRIES } from '../constants';
+
+// The open tab and the searches behind it live in the query string, so a
+// reload restores them and a link like
+// ?view=events&countries=JP&month=3&year=2027&type=Vector opens the same
+// results for a teammate. Every search is kept, not just the open tab's, so
+// switching tabs and coming back still matches the URL.
+
+export interface UrlState {
+    /** Unchecked; the app falls back to its default tab for unknown views. */
+    view: string | null;
+    filters: SearchFilters | null;
+    trendSearch: TrendSearch | null;
+    metadataSearch: MetadataSearch | null;
+}
+
+const RANGES: SearchRange[] = ['month', 'year', 'rolling'];
+
+const contentTypeParam = (value: string | null): ContentType | null =>
+    CONTENT_TYPES.find(type => type.toLowerCase() === value?.toLowerCase()) ?? null;
+
+const integerParam = (value: string | null, min: number, max: number): number | null => {
+    const n = Number(value);
+    return value && Number.isInteger(n) && n >= min && n <= max ? n : null;
+};
+
+/** Read the state from a query string. Missing or invalid parameters leave that part of the state empty. */
+export const parseUrlState = (search: string): UrlState => {
+    const params = new URLSearchParams(search);
+
+    const countries = (params.get('countries') ?? '')
+        .split(',')
+        .map(code => code.trim().toUpperCase())
+        .filter(code => COUNTRIES.some(c => c.code === code));
+    const month = integerParam(params.get('month'), 1, 12);
+    const year = integerParam(params.get('year'), 1900, 2999);
+    const type = contentTypeParam(params.get('type'));
+    const range = RANGES.find(r => r === params.get('range')) ?? 'month';
+    const filters = countries.length > 0 && month !== null && year !== null
+        ? { countries, month, year, type: type ?? CONTENT_TYPES[0], range }
+        : null;
+
+    const theme = params.get('theme')?.trim();
+    const topic = params.get('topic')?.trim();
+    return {
+        view: params.get('view'),
+        filters,
+        trendSearch: theme ? { theme, contentType: contentTypeParam(params.get('trendType')) ?? CONTENT_TYPES[0] } : null,
+        metadataSearch: topic ? { topic, contentType: contentTypeParam(params.get('metadataType')) ?? CONTENT_TYPES[0] } : null,
+    };
+};
+
+export const buildUrlSearch = (state: UrlState): string => {
+    const params = new URLSearchParams();
+    if (state.view) {
+        params.set('view', state.view);
+    }
+    if (state.filters) {
+        params.set('countries', state.filters.countries.join(','));
+        params.set('month', String(state.filters.month));
+        params.set('year', String(state.filters.year));
+        params.set('type', state.filters.type);
+        if (state.filters.range !== 'month') {
+            params.set('range', state.filters.range);
+        }
+    }
+    if (state.trendSearch) {
+        params.set('theme', state.trendSearch.theme);
+        params.set('trendType', state.trendSearch.contentType);
+    }
+    if (state.metadataSearch) {
+        params.set('topic', state.metadataSearch.topic);
+        params.set('metadataType', state.metadataSearch.contentType);
+    }
+    const search = params.toString().replace(/%2C/g, ',');
+    return search ? `?${search}` : '';
+};
+
+export const readUrlState = (): UrlState => parseUrlState(window.location.search);
+
+/**
+ * Record the state in the address bar. A new history entry is added unless
+ * `replace` is set, so back and forward step through tabs and searches.
+ */
+export const writeUrlState = (state: UrlState, replace = false): void => {
+    const search = buildUrlSearch(state);
+    if (search === window.location.search) {
+        return;
+    }
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (replace) {
+        window.history.replaceState(null, '', url);
+    } else {
+        window.history.pushState(null, '', url);
+    }
+};
@@ -0,0 +1,359 @@
+import type {
+    ContentType,
+    Event,
+    EventSearchSnapshot,
+    GroundingSource,
+    IdeaCollection,
+    ImageSettings,
+    ImageStylePreset,
+    LibraryImage,
+    MetadataIssue,
+    MetadataSearch,
+    MonthEvents,
+    PlatformDeadline,
+    PlatformReview,
+    ProductionSchedule,
+    SaleRecord,
+    SavedEvent,
+    SalesReport,
+    SavedIdea,
+    SearchFilters,
+    SearchRange,
+    StockMetadata,
+    TrendSearch,
+    WorkspaceSession,
+} from '../types';
+import { CONTENT_TYPES } from '../constants';
+import { importCachedResponses, listCachedResponses } from './aiCache';
+import type { CacheEntry } from './aiCache';
+import { importLibraryImages, listLibraryImages } from './imageLibrary';
+import { imagePresetsStore, imageSettingsStore } from './imagePresets';
+import { normalizeImageSettings } from './imagePrompt';
+import { IDEA_KIND_LABELS, ideaCollectionsStore, savedIdeasStore } from './ideaBoard';
+import { PIPELINE_STAGES } from './pipelineService';
+import { savedEventsStore } from './plannerService';
+import {
+    anyValue,
+    bool,
+    checkValue,
+    finiteNumber,
+    isoDate,
+    listOf,
+    nullable,
+    oneOf,
+    optional,
+    recordOf,
+    shape,
+    text,
+    textList,
+} from './responseValidation';
+import type { Validator } from './responseValidation';
+import { salesReportsStore } from './salesImport';
+import { downloadFile } from './download';
+
+// A workspace bundle is one JSON file holding everything a research session
+// produced: the searches on screen, saved events and ideas, cached AI
+// responses, library images and imported sales reports. Importing merges it into the current
+// workspace, so a colleague's bundle adds to your own work instead of
+// replacing it.
+
+export const WORKSPACE_FORMAT = 'ai-content-engine-workspace';
+export const WORKSPACE_VERSION = 3;
+
+export interface WorkspaceBundle {
+    format: typeof WORKSPACE_FORMAT;
+    version: typeof WORKSPACE_VERSION;
+    exportedAt: string;
+    session: WorkspaceSession;
+    savedEvents: SavedEvent[];
+    savedIdeas: SavedIdea[];
+    ideaCollections: IdeaCollection[];
+    imagePresets: ImageStylePreset[];
+    imageSettings: Partial<Record<ContentType, ImageSettings>>;
+    aiResponses: CacheEntry[];
+    images: LibraryImage[];
+    salesReports: SalesReport[];
+}
+
+type RawBundle = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a bundle from version `n` to `n + 1`. When the bundle
+// shape changes, bump WORKSPACE_VERSION and add the step from the previous
+// version here, so files exported by older builds still import.
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+    // Version 2 added sales reports.
+    1: bundle => ({ ...bundle, salesReports: [] }),
+    // Version 3 added the metadata topic to the session.
+    2: bundle => ({ ...bundle, session: isRecord(bundle.session) ? { ...bundle.session, metadataSearch: null } : bundle.session }),
+};
+
+// Field checks for everything a bundle carries. Entries that fail them are
+// dropped rather than failing the import, so one hand-edited idea does not
+// cost the rest of the workspace.
+
+const contentType = oneOf(CONTENT_TYPES);
+
+const RANGES: SearchRange[] = ['month', 'year', 'rolling'];
+
+const REVIEWS: PlatformReview[] = ['pending', 'approved', 'rejected'];
+
+const filtersValidator = shape<SearchFilters>({
+    countries: listOf(text(), { min: 1 }),
+    month: finiteNumber({ min: 1, max: 12, integer: true }),
+    year: finiteNumber({ min: 1900, max: 2999, integer: true }),
+    type: contentType,
+    range: oneOf(RANGES),
+});
+
+const sourceValidator = shape<GroundingSource>({ uri: text(), title: text({ fallback: '' }) });
+
+const scheduleValidator = shape<ProductionSchedule>({
+    contentType,
+    liveBy: isoDate(),
+    platforms: listOf(shape<PlatformDeadline>({
+        platform: text(),
+        reviewBufferDays: finiteNumber({ min: 0 }),
+        shootBy: isoDate(),
+        editBy: isoDate(),
+        uploadBy: isoDate(),
+    })),
+});
+
+const eventValidator = shape<Event>({
+    name: text(),
+    description: text({ fallback: '' }),
+    date: isoDate(),
+    country: text(),
+    source: optional(oneOf(['calendar', 'ai'] as const)),
+    countries: optional(textList()),
+    schedule: optional(scheduleValidator),
+});
+
+const monthValidator = finiteNumber({ min: 1, max: 12, integer: true });
+const yearValidator = finiteNumber({ min: 1900, max: 2999, integer: true });
+
+const eventSearchValidator = shape<EventSearchSnapshot>({
+    filters: filtersValidator,
+    query: text({ fallback: '' }),
+    events: listOf(eventValidator),
+    sources: listOf(sourceValidator),
+    calendarMonths: listOf(shape<{ month: number; year: number }>({ month: monthValidator, year: yearValidator })),
+    calendarResults: listOf(shape<MonthEvents>({
+        month: monthValidator,
+        year: yearValidator,
+        events: listOf(eventValidator),
+        sources: listOf(sourceValidator),
+        error: optional(text()),
+        failedCountries: optional(textList()),
+    })),
+});
+
+const trendSearchValidator = shape<TrendSearch>({ theme: text(), contentType });
+
+const metadataSearchValidator = shape<MetadataSearch>({ topic: text(), contentType });
+
+const savedEventValidator = shape<SavedEvent>({
+    id: text(),
+    event: eventValidator,
+    contentType,
+    savedAt: text(),
+});
+
+const metadataValidator = shape<StockMetadata>({
+    platform: text(),
+    title: text(),
+    keywords: textList(),
+    issues: optional(listOf(shape<MetadataIssue>({
+        field: oneOf(['title', 'keywords'] as const),
+        message: text(),
+        fixed: bool({ fallback: false }),
+    }))),
+});
+
+const savedIdeaValidator = shape<SavedIdea>({
+    id: text(),
+    kind: oneOf(Object.keys(IDEA_KIND_LABELS) as (keyof typeof IDEA_KIND_LABELS)[]),
+    title: text(),
+    description: text({ fallback: '' }),
+    keywords: textList(),
+    targetAudience: optional(text({ fallback: '' })),
+    origin: text({ fallback: '' }),
+    contentType: optional(contentType),
+    collectionId: nullable(text()),
+    notes: text({ fallback: '' }),
+    targetDate: nullable(isoDate()),
+    eventDate: optional(isoDate()),
+    stage: optional(oneOf(PIPELINE_STAGES)),
+    reviews: optional(recordOf(oneOf(REVIEWS))),
+    metadata: optional(listOf(metadataValidator)),
+    savedAt: text(),
+});
+
+const collectionValidator = shape<IdeaCollection>({ id: text(), name: text(), createdAt: text() });
+
+// Settings are filled in with the preset's content type defaults afterwards.
+const presetValidator = shape<Omit<ImageStylePreset, 'settings'> & { settings: unknown }>({
+    id: text(),
+    name: text(),
+    contentType,
+    settings: anyValue(),
+});
+
+const cacheEntryValidator = shape<CacheEntry>({
+    key: text(),
+    value: anyValue(),
+    expiresAt: finiteNumber(),
+});
+
+const imageValidator = shape<LibraryImage>({
+    id: text(),
+    data: text(),
+    prompt: text({ fallback: '' }),
+    contentType,
+    source: shape<LibraryImage['source']>({ kind: oneOf(['gallery', 'event', 'trend'] as const), name: text({ fallback: '' }) }),
+    tags: textList(),
+    createdAt: text(),
+});
+
+const salesReportValidator = shape<SalesReport>({
+    id: text(),
+    fileName: text({ fallback: '' }),
+    platform: text(),
+    importedAt: text(),
+    keywordsFromTitles: bool({ fallback: false }),
+    records: listOf(shape<SaleRecord>({
+        assetId: text(),
+        title: text({ fallback: '' }),
+        keywords: textList(),
+        month: nullable(text()),
+        downloads: finiteNumber({ min: 0 }),
+        earnings: finiteNumber(),
+        contentType: optional(contentType),
+    })),
+});
+
+// Problems are not reported; whatever fails its checks is left out of the import.
+const valueOr = <T>(validator: Validator<T>, data: unknown, fallback: T): T => checkValue(validator, data).value ?? fallback;
+
+const listFrom = <T>(validator: Validator<T>, data: unknown): T[] => valueOr(listOf(validator), Array.isArray(data) ? data : [], []);
+
+const imageSettingsFrom = (data: unknown): Partial<Record<ContentType, ImageSettings>> =>
+    isRecord(data)
+        ? Object.fromEntries(CONTENT_TYPES.filter(type => isRecord(data[type])).map(type => [type, normalizeImageSettings(data[type], type)]))
+        : {};
+
+const emptySession: WorkspaceSession = { view: 'events', eventSearch: null, trendSearch: null, metadataSearch: null };
+
+/** Check a parsed file is a workspace bundle and bring it up to the current version. */
+export const migrateWorkspace = (raw: unknown): WorkspaceBundle => {
+    if (!isRecord(raw) || raw.format !== WORKSPACE_FORMAT) {
+        throw new Error('This file is not an AI Content Engine workspace.');
+    }
+    let version = raw.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('The workspace file has no valid version number.');
+    }
+    if (version > WORKSPACE_VERSION) {
+        throw new Error(`This workspace was exported by a newer version of the app (format ${version}). Update the app to import it.`);
+    }
+    let bundle: RawBundle = raw;
+    for (; version < WORKSPACE_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new Error(`Workspace format ${version} can no longer be imported.`);
+        }
+        bundle = migrate(bundle);
+    }
+
+    const session = isRecord(bundle.session) ? bundle.session : {};
+    return {
+        format: WORKSPACE_FORMAT,
+        version: WORKSPACE_VERSION,
+        exportedAt: typeof bundle.exportedAt === 'string' ? bundle.exportedAt : '',
+        session: {
+            view: typeof session.view === 'string' ? session.view : emptySession.view,
+            eventSearch: session.eventSearch ? valueOr(eventSearchValidator, session.eventSearch, null) : null,
+            trendSearch: session.trendSearch ? valueOr(trendSearchValidator, session.trendSearch, null) : null,
+            metadataSearch: session.metadataSearch ? valueOr(metadataSearchValidator, session.metadataSearch, null) : null,
+        },
+        savedEvents: listFrom(savedEventValidator, bundle.savedEvents),
+        savedIdeas: listFrom(savedIdeaValidator, bundle.savedIdeas),
+        ideaCollections: listFrom(collectionValidator, bundle.ideaCollections),
+        imagePresets: listFrom(presetValidator, bundle.imagePresets).map(preset => ({
+            ...preset,
+            settings: normalizeImageSettings(preset.settings, preset.contentType),
+        })),
+        imageSettings: imageSettingsFrom(bundle.imageSettings),
+        aiResponses: listFrom(cacheEntryValidator, bundle.aiResponses),
+        images: listFrom(imageValidator, bundle.images),
+        salesReports: listFrom(salesReportValidator, bundle.salesReports),
+    };
+};
+
+export const buildWorkspaceBundle = async (session: WorkspaceSession): Promise<WorkspaceBundle> => ({
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+    savedEvents: savedEventsStore.get(),
+    savedIdeas: savedIdeasStore.get(),
+    ideaCollections: ideaCollectionsStore.get(),
+    imagePresets: imagePresetsStore.get(),
+    imageSettings: imageSettingsStore.get(),
+    aiResponses: await listCachedResponses(),
+    images: await listLibraryImages(),
+    salesReports: salesReportsStore.get(),
+});
+
+export const exportWorkspace = async (session: WorkspaceSession): Promise<void> => {
+    const bundle = await buildWorkspaceBundle(session);
+    downloadFile(JSON.stringify(bundle), `ai-content-engine-workspace-${bundle.exportedAt.slice(0, 10)}.json`, 'application/json');
+};
+
+export const readWorkspaceFile = async (file: File): Promise<WorkspaceBundle> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`"${file.name}" is not a valid JSON file.`);
+    }
+    return migrateWorkspace(parsed);
+};
+
+export interface WorkspaceImportSummary {
+    session: WorkspaceSession;
+    savedEvents: number;
+    savedIdeas: number;
+    images: number;
+    aiResponses: number;
+    salesReports: number;
+}
+
+// Imported entries replace local ones with the same id.
+const mergeById = <T extends { id: string }>(current: T[], imported: T[]): T[] => [
+    ...current.filter(item => !imported.some(i => i.id === item.id)),
+    ...imported,
+];
+
+/** Merge a bundle into the current workspace. The caller restores the returned session. */
+export const importWorkspace = async (bundle: WorkspaceBundle): Promise<WorkspaceImportSummary> => {
+    savedEventsStore.set(current => mergeById(current, bundle.savedEvents));
+    savedIdeasStore.set(current => mergeById(current, bundle.savedIdeas));
+    ideaCollectionsStore.set(current => mergeById(current, bundle.ideaCollections));
+    imagePresetsStore.set(current => mergeById(current, bundle.imagePresets));
+    imageSettingsStore.set(current => ({ ...current, ...bundle.imageSettings }));
+    salesReportsStore.set(current => mergeById(current, bundle.salesReports));
+    const aiResponses = importCachedResponses(bundle.aiResponses);
+    const images = await importLibraryImages(bundle.images);
+    return {
+        session: bundle.session,
+        savedEvents: bundle.savedEvents.length,
+        savedIdeas: bundle.savedIdeas.length,
+        images,
+        aiResponses,
+        salesReports: bundle.salesReports.length,
+    };
+};
@@ -0,0 +1,109 @@
+// Minimal ZIP writer for bundling downloads in the browser. Files are stored
+// without compression, since JPEG and CSV payloads are either already
+// compressed or small.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, in local time as archivers expect.
+const dosDateTime = (date: Date): { time: number; day: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    day: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Give repeated names a numeric suffix so no entry overwrites another on extraction. */
+const uniqueNames = (entries: ZipEntry[]): string[] => {
+    const used = new Set<string>();
+    return entries.map(({ name }) => {
+        let candidate = name;
+        for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+            const dot = name.lastIndexOf('.');
+            candidate = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    });
+};
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    const { time, day } = dosDateTime(modified);
+    const names = uniqueNames(entries).map(name => encoder.encode(name));
+
+    const size = entries.reduce((sum, entry, i) => sum + 30 + 46 + 2 * names[i].length + entry.data.length, 22);
+    const out = new Uint8Array(size);
+    const view = new DataView(out.buffer);
+    const central: { offset: number; crc: number }[] = [];
+    let offset = 0;
+
+    // Bit 11 of the flags marks names as UTF-8.
+    const writeHeader = (signature: number, i: number, crc: number, isCentral: boolean) => {
+        view.setUint32(offset, signature, true);
+        offset += 4;
+        if (isCentral) {
+            view.setUint16(offset, 20, true); // version made by
+            offset += 2;
+        }
+        view.setUint16(offset, 20, true); // version needed
+        view.setUint16(offset + 2, 0x0800, true);
+        view.setUint16(offset + 4, 0, true); // stored
+        view.setUint16(offset + 6, time, true);
+        view.setUint16(offset + 8, day, true);
+        view.setUint32(offset + 10, crc, true);
+        view.setUint32(offset + 14, entries[i].data.length, true);
+        view.setUint32(offset + 18, entries[i].data.length, true);
+        view.setUint16(offset + 22, names[i].length, true);
+        view.setUint16(offset + 24, 0, true); // extra field length
+        offset += 26;
+        if (isCentral) {
+            view.setUint16(offset, 0, true); // comment length
+            view.setUint16(offset + 2, 0, true); // disk number
+            view.setUint16(offset + 4, 0, true); // internal attributes
+            view.setUint32(offset + 6, 0, true); // external attributes
+            view.setUint32(offset + 10, central[i].offset, true);
+            offset += 14;
+        }
+        out.set(names[i], offset);
+        offset += names[i].length;
+    };
+
+    entries.forEach((entry, i) => {
+        const crc = crc32(entry.data);
+        central.push({ offset, crc });
+        writeHeader(0x04034b50, i, crc, false);
+        out.set(entry.data, offset);
+        offset += entry.data.length;
+    });
+
+    const centralStart = offset;
+    entries.forEach((_, i) => writeHeader(0x02014b50, i, central[i].crc, true));
+
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint16(offset + 6, 0, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, offset - centralStart, true);
+    view.setUint32(offset + 16, centralStart, true);
+    view.setUint16(offset + 20, 0, true);
+
+    return out;
+};
@@ -9,6 +9,36 @@ export interface Event {
   description: string;
   date: string;
   country: string;
+  /** 'calendar' for rule-based holidays with computed dates, 'ai' for events found by the model. */
+  source?: 'calendar' | 'ai';
+  /** Every market sharing this event when results for several countries are merged. */
+  countries?: string[];
+  schedule?: ProductionSchedule;
+}
+
+export type ProductionMilestone = 'shoot' | 'edit' | 'upload';
+
+export interface PlatformDeadline {
+  platform: string;
+  /** Days the platform typically takes to review and publish a submission. */
+  reviewBufferDays: number;
+  shootBy: string;
+  editBy: string;
+  uploadBy: string;
+}
+
+/** When content for an event must be produced so it is live while buyers are searching. */
+export interface ProductionSchedule {
+  contentType: ContentType;
+  liveBy: string;
+  platforms: PlatformDeadline[];
+}
+
+export interface SavedEvent {
+  id: string;
+  event: Event;
+  contentType: ContentType;
+  savedAt: string;
 }
 
 export interface ContentIdea {
@@ -65,8 +95,194 @@ export interface KeywordStrategy {
   relatedConcepts: string[];
 }
 
+export interface MetadataIssue {
+  field: 'title' | 'keywords';
+  message: string;
+  /** True when the problem was corrected automatically; false when it needs the user's attention. */
+  fixed: boolean;
+}
+
 export interface StockMetadata {
   platform: string;
   title: string;
   keywords: string[];
-}
\ No newline at end of file
+  /** Set once the metadata has been checked against the platform's rules. */
+  issues?: MetadataIssue[];
+}
+
+/** Languages titles and keywords can be written in, as ISO 639-1 codes. */
+export type MetadataLanguage = 'en' | 'de' | 'es' | 'ja' | 'pt';
+
+export type SearchRange = 'month' | 'year' | 'rolling';
+
+export interface SearchFilters {
+  countries: string[];
+  month: number;
+  year: number;
+  type: ContentType;
+  range: SearchRange;
+}
+
+export interface MonthEvents {
+  month: number;
+  year: number;
+  events: Event[];
+  sources: GroundingSource[];
+  error?: string;
+  failedCountries?: string[];
+}
+
+export interface EventSearchResult {
+  events: Event[];
+  sources: GroundingSource[];
+  /** Codes of countries whose search failed when several were searched together. */
+  failedCountries?: string[];
+}
+
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+/** One image in the inspiration gallery; each slot loads, fails and retries on its own. */
+export interface GallerySlot {
+  /** Distinguishes images generated for the same prompt, and keys their cache entries. */
+  variation: number;
+  status: 'loading' | 'done' | 'error';
+  /** Base64 image data, once generated. */
+  image?: string;
+  error?: string;
+}
+
+/** What an image was generated for: a gallery search, an event's ideas or a trend report. */
+export interface LibraryImageSource {
+  kind: 'gallery' | 'event' | 'trend';
+  name: string;
+}
+
+export interface LibraryImage {
+  id: string;
+  /** Base64 image data without a data-URL prefix. */
+  data: string;
+  prompt: string;
+  contentType: ContentType;
+  source: LibraryImageSource;
+  tags: string[];
+  /** ISO timestamp of when the image was generated. */
+  createdAt: string;
+}
+
+export type ImageAspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9' | '21:9';
+
+export type SubjectDiversity = 'default' | 'diverse' | 'noPeople';
+
+/** Structured controls for image generation; `buildImagePrompt` turns them into prompt text. */
+export interface ImageSettings {
+  /** Visual style, e.g. "photorealistic"; empty lets the model choose. */
+  style: string;
+  aspectRatio: ImageAspectRatio;
+  lighting: string;
+  /** Things the image must not contain, comma-separated. */
+  avoid: string;
+  diversity: SubjectDiversity;
+  temperature: number;
+  /** Free-form instructions appended to the prompt. */
+  notes: string;
+}
+
+export interface ImageStylePreset {
+  id: string;
+  name: string;
+  contentType: ContentType;
+  settings: ImageSettings;
+}
+
+export type PipelineStage = 'idea' | 'shoot' | 'edit' | 'keyword' | 'uploaded';
+
+export type PlatformReview = 'pending' | 'approved' | 'rejected';
+
+export type IdeaKind = 'contentIdea' | 'trendingIdea' | 'sellingConcept' | 'hotTopic';
+
+/** An idea kept on the idea board, whichever tab it came from. */
+export interface SavedIdea {
+  id: string;
+  kind: IdeaKind;
+  title: string;
+  description: string;
+  keywords: string[];
+  /** Selling concepts only. */
+  targetAudience?: string;
+  /** The event, trend theme or market scan that produced the idea. */
+  origin: string;
+  contentType?: ContentType;
+  collectionId: string | null;
+  notes: string;
+  /** ISO date (YYYY-MM-DD) the content should be ready for. */
+  targetDate: string | null;
+  /** Date of the event the idea was generated for, which drives its production deadlines. */
+  eventDate?: string;
+  /** Where the idea is in production; ideas saved before the pipeline existed have none and count as 'idea'. */
+  stage?: PipelineStage;
+  /** Review outcome per platform once uploaded. */
+  reviews?: Record<string, PlatformReview>;
+  /** Metadata generated from the idea in the metadata generator. */
+  metadata?: StockMetadata[];
+  savedAt: string;
+}
+
+export interface IdeaCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** The Event Finder's last search and its results, as kept in an exported workspace. */
+export interface EventSearchSnapshot {
+  filters: SearchFilters;
+  query: string;
+  events: Event[];
+  sources: GroundingSource[];
+  calendarMonths: { month: number; year: number }[];
+  calendarResults: MonthEvents[];
+}
+
+export interface TrendSearch {
+  theme: string;
+  contentType: ContentType;
+}
+
+export interface MetadataSearch {
+  topic: string;
+  contentType: ContentType;
+}
+
+/** What was on screen when a workspace was exported. */
+export interface WorkspaceSession {
+  view: string;
+  eventSearch: EventSearchSnapshot | null;
+  trendSearch: TrendSearch | null;
+  /** The metadata generator's last topic, filled back into its form on restore. */
+  metadataSearch: MetadataSearch | null;
+}
+
+/** One asset's sales in one month, summed from the rows of a contributor sales report. */
+export interface SaleRecord {
+  assetId: string;
+  title: string;
+  keywords: string[];
+  /** `YYYY-MM`, or null when the report has no dates. */
+  month: string | null;
+  downloads: number;
+  earnings: number;
+  contentType?: ContentType;
+}
+
+export interface SalesReport {
+  id: string;
+  fileName: string;
+  platform: string;
+  importedAt: string;
+  /** True when the report had no keyword column and keywords were taken from titles. */
+  keywordsFromTitles: boolean;
+  records: SaleRecord[];
+}
@@ -1,6 +1,20 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createAiApiMiddleware } from './server/aiApi';
+
+// Serves the AI endpoints from the dev and preview servers, so the Gemini key
+// only ever lives in this Node process.
+const aiApi = (apiKey: string | undefined): Plugin => ({
+    name: 'ai-api',
+    configureServer(server) {
+        server.middlewares.use(createAiApiMiddleware({ apiKey }));
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use(createAiApiMiddleware({ apiKey }));
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +23,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), aiApi(env.GEMINI_API_KEY)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only whether a key exists reaches the client, never the key itself.
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'fixture'))
       },
       resolve: {
         alias: {